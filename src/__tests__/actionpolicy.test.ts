@@ -0,0 +1,113 @@
+import { SafetyPolicy } from '../actionpolicy';
+import { PolicyViolationError } from '../errors';
+import RemootioDevice = require('../index');
+import { RemootioSimulator } from '../simulator';
+import { testApiAuthKey, testApiSecretKey } from '../testhelpers';
+
+test('The SafetyPolicy checks the time windows, hold durations, rate limits and confirmation tokens', () => {
+  const policy = new SafetyPolicy({
+    allowedTimeWindows: [
+      { from: '07:00', to: '22:00', actions: ['OPEN', 'TRIGGER'] },
+      { from: '22:00', to: '02:00', days: [6], actions: ['OPEN'] } //Saturday night
+    ],
+    maxHoldDurationMins: 60,
+    rateLimits: { CLOSE: { maxActions: 2, perMs: 1000 } },
+    restartConfirmationToken: 'restart-now'
+  });
+  const saturdayNoon = new Date(2024, 0, 6, 12, 0);
+  const saturdayNight = new Date(2024, 0, 6, 23, 30);
+  const sundayNight = new Date(2024, 0, 7, 23, 30);
+
+  expect(policy.check({ type: 'OPEN' }, { now: saturdayNoon })).toBeUndefined();
+  expect(policy.check({ type: 'OPEN' }, { now: saturdayNight })).toBeUndefined();
+  expect(policy.check({ type: 'OPEN' }, { now: sundayNight })?.rule).toEqual('TIME_WINDOW');
+  expect(policy.check({ type: 'TRIGGER' }, { now: saturdayNight })?.rule).toEqual('TIME_WINDOW');
+  expect(policy.check({ type: 'QUERY' }, { now: sundayNight })).toBeUndefined();
+
+  expect(policy.check({ type: 'OPEN', durationMins: 600 }, { now: saturdayNoon })?.rule).toEqual('MAX_HOLD_DURATION');
+  expect(policy.check({ type: 'OPEN', durationMins: 60 }, { now: saturdayNoon })).toBeUndefined();
+
+  expect(policy.check({ type: 'RESTART' }, { now: saturdayNoon })?.rule).toEqual('CONFIRMATION_REQUIRED');
+  expect(
+    policy.check({ type: 'RESTART', options: { confirmationToken: 'restart-now' } }, { now: saturdayNoon })
+  ).toBeUndefined();
+
+  //Only the recorded actions count for the rate limits, checking an action doesn't use up the budget
+  const now = saturdayNoon.getTime();
+  expect(policy.check({ type: 'CLOSE' }, { now: new Date(now) })).toBeUndefined();
+  expect(policy.check({ type: 'CLOSE' }, { now: new Date(now) })).toBeUndefined();
+  expect(policy.check({ type: 'CLOSE' }, { now: new Date(now) })).toBeUndefined();
+  policy.record({ type: 'CLOSE' }, { now: new Date(now) });
+  policy.record({ type: 'CLOSE' }, { now: new Date(now + 100) });
+  expect(policy.check({ type: 'CLOSE' }, { now: new Date(now + 200) })?.rule).toEqual('RATE_LIMIT');
+  expect(policy.check({ type: 'CLOSE' }, { now: new Date(now + 1000) })).toBeUndefined();
+
+  expect(() => new SafetyPolicy({ allowedTimeWindows: [{ from: '7am', to: '22:00' }] })).toThrow('Invalid time');
+  expect(() => new SafetyPolicy({ allowedTimeWindows: [{ from: '25:00', to: '22:00' }] })).toThrow('Invalid time');
+  expect(() => new SafetyPolicy({ allowedTimeWindows: [{ from: '07:00', to: '22:99' }] })).toThrow('Invalid time');
+  expect(() => new SafetyPolicy({ allowedTimeWindows: [{ from: '0:00', to: '23:59' }] })).not.toThrow();
+});
+
+test('The actions refused by the policy are rejected and emitted as policyviolation events', async () => {
+  const simulator = new RemootioSimulator({ apiSecretKey: testApiSecretKey, apiAuthKey: testApiAuthKey });
+  const port = await simulator.start();
+  const device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port,
+    actionTimeoutMs: 1000,
+    actionPolicy: new SafetyPolicy({ maxHoldDurationMins: 60, refuseRedundantTrigger: true })
+  });
+  const violations: PolicyViolationError[] = [];
+  device.on('policyviolation', (error) => violations.push(error));
+  const actionsReceived: string[] = [];
+  simulator.on('action', (action) => actionsReceived.push(action.type));
+  try {
+    await device.connectAndAuthenticate();
+    expect(device.gateState).toEqual('closed');
+
+    const hold = device.holdOpenOutputActive(10000);
+    await expect(hold).rejects.toBeInstanceOf(PolicyViolationError);
+    await expect(hold).rejects.toMatchObject({
+      code: 'POLICY_VIOLATION',
+      rule: 'MAX_HOLD_DURATION',
+      actionType: 'OPEN'
+    });
+    await expect(device.sendTrigger({ desiredState: 'closed' })).rejects.toMatchObject({ rule: 'ALREADY_IN_STATE' });
+    expect((await device.sendTrigger({ desiredState: 'open' })).response.type).toEqual('TRIGGER');
+
+    expect(violations.map((violation) => violation.rule)).toEqual(['MAX_HOLD_DURATION', 'ALREADY_IN_STATE']);
+    expect(violations[0].deviceIp).toEqual('127.0.0.1');
+    expect(actionsReceived).toEqual(['QUERY', 'TRIGGER']);
+  } finally {
+    device.disconnect();
+    await simulator.stop();
+  }
+});
+
+test('An action rejected or throttled after the policy check does not use up the rate limit', async () => {
+  const simulator = new RemootioSimulator({ apiSecretKey: testApiSecretKey, apiAuthKey: testApiAuthKey });
+  const port = await simulator.start();
+  const policy = new SafetyPolicy({ rateLimits: { TRIGGER: { maxActions: 2, perMs: 60000 } } });
+  const device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port,
+    actionTimeoutMs: 1000,
+    actionPolicy: policy,
+    actionThrottle: { TRIGGER: { minIntervalMs: 60000 } }
+  });
+  const actionsReceived: string[] = [];
+  simulator.on('action', (action) => actionsReceived.push(action.type));
+  try {
+    //Not connected yet
+    await expect(device.sendTrigger()).rejects.toMatchObject({ code: 'CONNECTION_ERROR' });
+    await expect(device.sendTrigger()).rejects.toMatchObject({ code: 'CONNECTION_ERROR' });
+
+    await device.connectAndAuthenticate();
+    expect((await device.sendTrigger()).response).toMatchObject({ type: 'TRIGGER', success: true });
+    await expect(device.sendTrigger()).rejects.toMatchObject({ code: 'ACTION_THROTTLED' });
+    expect(actionsReceived).toEqual(['QUERY', 'TRIGGER']);
+    //Only the TRIGGER that was sent counts, one more is allowed by the policy
+    expect(policy.check({ type: 'TRIGGER' }, { now: new Date() })).toBeUndefined();
+  } finally {
+    device.disconnect();
+    await simulator.stop();
+  }
+});
@@ -0,0 +1,83 @@
+import { ActionQueue } from '../actionqueue';
+import { ActionExpiredError, ConnectionError } from '../errors';
+import { RemootioAction } from '../frames';
+import { ExponentialBackoffReconnectPolicy } from '../reconnectpolicy';
+import RemootioDevice = require('../index');
+import { RemootioSimulator } from '../simulator';
+import { testApiAuthKey, testApiSecretKey } from '../testhelpers';
+
+test('TRIGGER actions are not queued by default, the actions expire after their time to live', async () => {
+  const queue = new ActionQueue<string>({ ttlMs: 20 });
+  expect(queue.accepts('CLOSE')).toBe(true);
+  expect(queue.accepts('TRIGGER')).toBe(false);
+  expect(queue.accepts('TRIGGER', { queue: true })).toBe(true);
+  expect(queue.accepts('CLOSE', { queue: false })).toBe(false);
+
+  const expired: string[] = [];
+  queue.add('CLOSE', 'close', (action) => expired.push(action.item));
+  queue.add('OPEN', 'open', (action) => expired.push(action.item), { ttlMs: 1000 });
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  expect(expired).toEqual(['close']);
+  expect(queue.size).toEqual(1);
+  expect(queue.takeAll().map((action) => action.item)).toEqual(['open']);
+  expect(queue.size).toEqual(0);
+});
+
+test('The queued actions are sent with fresh action ids after the session is authenticated again', async () => {
+  const simulator = new RemootioSimulator({
+    apiSecretKey: testApiSecretKey,
+    apiAuthKey: testApiAuthKey,
+    travelTimeMs: 10
+  });
+  const port = await simulator.start();
+  const device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port,
+    actionTimeoutMs: 1000,
+    reconnectPolicy: new ExponentialBackoffReconnectPolicy({ initialDelayMs: 100, jitter: 0 }),
+    reauthenticateOnReconnect: true,
+    offlineQueue: { ttlMs: 5000 }
+  });
+  const actionsReceived: RemootioAction['action'][] = [];
+  simulator.on('action', (action) => actionsReceived.push(action));
+  try {
+    await expect(device.sendQuery({ ttlMs: 50 })).rejects.toBeInstanceOf(ActionExpiredError);
+    await device.connectAndAuthenticate(true);
+    //The queued actions are sent right after the authenticated event, their ids follow the id of the QUERY of the new session
+    let lastActionId: number | undefined;
+    device.on('authenticated', () => (lastActionId = device.theLastActionId));
+
+    simulator.dropConnections();
+    await new Promise((resolve) => device.on('disconnect', resolve));
+    const close = device.sendClose();
+    const query = device.sendQuery();
+    const trigger = device.sendTrigger();
+    const open = device.sendOpen({ queue: false });
+    const expiredOpen = device.sendOpen({ ttlMs: 10 });
+    await expect(trigger).rejects.toBeInstanceOf(ConnectionError);
+    await expect(open).rejects.toBeInstanceOf(ConnectionError);
+    await expect(expiredOpen).rejects.toMatchObject({ code: 'ACTION_EXPIRED', actionType: 'OPEN', ttlMs: 10 });
+
+    expect((await close).response.type).toEqual('CLOSE');
+    expect((await query).response.type).toEqual('QUERY');
+    const replayed = actionsReceived.slice(-2);
+    expect(replayed.map((action) => action.type)).toEqual(['CLOSE', 'QUERY']);
+    expect(replayed[0].id).toEqual(((lastActionId as number) + 1) % 0x7fffffff);
+    expect(replayed[1].id).toEqual((replayed[0].id + 1) % 0x7fffffff);
+
+    //The queued actions are rejected if the client is disconnected on purpose
+    simulator.dropConnections();
+    await new Promise((resolve) => device.on('disconnect', resolve));
+    const droppedClose = device.sendClose();
+    device.disconnect();
+    await expect(droppedClose).rejects.toBeInstanceOf(ConnectionError);
+    await expect(device.sendClose()).rejects.toBeInstanceOf(ConnectionError);
+  } finally {
+    device.disconnect();
+    await simulator.stop();
+  }
+});
+
+test('Without the offline queue the actions are rejected right away', async () => {
+  const device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey);
+  await expect(device.sendClose()).rejects.toBeInstanceOf(ConnectionError);
+});
@@ -0,0 +1,85 @@
+import { ActionThrottle, ThrottleDecision } from '../actionthrottle';
+import { ActionThrottledError } from '../errors';
+import RemootioDevice = require('../index');
+import { RemootioSimulator } from '../simulator';
+import { testApiAuthKey, testApiSecretKey } from '../testhelpers';
+
+test('Repeated actions are coalesced or rejected depending on their rule', () => {
+  const throttle = new ActionThrottle<string>({ QUERY: { coalesceWithinMs: 500 }, TRIGGER: { minIntervalMs: 3000 } });
+  const now = Date.UTC(2024, 0, 1);
+
+  expect(throttle.check('QUERY', undefined, now)).toEqual({ decision: 'sent' });
+  throttle.record('QUERY', undefined, now, 'first query');
+  expect(throttle.check('QUERY', undefined, now + 499)).toEqual({ decision: 'coalesced', result: 'first query' });
+  expect(throttle.check('QUERY', undefined, now + 500)).toEqual({ decision: 'sent' });
+
+  throttle.record('TRIGGER', undefined, now, 'trigger');
+  expect(throttle.check('TRIGGER', undefined, now + 1000)).toEqual({ decision: 'rejected', retryAfterMs: 2000 });
+  expect(throttle.check('TRIGGER', undefined, now + 3000)).toEqual({ decision: 'sent' });
+  expect(throttle.check('OPEN', undefined, now)).toEqual({ decision: 'sent' });
+  throttle.record('OPEN', undefined, now, 'open'); //not throttled, it's not recorded
+
+  expect(throttle.state).toEqual({
+    QUERY: { rule: { coalesceWithinMs: 500 }, lastSentAt: new Date(now), sent: 1, coalesced: 1, rejected: 0 },
+    TRIGGER: { rule: { minIntervalMs: 3000 }, lastSentAt: new Date(now), sent: 1, coalesced: 0, rejected: 1 }
+  });
+});
+
+test('RemootioDevice coalesces duplicate QUERYs and rejects a double clicked TRIGGER', async () => {
+  const simulator = new RemootioSimulator({ apiSecretKey: testApiSecretKey, apiAuthKey: testApiAuthKey });
+  const port = await simulator.start();
+  const device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port,
+    actionTimeoutMs: 1000,
+    actionThrottle: { QUERY: { coalesceWithinMs: 500 }, TRIGGER: { minIntervalMs: 5000 } }
+  });
+  const actionsReceived: string[] = [];
+  simulator.on('action', (action) => actionsReceived.push(action.type));
+  try {
+    await device.connectAndAuthenticate();
+    const decisions: ThrottleDecision[] = [];
+    const onThrottleDecision = (decision: ThrottleDecision) => decisions.push(decision);
+
+    const firstQuery = device.sendQuery({ onThrottleDecision });
+    const secondQuery = device.sendQuery({ onThrottleDecision });
+    expect(await secondQuery).toBe(await firstQuery);
+
+    await device.sendTrigger({ onThrottleDecision });
+    const secondTrigger = device.sendTrigger({ onThrottleDecision });
+    await expect(secondTrigger).rejects.toBeInstanceOf(ActionThrottledError);
+    await expect(secondTrigger).rejects.toMatchObject({ code: 'ACTION_THROTTLED', actionType: 'TRIGGER' });
+
+    expect(decisions).toEqual(['sent', 'coalesced', 'sent', 'rejected']);
+    //The QUERY of the authentication flow is not throttled
+    expect(actionsReceived).toEqual(['QUERY', 'QUERY', 'TRIGGER']);
+    expect(device.throttleState.QUERY).toMatchObject({ sent: 1, coalesced: 1, rejected: 0 });
+    expect(device.throttleState.TRIGGER).toMatchObject({ sent: 1, coalesced: 0, rejected: 1 });
+  } finally {
+    device.disconnect();
+    await simulator.stop();
+  }
+});
+
+test('An action rejected before it is sent does not count for the throttle', async () => {
+  const simulator = new RemootioSimulator({ apiSecretKey: testApiSecretKey, apiAuthKey: testApiAuthKey });
+  const port = await simulator.start();
+  const device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port,
+    actionTimeoutMs: 1000,
+    actionThrottle: { TRIGGER: { minIntervalMs: 5000 }, QUERY: { coalesceWithinMs: 500 } }
+  });
+  try {
+    //Not connected yet
+    await expect(device.sendTrigger()).rejects.toMatchObject({ code: 'CONNECTION_ERROR' });
+    await expect(device.sendQuery()).rejects.toMatchObject({ code: 'CONNECTION_ERROR' });
+    expect(device.throttleState.TRIGGER).toMatchObject({ sent: 0 });
+
+    await device.connectAndAuthenticate();
+    expect((await device.sendTrigger()).response).toMatchObject({ type: 'TRIGGER', success: true });
+    expect((await device.sendQuery()).response).toMatchObject({ type: 'QUERY', success: true });
+    expect(device.throttleState.TRIGGER).toMatchObject({ sent: 1, rejected: 0 });
+  } finally {
+    device.disconnect();
+    await simulator.stop();
+  }
+});
@@ -0,0 +1,172 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AlertEngine, AlertNotification, ConsoleAlertSink } from '../alertengine';
+import { ExponentialBackoffReconnectPolicy } from '../reconnectpolicy';
+import RemootioDevice = require('../index');
+import { RemootioSimulator } from '../simulator';
+import { RemootioWebhookNotifier } from '../webhooknotifier';
+import { WebhookAlertSink } from '../webhookalertsink';
+import { testApiAuthKey, testApiSecretKey, waitFor } from '../testhelpers';
+
+//The quiet hours are from an hour ago to two hours from now, so the test may run at any time
+const hour = (offset: number) => ((new Date().getHours() + offset + 24) % 24) + ':00';
+
+test('The alerts are raised, repeated, escalated and resolved', async () => {
+  //The receiver fails the first request with 503
+  const requests: { body: string; signature?: string }[] = [];
+  const receiver = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      requests.push({ body, signature: req.headers['x-remootio-signature'] as string | undefined });
+      res.statusCode = requests.length == 1 ? 503 : 200;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+  const simulator = new RemootioSimulator({
+    apiSecretKey: testApiSecretKey,
+    apiAuthKey: testApiAuthKey,
+    travelTimeMs: 50
+  });
+  const device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port: await simulator.start(),
+    actionTimeoutMs: 1000
+  });
+  const lines: string[] = [];
+  const engine = new AlertEngine(
+    [
+      {
+        id: 'left-open',
+        type: 'LEFT_OPEN',
+        openForMs: 100,
+        sinks: ['console'],
+        repeatEveryMs: 200,
+        escalation: [{ afterMs: 300, severity: 'critical', sinks: ['console', 'webhook'] }]
+      },
+      { id: 'quiet-hours', type: 'QUIET_HOURS', from: hour(-1), to: hour(2), severity: 'info', sinks: ['console'] },
+      { id: 'disconnected', type: 'DISCONNECTED', disconnectedForMs: 100, sinks: ['console'] },
+      { id: 'sensor', type: 'SENSOR', events: ['SensorDisabled'], sinks: ['console'] },
+      { id: 'doorbell', type: 'DOORBELL', sinks: ['console'] }
+    ],
+    [
+      new ConsoleAlertSink({ write: (line) => lines.push(line) }),
+      new WebhookAlertSink('http://127.0.0.1:' + (receiver.address() as AddressInfo).port + '/alerts', {
+        secret: 'alert-secret',
+        retryPolicy: new ExponentialBackoffReconnectPolicy({ initialDelayMs: 10, jitter: 0, maxAttempts: 3 })
+      })
+    ]
+  );
+  const notifications: AlertNotification[] = [];
+  engine.on('notification', (notification) => notifications.push(notification));
+  const notified = (ruleId: string) =>
+    notifications
+      .filter((notification) => notification.alert.ruleId == ruleId)
+      .map((notification) => notification.kind);
+  let closedAt: Date | undefined;
+  device.on('gatestatechange', (event, timestamp) => {
+    if (event.state == 'closed') {
+      closedAt = timestamp;
+    }
+  });
+  try {
+    //A device that has not connected yet is not reported as disconnected
+    engine.addDevice('gate3', device);
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    expect(notified('disconnected')).toEqual([]);
+    await device.connectAndAuthenticate();
+
+    simulator.setDoorState('open');
+    await waitFor(() => notified('left-open').indexOf('escalated') != -1);
+    expect(notified('quiet-hours')).toEqual(['raised']);
+    //Raised after 100ms, repeated 200ms later and escalated 300ms later
+    expect(notified('left-open')).toEqual(['raised', 'repeated', 'escalated']);
+    expect(engine.activeAlerts()).toMatchObject([
+      { ruleId: 'quiet-hours', type: 'QUIET_HOURS', deviceId: 'gate3', severity: 'info', level: 0 },
+      { ruleId: 'left-open', type: 'LEFT_OPEN', severity: 'critical', level: 1 }
+    ]);
+    expect(lines[0]).toEqual(
+      '[INFO] gate3 QUIET_HOURS raised: The gate of gate3 was opened during the quiet hours (' +
+        hour(-1) +
+        '-' +
+        hour(2) +
+        ')'
+    );
+
+    //The escalated alert is POSTed to the webhook too, the first attempt got 503
+    await waitFor(() => requests.length == 2);
+    expect(requests[1].body).toEqual(requests[0].body);
+    expect(JSON.parse(requests[1].body)).toMatchObject({
+      kind: 'escalated',
+      alert: { ruleId: 'left-open', severity: 'critical', message: 'The gate of gate3 is open for more than 100ms' }
+    });
+    expect(
+      RemootioWebhookNotifier.verifySignature(requests[1].body, requests[1].signature as string, 'alert-secret')
+    ).toBe(true);
+
+    //The second push is counted, and the alert is acknowledged
+    simulator.pushDoorbell();
+    simulator.pushDoorbell();
+    simulator.sendEvent('SensorFlipped'); //not selected by the rule
+    simulator.sendEvent('SensorDisabled');
+    await device.sendQuery();
+    const doorbell = engine.activeAlerts().find((alert) => alert.ruleId == 'doorbell');
+    expect(doorbell).toMatchObject({ message: 'The doorbell of gate3 was pushed', occurrences: 2 });
+    expect(engine.acknowledge(doorbell?.id as string)).toBe(true);
+    expect(engine.acknowledge(doorbell?.id as string)).toBe(false);
+    expect(notified('doorbell')).toEqual(['raised', 'resolved']);
+    expect(notified('sensor')).toEqual(['raised']);
+    simulator.sendEvent('SensorEnabled');
+
+    simulator.setDoorState('closed');
+    await waitFor(() => notified('left-open').indexOf('resolved') != -1);
+    expect(notified('quiet-hours')).toEqual(['raised', 'resolved']);
+    expect(notified('sensor')).toEqual(['raised', 'resolved']);
+    expect(notifications.filter((notification) => notification.kind == 'resolved')).toMatchObject([
+      { alert: { ruleId: 'doorbell', resolution: 'acknowledged' } },
+      { alert: { ruleId: 'sensor', resolution: 'sensorenabled' } },
+      { alert: { ruleId: 'left-open', resolution: 'closed', resolvedAt: closedAt } },
+      { alert: { ruleId: 'quiet-hours', resolution: 'closed' } }
+    ]);
+    //The repeats stopped when the alert was resolved
+    const leftOpenCount = notified('left-open').length;
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect(notified('left-open').length).toEqual(leftOpenCount);
+
+    //The device is reported disconnectedForMs after the disconnect event
+    device.disconnect();
+    await waitFor(() => notified('disconnected').length == 1);
+    expect(engine.activeAlerts()).toMatchObject([{ message: 'gate3 is disconnected for more than 100ms' }]);
+
+    expect(engine.removeDevice('gate3')).toBe(true);
+    expect(engine.activeAlerts()).toEqual([]);
+    expect(device.listenerCount('incomingmessage')).toEqual(0);
+    expect(device.listenerCount('disconnect')).toEqual(0);
+    expect(device.listenerCount('connected')).toEqual(0);
+  } finally {
+    engine.close();
+    device.disconnect();
+    await simulator.stop();
+    await new Promise((resolve) => receiver.close(resolve));
+  }
+});
+
+test('Invalid rules are reported by the constructor', () => {
+  const sinks = [new ConsoleAlertSink({ write: () => undefined })];
+  expect(() => new AlertEngine([{ id: 'doorbell', type: 'DOORBELL', sinks: ['sms'] }], sinks)).toThrow(
+    'The rule doorbell refers to an unknown sink sms'
+  );
+  expect(() => new AlertEngine([{ id: 'quiet', type: 'QUIET_HOURS', from: '22', to: '06:00' }], sinks)).toThrow(
+    'Invalid time in the time window: 22'
+  );
+  expect(
+    () =>
+      new AlertEngine(
+        [
+          { id: 'doorbell', type: 'DOORBELL' },
+          { id: 'doorbell', type: 'LEFT_OPEN' }
+        ],
+        sinks
+      )
+  ).toThrow('There are several rules with id doorbell');
+});
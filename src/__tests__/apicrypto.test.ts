@@ -1,4 +1,9 @@
+import crypto = require('crypto');
 import { remootioApiConstructEncrypedFrame, remootioApiDecryptEncrypedFrame } from '../apicrypto';
+import { CryptoProvider } from '../cryptoprovider';
+import { NodeCryptoProvider } from '../nodecryptoprovider';
+import { EncryptedFrame } from '../frames';
+import { WebCryptoProvider } from '../webcryptoprovider';
 
 const testApiSecretKey = 'EFD0E4BF75D49BDD4F5CD5492D55C92FE96040E9CD74BED9F19ACA2658EA0FA9';
 const testApiAuthKey = '7B456E7AE95E55F714E2270983C33360514DAD96C93AE1990AFE35FD5BF00A72';
@@ -72,3 +77,74 @@ test('Apicrypto decryption test', () => {
     }
   }
 });
+
+const testFrame: EncryptedFrame = {
+  type: 'ENCRYPTED',
+  data: {
+    iv: 'S7Mt0PR3MCADhHOPqhJPLA==',
+    payload:
+      'pSw+jH9iR3/nOO2+78EpQct3w+vJGKku+8ynSaYra6WsU4dHQJfMg1KNJkooVb1/WYhT28NyGznEHEKt97SYTMG15KjWcQUuqRSlpGD3JzWi/5LG+JPvIg3ptivsFrRZR3wzHAtZI6CekFujm8dhjeK/o6w+daK4FdvVh78pVigX6tBuNHEjoRQfUL9TRS9W'
+  },
+  mac: 'cD4IpRARmeWoUjkL4Kh40uhOMbs7P9prP497qZUapwQ='
+};
+
+//The WebCrypto implementation of Node.js (crypto.webcrypto is not in the node typings used)
+const webcrypto = ((crypto as unknown) as { webcrypto: Crypto }).webcrypto;
+
+const providers: [string, CryptoProvider][] = [
+  ['node', new NodeCryptoProvider()],
+  ['WebCrypto', new WebCryptoProvider(webcrypto)]
+];
+
+describe.each(providers)('%s crypto provider', (_name, provider) => {
+  test('decrypts the test frame', async () => {
+    const result = await provider.decryptFrame(testFrame, testApiSecretKey, testApiAuthKey, testApiSessionKey);
+
+    expect(result).toEqual({
+      response: {
+        type: 'QUERY',
+        id: 808411244,
+        success: true,
+        state: 'no sensor',
+        t100ms: 8985,
+        relayTriggered: false,
+        errorCode: ''
+      }
+    });
+  });
+
+  test('does not decrypt the payload if the MAC is wrong', async () => {
+    const decipherSpy = jest.spyOn(crypto, 'createDecipheriv');
+    const subtleDecryptSpy = jest.spyOn(webcrypto.subtle, 'decrypt');
+    const tamperedFrame = { ...testFrame, mac: 'dD4IpRARmeWoUjkL4Kh40uhOMbs7P9prP497qZUapwQ=' };
+
+    expect(
+      await provider.decryptFrame(tamperedFrame, testApiSecretKey, testApiAuthKey, testApiSessionKey)
+    ).toBeUndefined();
+    expect(
+      await provider.decryptFrame({ ...testFrame, mac: 'short' }, testApiSecretKey, testApiAuthKey, testApiSessionKey)
+    ).toBeUndefined();
+    expect(decipherSpy).not.toHaveBeenCalled();
+    expect(subtleDecryptSpy).not.toHaveBeenCalled();
+    decipherSpy.mockRestore();
+    subtleDecryptSpy.mockRestore();
+  });
+
+  test('frames encrypted by one provider are decrypted by the other ones', async () => {
+    const payload = JSON.stringify({ action: { type: 'TRIGGER', id: 808411245, duration: 5 } });
+    const encryptedFrame = await provider.encryptFrame(payload, testApiSecretKey, testApiAuthKey, testApiSessionKey);
+    expect(encryptedFrame).not.toBeUndefined();
+
+    for (const [, otherProvider] of providers) {
+      expect(
+        await otherProvider.decryptFrame(
+          encryptedFrame as EncryptedFrame,
+          testApiSecretKey,
+          testApiAuthKey,
+          testApiSessionKey
+        )
+      ).toEqual(JSON.parse(payload));
+    }
+    expect(await provider.encryptFrame(payload, testApiSecretKey, testApiAuthKey, undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,116 @@
+import { RemootioSimulator } from '../simulator';
+import { exitCodes, formatPayload, parseArguments, run } from '../cli';
+import { testApiAuthKey, testApiSecretKey } from '../testhelpers';
+
+let simulator: RemootioSimulator;
+let env: { [name: string]: string };
+
+const runCli = async (...argv: string[]) => {
+  const out: string[] = [];
+  const err: string[] = [];
+  const exitCode = await run(argv, env, { out: (line) => out.push(line), err: (line) => err.push(line) });
+  return { exitCode, out, err };
+};
+
+beforeEach(async () => {
+  simulator = new RemootioSimulator({
+    apiSecretKey: testApiSecretKey,
+    apiAuthKey: testApiAuthKey,
+    initialState: 'no sensor',
+    serialNumber: 'CLI0001'
+  });
+  const port = await simulator.start();
+  env = {
+    REMOOTIO_IP: '127.0.0.1',
+    REMOOTIO_PORT: String(port),
+    REMOOTIO_API_SECRET_KEY: testApiSecretKey,
+    REMOOTIO_API_AUTH_KEY: testApiAuthKey
+  };
+});
+
+afterEach(() => simulator.stop());
+
+test('Arguments are parsed and validated', () => {
+  expect(parseArguments(['hold', 'open', '5', '--ip', '192.168.1.23', '--json'])).toEqual({
+    command: 'hold',
+    args: ['open', '5'],
+    ip: '192.168.1.23',
+    json: true
+  });
+  expect(() => parseArguments(['hold', 'sideways', '5'])).toThrow();
+  ['0', '1.5', '-5', '1e2', ' 5', ''].forEach((minutes) =>
+    expect(() => parseArguments(['hold', 'open', minutes])).toThrow()
+  );
+  expect(() => parseArguments(['hold', 'open', '0'])).toThrow(
+    'Invalid value for minutes: 0 (a positive integer expected)'
+  );
+  expect(() => parseArguments(['query', '--api-secret-key', 'abc'])).toThrow('Unknown option');
+  expect(() => parseArguments([])).toThrow('Missing command');
+});
+
+test('hold exits with a usage error if the minutes are not a positive integer', async () => {
+  const result = await runCli('hold', 'open', '1.5');
+
+  expect(result.exitCode).toEqual(exitCodes.usage);
+  expect(result.err[0]).toContain('Invalid value for minutes: 1.5');
+});
+
+test('hello prints the SERVER_HELLO information', async () => {
+  const result = await runCli('hello');
+
+  expect(result.exitCode).toEqual(exitCodes.success);
+  expect(result.out).toContain('apiVersion: 2');
+  expect(result.out).toContain('serialNumber: CLI0001');
+  expect(result.out).toContain('remootioVersion: remootio-2');
+});
+
+test('Actions print the response and exit with a code reflecting success', async () => {
+  const query = await runCli('query', '--json');
+  expect(query.exitCode).toEqual(exitCodes.success);
+  expect(JSON.parse(query.out[0]).response).toMatchObject({ type: 'QUERY', success: true, state: 'no sensor' });
+
+  const close = await runCli('close');
+  expect(close.exitCode).toEqual(exitCodes.noSensor);
+  expect(close.err).toContain('Action failed: no sensor');
+});
+
+test('The errorCodes of the device have their own exit codes', async () => {
+  await simulator.stop();
+  simulator = new RemootioSimulator({
+    apiSecretKey: testApiSecretKey,
+    apiAuthKey: testApiAuthKey,
+    remootioVersion: 'remootio-1'
+  });
+  env.REMOOTIO_PORT = String(await simulator.start());
+
+  const triggerSecondary = await runCli('trigger-secondary');
+  expect(triggerSecondary.exitCode).toEqual(exitCodes.unsupportedAction);
+  expect(triggerSecondary.err).toContain('Action failed: unsupported action');
+});
+
+test('The printed lines start with the time the device created the response at', () => {
+  const response = {
+    response: {
+      type: 'QUERY' as const,
+      id: 1,
+      success: true,
+      state: 'closed' as const,
+      t100ms: 10,
+      relayTriggered: false,
+      errorCode: ''
+    }
+  };
+  const deviceTime = new Date(Date.UTC(2024, 0, 6, 12, 0, 0));
+  expect(formatPayload(response, deviceTime)).toEqual(
+    '2024-01-06T12:00:00.000Z QUERY response id=1 success=true state="closed" t100ms=10 relayTriggered=false errorCode=""'
+  );
+});
+
+test('Missing credentials and unreachable devices have their own exit codes', async () => {
+  delete env.REMOOTIO_API_AUTH_KEY;
+  expect((await runCli('query')).exitCode).toEqual(exitCodes.usage);
+
+  env.REMOOTIO_API_AUTH_KEY = testApiAuthKey;
+  await simulator.stop();
+  expect((await runCli('query')).exitCode).toEqual(exitCodes.connection);
+});
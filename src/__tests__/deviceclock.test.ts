@@ -0,0 +1,77 @@
+import { DeviceClock } from '../deviceclock';
+import RemootioDevice = require('../index');
+import { RemootioSimulator } from '../simulator';
+import { testApiAuthKey, testApiSecretKey } from '../testhelpers';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test('The earliest boot time estimate is kept, late frames get their device side time', () => {
+  const clock = new DeviceClock();
+  const bootTime = Date.UTC(2024, 0, 1);
+
+  expect(clock.update(100, bootTime + 10000 + 500).timestamp.getTime()).toEqual(bootTime + 10500);
+  expect(clock.update(120, bootTime + 12000 + 20).timestamp.getTime()).toEqual(bootTime + 12000 + 20);
+  //A frame delivered 5 seconds late doesn't move the estimate
+  const late = clock.update(130, bootTime + 13000 + 5000);
+  expect(late).toEqual({ timestamp: new Date(bootTime + 13000 + 20), restarted: false });
+  expect(clock.bootDate).toEqual(new Date(bootTime + 20));
+  expect(clock.toDate(1000)).toEqual(new Date(bootTime + 100020));
+});
+
+test('A restart is detected if t100ms goes backwards or a Restart event arrives', () => {
+  const clock = new DeviceClock();
+  const now = Date.UTC(2024, 0, 1);
+
+  expect(clock.update(5000, now).restarted).toEqual(false);
+  clock.reset(); //a new session, the device didn't restart
+  expect(clock.update(5100, now + 10000).restarted).toEqual(false);
+  const afterRestart = clock.update(30, now + 20000);
+  expect(afterRestart.restarted).toEqual(true);
+  expect(clock.bootDate).toEqual(new Date(now + 20000 - 3000));
+  expect(clock.update(20, now + 20000, true).restarted).toEqual(true);
+  expect(clock.bootDate).toEqual(new Date(now + 20000 - 2000));
+  expect(clock.update(5000, now + 30000 + 500, true).restarted).toEqual(true);
+  expect(clock.bootDate).toEqual(new Date(now + 30000 - 500000 + 500));
+
+  //The Restart event of a restart already detected from t100ms going backwards is the same restart
+  expect(clock.update(40, now + 40000).restarted).toEqual(true);
+  expect(clock.update(50, now + 41000, true).restarted).toEqual(false);
+  expect(clock.bootDate).toEqual(new Date(now + 40000 - 4000));
+  expect(clock.update(60, now + 42000, true).restarted).toEqual(true);
+});
+
+test('RemootioDevice exposes the uptime and reports restarts of the device', async () => {
+  const simulator = new RemootioSimulator({ apiSecretKey: testApiSecretKey, apiAuthKey: testApiAuthKey });
+  const device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port: await simulator.start()
+  });
+  const timestamps: Date[] = [];
+  const restarts: (Date | undefined)[] = [];
+  device.on('incomingmessage', (_frame, _decryptedPayload, timestamp) => {
+    if (timestamp != undefined) {
+      timestamps.push(timestamp);
+    }
+  });
+  device.on('devicerestart', (bootTime) => restarts.push(bootTime));
+  try {
+    expect(device.deviceUptime).toBeUndefined();
+    await delay(300);
+    await device.connectAndAuthenticate();
+    expect(timestamps.length).toEqual(1);
+    expect(Math.abs(timestamps[0].getTime() - Date.now())).toBeLessThan(300);
+    expect(device.deviceUptime).toBeGreaterThanOrEqual(200);
+
+    const disconnected = new Promise((resolve) => device.once('disconnect', resolve));
+    await device.sendRestart();
+    await disconnected;
+    device.disconnect();
+    await device.connectAndAuthenticate();
+    await delay(100);
+
+    expect(restarts.length).toEqual(1);
+    expect(device.deviceUptime).toBeLessThan(300);
+  } finally {
+    device.disconnect();
+    await simulator.stop();
+  }
+});
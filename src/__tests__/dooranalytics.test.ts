@@ -0,0 +1,167 @@
+import { DoorAnalytics, DoorAnomaly } from '../dooranalytics';
+import { JournalRecord } from '../eventjournal';
+import RemootioDevice = require('../index');
+import { RemootioSimulator } from '../simulator';
+import { testApiAuthKey, testApiSecretKey } from '../testhelpers';
+
+const event = (time: Date, type: string, fields?: Partial<JournalRecord>): JournalRecord => ({
+  deviceId: 'gate3',
+  time,
+  kind: 'event',
+  type,
+  t100ms: 0,
+  state: 'closed',
+  ...fields
+});
+
+//The guest key 7 opens the gate at the given hour and the gate is closed after secsOpen
+const guestOpen = (day: number, hour: number, secsOpen: number): JournalRecord[] => {
+  const time = new Date(2024, 0, day, hour, 0);
+  return [
+    event(time, 'RelayTrigger', { keyNr: 7, keyType: 'guest key', via: 'bluetooth' }),
+    event(new Date(time.getTime() + 1000), 'StateChange', { state: 'open' }),
+    event(new Date(time.getTime() + 1000 + secsOpen * 1000), 'StateChange', { state: 'closed' })
+  ];
+};
+
+describe('DoorAnalytics', () => {
+  test('computes the cycles, open durations, heatmap and key statistics', () => {
+    const analytics = new DoorAnalytics();
+    //2024-01-01 is a Monday
+    analytics.addRecords([
+      ...guestOpen(1, 8, 20),
+      ...guestOpen(2, 8, 45),
+      ...guestOpen(3, 18, 4000),
+      event(new Date(2024, 0, 3, 18, 30), 'LeftOpen', { state: 'open' }),
+      event(new Date(2024, 0, 4, 7, 0), 'RelayTrigger', { keyNr: 0, keyType: 'master key', via: 'wifi' }),
+      event(new Date(2024, 0, 4, 7, 1), 'StateChange', { state: 'open' }),
+      event(new Date(2024, 0, 4, 7, 2), 'Connected'),
+      { ...event(new Date(2024, 0, 4, 7, 3), 'OPEN'), kind: 'response' },
+      //The unique key 2 is used the most, but only to close the open gate
+      ...Array.from({ length: 4 }, () =>
+        event(new Date(2024, 0, 4, 7, 4), 'RelayTrigger', {
+          keyNr: 2,
+          keyType: 'unique key',
+          via: 'internet',
+          state: 'open'
+        })
+      )
+    ]);
+
+    const summary = analytics.summary('gate3');
+    expect(summary).toMatchObject({
+      deviceId: 'gate3',
+      from: new Date(2024, 0, 1, 8, 0).toISOString(),
+      to: new Date(2024, 0, 4, 7, 4).toISOString(),
+      opens: 4,
+      cycles: 3,
+      leftOpen: 1,
+      openDuration: {
+        count: 3,
+        minSecs: 20,
+        maxSecs: 4000,
+        meanSecs: (20 + 45 + 4000) / 3,
+        histogram: [
+          { upToSecs: 30, count: 1 },
+          { upToSecs: 60, count: 1 },
+          { upToSecs: 300, count: 0 },
+          { upToSecs: 900, count: 0 },
+          { upToSecs: 3600, count: 0 },
+          { upToSecs: null, count: 1 }
+        ]
+      },
+      keys: [
+        {
+          keyType: 'guest key',
+          keyNr: 7,
+          opens: 3,
+          closes: 0,
+          count: 3,
+          lastUsedAt: new Date(2024, 0, 3, 18, 0).toISOString()
+        },
+        { keyType: 'master key', keyNr: 0, opens: 1, closes: 0, count: 1 },
+        { keyType: 'unique key', keyNr: 2, opens: 0, closes: 4, count: 4 }
+      ],
+      via: { bluetooth: 3, wifi: 1, internet: 0, autoopen: 0 },
+      anomalies: []
+    });
+    expect(summary.heatmap[1][8]).toEqual(1);
+    expect(summary.heatmap[2][8]).toEqual(1);
+    expect(summary.heatmap[3][18]).toEqual(1);
+    expect(summary.heatmap[4][7]).toEqual(1);
+    expect(summary.heatmap.reduce((sum, row) => sum + row.reduce((a, b) => a + b), 0)).toEqual(4);
+    //The summary can be sent to the dashboard as it is
+    expect(JSON.parse(JSON.stringify(summary))).toEqual(summary);
+    expect(analytics.summaries().map((s) => s.deviceId)).toEqual(['gate3']);
+  });
+
+  test('flags the opens at unusual hours and the guest keys used outside their usual pattern', () => {
+    const analytics = new DoorAnalytics({ minOpensForAnomalies: 10, minKeyUsesForAnomalies: 5 });
+    const flagged: DoorAnomaly[] = [];
+    analytics.on('anomaly', (anomaly) => flagged.push(anomaly));
+    for (let day = 1; day <= 10; day++) {
+      expect(analytics.addRecords(guestOpen(day, day % 2 == 0 ? 8 : 9, 30))).toEqual([]);
+    }
+    //Used at 10:00 (one hour after the usual uses), it is not an unusual use of the key, but no one has opened the door at 10:00
+    expect(analytics.addRecords(guestOpen(11, 10, 30)).map((anomaly) => anomaly.type)).toEqual(['UNUSUAL_HOUR']);
+
+    const anomalies = analytics.addRecords(guestOpen(12, 3, 30));
+    expect(anomalies).toEqual([
+      {
+        deviceId: 'gate3',
+        type: 'UNUSUAL_KEY_USE',
+        time: new Date(2024, 0, 12, 3, 0).toISOString(),
+        message: 'The guest key 7 was used at an unusual hour (3:00-3:59)',
+        keyNr: 7,
+        keyType: 'guest key'
+      },
+      {
+        deviceId: 'gate3',
+        type: 'UNUSUAL_HOUR',
+        time: new Date(2024, 0, 12, 3, 0, 1).toISOString(),
+        message: 'The door was opened at an unusual hour (3:00-3:59)'
+      }
+    ]);
+    expect(flagged.slice(1)).toEqual(anomalies);
+    expect(analytics.summary('gate3').anomalies.slice(1)).toEqual(anomalies);
+
+    //The master keys are not watched
+    const masterKey = event(new Date(2024, 0, 13, 2, 0), 'RelayTrigger', { keyNr: 0, keyType: 'master key' });
+    expect(analytics.addRecords(Array.from({ length: 6 }, () => masterKey))).toEqual([]);
+  });
+
+  test('computes the statistics of the live events of a device', async () => {
+    const simulator = new RemootioSimulator({
+      apiSecretKey: testApiSecretKey,
+      apiAuthKey: testApiAuthKey,
+      travelTimeMs: 50
+    });
+    const device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+      port: await simulator.start(),
+      actionTimeoutMs: 1000
+    });
+    const analytics = new DoorAnalytics();
+    try {
+      analytics.addDevice('gate3', device);
+      await device.connectAndAuthenticate();
+      simulator.triggerByKey(4, 'guest key', 'internet');
+      simulator.setDoorState('open');
+      simulator.setDoorState('closed');
+      await device.sendQuery();
+
+      expect(analytics.summary('gate3')).toMatchObject({
+        opens: 1,
+        cycles: 1,
+        keys: [{ keyType: 'guest key', keyNr: 4, opens: 1, count: 1 }],
+        via: { internet: 1 }
+      });
+      expect(analytics.removeDevice('gate3')).toEqual(true);
+      expect(device.listenerCount('incomingmessage')).toEqual(0);
+      expect(analytics.summaries().map((s) => s.opens)).toEqual([1]);
+    } finally {
+      analytics.close();
+      device.disconnect();
+      await simulator.stop();
+    }
+  });
+});
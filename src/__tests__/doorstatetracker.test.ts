@@ -0,0 +1,97 @@
+import RemootioDevice = require('../index');
+import { DoorStateTracker, DoorStateTrackerOptions } from '../doorstatetracker';
+import { ReceivedEncryptedFrameContent } from '../frames';
+import { RemootioSimulator } from '../simulator';
+import { testApiAuthKey, testApiSecretKey } from '../testhelpers';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+let simulator: RemootioSimulator;
+let device: RemootioDevice;
+let tracker: DoorStateTracker;
+let states: string[];
+
+const setUp = async (
+  simulatorTravelTimeMs: number,
+  trackerTravelTimeMs: number,
+  trackerOptions?: DoorStateTrackerOptions
+) => {
+  simulator = new RemootioSimulator({
+    apiSecretKey: testApiSecretKey,
+    apiAuthKey: testApiAuthKey,
+    travelTimeMs: simulatorTravelTimeMs
+  });
+  device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port: await simulator.start()
+  });
+  tracker = new DoorStateTracker(device, { ...trackerOptions, travelTimeMs: trackerTravelTimeMs });
+  states = [];
+  tracker.on('doorstate', (current) => states.push(current.state + '/' + current.targetState));
+  await device.connectAndAuthenticate();
+};
+
+afterEach(async () => {
+  tracker.detach();
+  device.disconnect();
+  await simulator.stop();
+});
+
+test('Tracker infers opening and closing from triggers', async () => {
+  await setUp(100, 1000);
+  expect(tracker.current.state).toEqual('closed');
+
+  await device.sendTrigger();
+  expect(tracker.current).toMatchObject({ state: 'opening', targetState: 'open', sensorState: 'closed' });
+  await delay(200);
+  expect(tracker.current.state).toEqual('open');
+
+  simulator.triggerByKey(3, 'guest key', 'bluetooth');
+  await delay(50);
+  expect(tracker.current).toMatchObject({ state: 'closing', targetState: 'closed' });
+  await delay(200);
+
+  expect(states).toEqual(['closed/closed', 'opening/open', 'open/open', 'closing/closed', 'closed/closed']);
+});
+
+test('Tracker reports obstruction if no StateChange arrives in time', async () => {
+  await setUp(1000, 100);
+
+  await device.sendOpen();
+  await delay(200);
+
+  expect(tracker.current).toMatchObject({ state: 'obstructed', targetState: 'open' });
+});
+
+test('Tracker counts only the RelayTrigger event of the API key of the session together with the response', async () => {
+  await setUp(100, 1000, { apiKeyNr: 0 });
+  const receive = (payload: ReceivedEncryptedFrameContent) =>
+    device.emit('incomingmessage', { type: 'ENCRYPTED', data: { iv: '', payload: '' }, mac: '' }, payload);
+  const relayTrigger = (keyNr: number): ReceivedEncryptedFrameContent => ({
+    event: {
+      cnt: 1,
+      type: 'RelayTrigger',
+      state: 'closed',
+      t100ms: 10,
+      data: { keyNr, keyType: 'api key', via: 'wifi' }
+    }
+  });
+
+  receive({
+    response: {
+      type: 'TRIGGER',
+      id: 1,
+      success: true,
+      state: 'closed',
+      t100ms: 10,
+      relayTriggered: true,
+      errorCode: ''
+    }
+  });
+  expect(tracker.current).toMatchObject({ state: 'opening', targetState: 'open' });
+
+  //Another client using another API key triggers the gate before the event of the action of the session arrives
+  receive(relayTrigger(5));
+  expect(tracker.current).toMatchObject({ state: 'closing', targetState: 'closed' });
+  receive(relayTrigger(0));
+  expect(tracker.current).toMatchObject({ state: 'closing', targetState: 'closed' });
+});
@@ -0,0 +1,80 @@
+import { EventEmitter } from '../eventemitter';
+
+test('Listeners are called in order, once listeners only for the first emit', () => {
+  const emitter = new EventEmitter();
+  const calls: string[] = [];
+  const onceListener = (value: number) => calls.push('once ' + value);
+  emitter.on('value', (value: number) => calls.push('on ' + value));
+  emitter.once('value', onceListener);
+  emitter.once('value', (value: number) => calls.push('other once ' + value));
+  emitter.removeListener('value', onceListener);
+
+  expect(emitter.emit('value', 1)).toBe(true);
+  expect(emitter.emit('value', 2)).toBe(true);
+  expect(calls).toEqual(['on 1', 'other once 1', 'on 2']);
+  expect(emitter.listenerCount('value')).toEqual(1);
+
+  emitter.removeAllListeners();
+  expect(emitter.emit('value', 3)).toBe(false);
+});
+
+test('An error event without listeners is thrown', () => {
+  const emitter = new EventEmitter();
+  const error = new Error('broken');
+
+  expect(() => emitter.emit('error', error)).toThrow(error);
+  expect(() => emitter.emit('error', 'No response')).toThrow('Unhandled error. (No response)');
+
+  emitter.on('error', () => undefined);
+  expect(emitter.emit('error', error)).toBe(true);
+});
+
+test('Listeners can be prepended, newListener and removeListener are emitted', () => {
+  const emitter = new EventEmitter();
+  const calls: string[] = [];
+  const changes: string[] = [];
+  emitter.on('newListener', (event: string) => changes.push('new ' + event));
+  emitter.on('removeListener', (event: string) => changes.push('removed ' + event));
+  const onceListener = () => calls.push('prepended once');
+  emitter.on('value', () => calls.push('on'));
+  emitter.prependListener('value', () => calls.push('prepended'));
+  emitter.prependOnceListener('value', onceListener);
+
+  expect(emitter.eventNames()).toEqual(['newListener', 'removeListener', 'value']);
+  expect(emitter.listeners('value')[0]).toBe(onceListener);
+  expect(((emitter.rawListeners('value')[0] as unknown) as { listener: unknown }).listener).toBe(onceListener);
+  emitter.emit('value');
+  emitter.emit('value');
+  expect(calls).toEqual(['prepended once', 'prepended', 'on', 'prepended', 'on']);
+
+  emitter.removeAllListeners('value');
+  expect(changes).toEqual([
+    'new removeListener',
+    'new value',
+    'new value',
+    'new value',
+    'removed value',
+    'removed value',
+    'removed value'
+  ]);
+  expect(emitter.eventNames()).toEqual(['newListener', 'removeListener']);
+});
+
+test('The maximum number of listeners can be changed', () => {
+  const emitter = new EventEmitter();
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  try {
+    expect(emitter.getMaxListeners()).toEqual(10);
+    expect(emitter.setMaxListeners(2)).toBe(emitter);
+    expect(emitter.getMaxListeners()).toEqual(2);
+    emitter.on('value', () => undefined);
+    emitter.on('value', () => undefined);
+    expect(warn).not.toHaveBeenCalled();
+    emitter.on('value', () => undefined);
+    emitter.on('value', () => undefined);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(() => emitter.setMaxListeners(-1)).toThrow(RangeError);
+  } finally {
+    warn.mockRestore();
+  }
+});
@@ -0,0 +1,187 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database = require('better-sqlite3');
+import { EventJournal, exportJournalRecords, JournalRecord, JournalStore, MemoryJournalStore } from '../eventjournal';
+import { NdjsonJournalStore } from '../ndjsonjournalstore';
+import { SqliteJournalStore } from '../sqlitejournalstore';
+import RemootioDevice = require('../index');
+import { RemootioSimulator } from '../simulator';
+import { testApiAuthKey, testApiSecretKey } from '../testhelpers';
+
+const lastNight = new Date(2024, 0, 6, 23, 30);
+const records: JournalRecord[] = [
+  {
+    deviceId: 'gate3',
+    time: new Date(2024, 0, 6, 12, 0),
+    kind: 'event',
+    type: 'StateChange',
+    cnt: 1,
+    t100ms: 10,
+    state: 'open'
+  },
+  {
+    deviceId: 'gate3',
+    time: lastNight,
+    kind: 'event',
+    type: 'RelayTrigger',
+    cnt: 2,
+    t100ms: 20,
+    state: 'closed',
+    keyNr: 7,
+    keyType: 'guest key',
+    via: 'bluetooth'
+  },
+  {
+    deviceId: 'gate1',
+    time: lastNight,
+    kind: 'event',
+    type: 'RelayTrigger',
+    cnt: 5,
+    t100ms: 30,
+    state: 'closed',
+    keyNr: 1,
+    keyType: 'master key',
+    via: 'wifi'
+  },
+  {
+    deviceId: 'gate3',
+    time: new Date(2024, 0, 7, 8, 0),
+    kind: 'event',
+    type: 'LeftOpen',
+    cnt: 3,
+    t100ms: 40,
+    state: 'open',
+    data: { timeOpen100ms: 6000 }
+  },
+  {
+    deviceId: 'gate3',
+    time: new Date(2024, 0, 7, 9, 0),
+    kind: 'response',
+    type: 'OPEN',
+    t100ms: 50,
+    state: 'closed',
+    actionId: 12,
+    success: false,
+    errorCode: 'no sensor'
+  }
+];
+
+describe.each([
+  ['memory', () => new MemoryJournalStore()],
+  [
+    'NDJSON',
+    () => new NdjsonJournalStore(path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'journal-')), 'journal.ndjson'))
+  ],
+  ['SQLite', () => new SqliteJournalStore(new Database(':memory:'))]
+])('The %s journal store', (_name, createStore: () => JournalStore) => {
+  test('answers the queries', async () => {
+    const store = createStore();
+    for (const record of records) {
+      await store.append(record);
+    }
+    expect(await store.query({})).toEqual(records);
+    //Who opened gate 3 last night?
+    const nightQuery = {
+      deviceId: 'gate3',
+      type: 'RelayTrigger',
+      from: new Date(2024, 0, 6, 20, 0),
+      to: new Date(2024, 0, 7, 6, 0)
+    };
+    expect(await store.query(nightQuery)).toEqual([records[1]]);
+    expect(await store.query({ keyType: ['guest key', 'master key'], via: 'wifi' })).toEqual([records[2]]);
+    expect(await store.query({ keyNr: 7 })).toEqual([records[1]]);
+    expect(await store.query({ kind: 'response' })).toEqual([records[4]]);
+    expect(await store.query({ deviceId: 'gate3', order: 'desc', limit: 2 })).toEqual([records[4], records[3]]);
+    expect(await store.query({ type: ['LeftOpen', 'StateChange'] })).toEqual([records[0], records[3]]);
+    await store.close();
+  });
+});
+
+test('The NDJSON journal store rotates the file and skips the unfinished lines', async () => {
+  const journalPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'journal-')), 'journal.ndjson');
+  const lineBytes = Buffer.byteLength(JSON.stringify(records[0]) + '\n');
+  const store = new NdjsonJournalStore(journalPath, { maxBytes: lineBytes * 2, maxFiles: 1 });
+  const append = (journalStore: JournalStore, cnt: number) => journalStore.append({ ...records[0], cnt });
+  for (const cnt of [0, 1, 2]) {
+    await append(store, cnt);
+  }
+  expect(fs.readFileSync(journalPath, 'utf8').split('\n').length).toEqual(2); //one record and the last newline
+  expect(fs.readFileSync(journalPath + '.1', 'utf8').split('\n').length).toEqual(3);
+  expect((await store.query({})).map((record) => record.cnt)).toEqual([0, 1, 2]);
+
+  //The file with the first two records is deleted
+  await append(store, 3);
+  await append(store, 4);
+  expect((await store.query({})).map((record) => record.cnt)).toEqual([2, 3, 4]);
+
+  //The process crashed while writing a record, and the journal is opened again
+  fs.appendFileSync(journalPath, '{"deviceId":"gate3","ti');
+  const reopened = new NdjsonJournalStore(journalPath, { maxFiles: 1 });
+  expect((await reopened.query({})).map((record) => record.cnt)).toEqual([2, 3, 4]);
+  await append(reopened, 5);
+  expect((await reopened.query({})).map((record) => record.cnt)).toEqual([2, 3, 4, 5]);
+});
+
+test('The records are exported as CSV or NDJSON', () => {
+  const csv = exportJournalRecords([records[3], records[4]], 'csv').split('\r\n');
+  expect(csv[0]).toEqual('deviceId,time,kind,type,cnt,t100ms,state,keyNr,keyType,via,actionId,success,errorCode,data');
+  expect(csv[1]).toEqual(
+    'gate3,' + records[3].time.toISOString() + ',event,LeftOpen,3,40,open,,,,,,,"{""timeOpen100ms"":6000}"'
+  );
+  expect(csv[2]).toEqual('gate3,' + records[4].time.toISOString() + ',response,OPEN,,50,closed,,,,12,false,no sensor,');
+  expect(csv.length).toEqual(4);
+
+  const ndjson = exportJournalRecords(records, 'ndjson').trim().split('\n');
+  expect(ndjson.length).toEqual(records.length);
+  expect(JSON.parse(ndjson[1])).toEqual({ ...records[1], time: lastNight.toISOString() });
+});
+
+test('The EventJournal records the events and action responses of a device', async () => {
+  const simulator = new RemootioSimulator({
+    apiSecretKey: testApiSecretKey,
+    apiAuthKey: testApiAuthKey,
+    travelTimeMs: 50
+  });
+  const device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port: await simulator.start(),
+    actionTimeoutMs: 1000
+  });
+  const journal = new EventJournal(new MemoryJournalStore());
+  try {
+    journal.addDevice('gate3', device);
+    await device.connectAndAuthenticate();
+    simulator.triggerByKey(4, 'guest key', 'bluetooth');
+    await device.sendQuery();
+
+    const triggers = await journal.query({ type: 'RelayTrigger', keyType: 'guest key' });
+    expect(triggers).toEqual([
+      {
+        deviceId: 'gate3',
+        time: expect.any(Date),
+        kind: 'event',
+        type: 'RelayTrigger',
+        cnt: expect.any(Number),
+        t100ms: expect.any(Number),
+        state: 'closed',
+        keyNr: 4,
+        keyType: 'guest key',
+        via: 'bluetooth'
+      }
+    ]);
+    expect(Math.abs(triggers[0].time.getTime() - Date.now())).toBeLessThan(5000);
+    //The QUERY of the authentication flow and the one sent above
+    expect(await journal.query({ kind: 'response' })).toMatchObject([
+      { type: 'QUERY', success: true },
+      { type: 'QUERY', success: true }
+    ]);
+    expect(await journal.export({ type: 'RelayTrigger' }, 'ndjson')).toContain('"keyType":"guest key"');
+
+    journal.removeDevice('gate3');
+    expect(device.listenerCount('incomingmessage')).toEqual(0);
+  } finally {
+    await journal.close();
+    device.disconnect();
+    await simulator.stop();
+  }
+});
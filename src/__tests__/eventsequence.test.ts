@@ -0,0 +1,54 @@
+import { EventSequence } from '../eventsequence';
+import RemootioDevice = require('../index');
+import { RemootioSimulator } from '../simulator';
+import { testApiAuthKey, testApiSecretKey } from '../testhelpers';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test('Gaps, duplicates and out-of-order events are detected', () => {
+  const sequence = new EventSequence();
+
+  expect(sequence.check(5)).toEqual({ result: 'first' });
+  expect(sequence.check(6)).toEqual({ result: 'inorder' });
+  expect(sequence.check(6)).toEqual({ result: 'duplicate' });
+  expect(sequence.check(9)).toEqual({ result: 'gap', missingFromCnt: 7, missingToCnt: 8 });
+  expect(sequence.check(8)).toEqual({ result: 'outoforder' });
+  expect(sequence.lastEventCnt).toEqual(9);
+
+  sequence.reset(); //the device was restarted
+  expect(sequence.check(0)).toEqual({ result: 'first' });
+});
+
+test('Events missed while disconnected are reported and the state is resynchronized', async () => {
+  const simulator = new RemootioSimulator({ apiSecretKey: testApiSecretKey, apiAuthKey: testApiAuthKey });
+  const device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port: await simulator.start(),
+    resyncOnEventGap: true
+  });
+  const gaps: number[][] = [];
+  const actions: string[] = [];
+  device.on('eventgap', (missingFromCnt, missingToCnt) => gaps.push([missingFromCnt, missingToCnt]));
+  simulator.on('action', (action) => actions.push(action.type));
+  try {
+    await device.connectAndAuthenticate();
+    simulator.pushDoorbell();
+    await delay(50);
+    expect(device.lastEventCnt).toEqual(0);
+
+    device.disconnect();
+    await delay(50);
+    simulator.setDoorState('open'); //cnt 1
+    simulator.pushManualButton(); //cnt 2
+    await device.connectAndAuthenticate();
+    actions.length = 0;
+    simulator.pushDoorbell(); //cnt 3
+    await delay(100);
+
+    expect(gaps).toEqual([[1, 2]]);
+    expect(actions).toEqual(['QUERY']);
+    expect(device.lastEventCnt).toEqual(3);
+  } finally {
+    device.disconnect();
+    await simulator.stop();
+  }
+});
@@ -0,0 +1,63 @@
+import { RemootioFleet } from '../fleet';
+import { RemootioSimulator } from '../simulator';
+import { testApiAuthKey, testApiSecretKey } from '../testhelpers';
+
+test('Fleet connects the devices, re-emits their events and runs bulk actions', async () => {
+  const gate1 = new RemootioSimulator({
+    apiSecretKey: testApiSecretKey,
+    apiAuthKey: testApiAuthKey,
+    initialState: 'open'
+  });
+  const gate2 = new RemootioSimulator({
+    apiSecretKey: testApiSecretKey,
+    apiAuthKey: testApiAuthKey,
+    initialState: 'no sensor'
+  });
+  const garage = new RemootioSimulator({ apiSecretKey: testApiSecretKey, apiAuthKey: testApiAuthKey });
+  const ports = [await gate1.start(), await gate2.start(), await garage.start()];
+
+  const fleet = new RemootioFleet();
+  const authenticated: string[] = [];
+  const allAuthenticated = new Promise<void>((resolve) =>
+    fleet.on('authenticated', (deviceId) => {
+      authenticated.push(deviceId);
+      if (authenticated.length == 3) {
+        resolve();
+      }
+    })
+  );
+  const config = (id: string, port: number, groups: string[]) => ({
+    id,
+    ip: '127.0.0.1',
+    apiSecretKey: testApiSecretKey,
+    apiAuthKey: testApiAuthKey,
+    groups,
+    options: { port }
+  });
+  fleet.setDevices([
+    config('gate1', ports[0], ['gates']),
+    config('gate2', ports[1], ['gates']),
+    config('garage', ports[2], [])
+  ]);
+  await allAuthenticated;
+  expect(authenticated.sort()).toEqual(['garage', 'gate1', 'gate2']);
+
+  const results = await fleet.bulkAction('close', { group: 'gates' });
+  expect(results.map((result) => [result.id, result.success])).toEqual([
+    ['gate1', true],
+    ['gate2', false]
+  ]);
+  expect(results[1].response?.response.errorCode).toEqual('no sensor');
+
+  const health = fleet.getHealth();
+  expect(health.map((device) => device.id)).toEqual(['gate1', 'gate2', 'garage']);
+  expect(health[0]).toMatchObject({ connectionState: 'authenticated', isAuthenticated: true, lastKnownState: 'open' });
+  expect(health[0].lastMessageAt).toBeInstanceOf(Date);
+
+  fleet.setDevices([config('gate1', ports[0], ['gates'])]);
+  expect(fleet.getDeviceIds()).toEqual(['gate1']);
+  expect(fleet.getDevice('garage')).toBeUndefined();
+
+  fleet.close();
+  await Promise.all([gate1.stop(), gate2.stop(), garage.stop()]);
+});
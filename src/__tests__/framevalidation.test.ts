@@ -0,0 +1,86 @@
+import {
+  asUnknownEvent,
+  isRemootioEvent,
+  isServerHelloFrame,
+  validateEncryptedFrameContent,
+  validateReceivedFrame
+} from '../framevalidation';
+import RemootioDevice = require('../index');
+import { RemootioSimulator } from '../simulator';
+import { testApiAuthKey, testApiSecretKey } from '../testhelpers';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test('Received frames are validated', () => {
+  expect(validateReceivedFrame({ type: 'PONG' })).toBeUndefined();
+  expect(validateReceivedFrame({ type: 'ERROR', errorMessage: 'json error' })).toBeUndefined();
+  expect(validateReceivedFrame({ type: 'ERROR', errorMessage: 'oops' })).toEqual(
+    'frame.errorMessage has an unknown value: "oops"'
+  );
+  expect(validateReceivedFrame({ type: 'ENCRYPTED', data: { iv: 'a', payload: 'b' } })).toEqual(
+    'frame.mac must be a string'
+  );
+  expect(validateReceivedFrame({ type: 'NEW_FRAME' })).toEqual('Unknown frame type: "NEW_FRAME"');
+  expect(validateReceivedFrame('PONG')).toEqual('The frame must be an object');
+
+  expect(isServerHelloFrame({ type: 'SERVER_HELLO', apiVersion: 1, message: 'hello' })).toEqual(true);
+  expect(isServerHelloFrame({ type: 'SERVER_HELLO', apiVersion: 2, message: 'hello' })).toEqual(false);
+});
+
+test('Decrypted payloads are validated', () => {
+  const relayTrigger = {
+    event: {
+      cnt: 3,
+      type: 'RelayTrigger',
+      state: 'closed',
+      t100ms: 100,
+      data: { keyNr: 0, keyType: 'api key', via: 'wifi' }
+    }
+  };
+  expect(isRemootioEvent(relayTrigger)).toEqual(true);
+  expect(
+    validateEncryptedFrameContent({ event: { ...relayTrigger.event, data: { keyNr: 0, keyType: 'api key' } } })
+  ).toEqual('event.data.via has an unknown value: undefined');
+  expect(validateEncryptedFrameContent({ response: { type: 'QUERY', id: 1 } })).toEqual(
+    'response.success must be a boolean'
+  );
+  expect(validateEncryptedFrameContent({ challenge: { sessionKey: 'a', initialActionId: 1 } })).toBeUndefined();
+
+  const futureEvent = { event: { cnt: 4, type: 'FutureEvent', state: 'open', t100ms: 200 } };
+  expect(validateEncryptedFrameContent(futureEvent)).toEqual('Unknown event type: "FutureEvent"');
+  expect(asUnknownEvent(futureEvent)).toEqual({ unknownEvent: futureEvent.event });
+  expect(asUnknownEvent(relayTrigger)).toBeUndefined();
+});
+
+test('Unknown events are passed through in lenient mode and reported in strict mode', async () => {
+  const simulator = new RemootioSimulator({ apiSecretKey: testApiSecretKey, apiAuthKey: testApiAuthKey });
+  const port = await simulator.start();
+  const lenientDevice = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, { port });
+  const strictDevice = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port,
+    frameValidation: 'strict'
+  });
+  const unknownEvents: unknown[] = [];
+  const protocolErrors: string[] = [];
+  lenientDevice.on('incomingmessage', (_frame, decryptedPayload) => {
+    if (decryptedPayload != undefined && 'unknownEvent' in decryptedPayload) {
+      unknownEvents.push(decryptedPayload.unknownEvent.type);
+    }
+  });
+  lenientDevice.on('protocolerror', (problem) => protocolErrors.push('lenient: ' + problem));
+  strictDevice.on('protocolerror', (problem) => protocolErrors.push('strict: ' + problem));
+  try {
+    await lenientDevice.connectAndAuthenticate();
+    await strictDevice.connectAndAuthenticate();
+    simulator.sendEvent('FutureEvent' as Parameters<RemootioSimulator['sendEvent']>[0]);
+    simulator.pushDoorbell();
+    await delay(100);
+
+    expect(unknownEvents).toEqual(['FutureEvent']);
+    expect(protocolErrors).toEqual(['strict: Unknown event type: "FutureEvent"']);
+  } finally {
+    lenientDevice.disconnect();
+    strictDevice.disconnect();
+    await simulator.stop();
+  }
+});
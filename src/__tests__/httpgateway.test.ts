@@ -0,0 +1,151 @@
+import * as http from 'http';
+import RemootioDevice = require('../index');
+import { RemootioHttpGateway } from '../httpgateway';
+import { RemootioSimulator } from '../simulator';
+import { testApiAuthKey, testApiSecretKey, waitFor } from '../testhelpers';
+
+const token = 'test-token';
+
+//The body of the response is the parsed JSON, the assertions check its shape
+const request = (port: number, method: string, path: string, body?: string, authorization = 'Bearer ' + token) =>
+  new Promise<{ status: number; headers: http.IncomingHttpHeaders; body: unknown }>((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port, method, path, headers: { authorization } }, (res) => {
+      let data = '';
+      res.on('data', (chunk) => (data += chunk));
+      res.on('end', () => resolve({ status: res.statusCode as number, headers: res.headers, body: JSON.parse(data) }));
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+
+test('The gateway serves the state, runs the actions and streams the events of a device', async () => {
+  const simulator = new RemootioSimulator({
+    apiSecretKey: testApiSecretKey,
+    apiAuthKey: testApiAuthKey,
+    remootioVersion: 'remootio-1', //there is no secondary output, so TRIGGER_SECONDARY fails
+    travelTimeMs: 50
+  });
+  const device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port: await simulator.start(),
+    actionTimeoutMs: 1000
+  });
+  const actionsReceived: { type: string; duration?: number }[] = [];
+  simulator.on('action', (action) =>
+    actionsReceived.push({ type: action.type, duration: 'duration' in action ? action.duration : undefined })
+  );
+  const gateway = new RemootioHttpGateway({ tokens: ['other-token', token] });
+  let events: http.IncomingMessage | undefined;
+  try {
+    await device.connectAndAuthenticate();
+    gateway.addDevice('garage', device);
+    const port = await gateway.listen(0);
+
+    expect((await request(port, 'GET', '/devices/garage/state', undefined, 'Bearer wrong')).status).toEqual(401);
+    expect((await request(port, 'GET', '/devices/garage/state', undefined, '')).body).toMatchObject({
+      error: { code: 'UNAUTHORIZED' }
+    });
+    const state = await request(port, 'GET', '/devices/garage/state');
+    expect(state.status).toEqual(200);
+    expect(state.body).toMatchObject({ id: 'garage', connectionState: 'authenticated', gateState: 'closed' });
+    expect((await request(port, 'GET', '/devices')).body).toMatchObject([{ id: 'garage', isAuthenticated: true }]);
+    expect((await request(port, 'GET', '/devices/gate/state')).body).toMatchObject({
+      error: { code: 'DEVICE_NOT_FOUND' }
+    });
+
+    //The events are streamed, the token is passed in the query parameter like EventSource would
+    let stream = '';
+    events = await new Promise<http.IncomingMessage>((resolve) =>
+      http.get({ host: '127.0.0.1', port, path: '/devices/garage/events?access_token=' + token }, resolve)
+    );
+    expect(events.headers['content-type']).toEqual('text/event-stream');
+    events.on('data', (chunk) => (stream += chunk));
+
+    const open = await request(port, 'POST', '/devices/garage/actions/open');
+    expect(open.status).toEqual(200);
+    expect(open.body).toMatchObject({ response: { type: 'OPEN', success: true } });
+    await waitFor(() => /event: StateChange\ndata: .*"state":"open"/.test(stream));
+    const relayTrigger = /event: RelayTrigger\ndata: (.*)\n\n/.exec(stream) as RegExpExecArray;
+    expect(JSON.parse(relayTrigger[1])).toMatchObject({ type: 'RelayTrigger', data: { keyType: 'api key' } });
+
+    expect((await request(port, 'POST', '/devices/garage/actions/trigger', '{"duration":5}')).status).toEqual(200);
+    expect(actionsReceived.slice(-2)).toEqual([
+      { type: 'OPEN', duration: undefined },
+      { type: 'TRIGGER', duration: 5 }
+    ]);
+
+    const failed = await request(port, 'POST', '/devices/garage/actions/trigger-secondary');
+    expect(failed.status).toEqual(409);
+    expect(failed.body).toMatchObject({ error: { code: 'ACTION_FAILED', errorCode: 'unsupported action' } });
+    const invalid = await request(port, 'POST', '/devices/garage/actions/restart', '{"duration":5}');
+    expect(invalid.status).toEqual(400);
+    expect(invalid.body).toMatchObject({ error: { code: 'INVALID_REQUEST' } });
+    expect((await request(port, 'POST', '/devices/garage/actions/open', 'not json')).status).toEqual(400);
+    const tooLarge = await request(
+      port,
+      'POST',
+      '/devices/garage/actions/open',
+      JSON.stringify({ confirmationToken: 'x'.repeat(64 * 1024) })
+    );
+    expect(tooLarge.status).toEqual(413);
+    expect(tooLarge.headers.connection).toEqual('close');
+    expect(tooLarge.body).toMatchObject({ error: { code: 'PAYLOAD_TOO_LARGE' } });
+    expect((await request(port, 'POST', '/devices/garage/actions/stop')).status).toEqual(404);
+    expect((await request(port, 'GET', '/devices/garage/actions/open')).status).toEqual(405);
+
+    device.disconnect();
+    const notConnected = await request(port, 'POST', '/devices/garage/actions/close');
+    expect(notConnected.status).toEqual(503);
+
+    //The OpenAPI document doesn't need a token
+    const openApi = await request(port, 'GET', '/openapi.json', undefined, '');
+    expect(openApi.status).toEqual(200);
+    expect(openApi.body).toMatchObject({
+      components: {
+        schemas: {
+          SensorState: { enum: ['closed', 'open', 'no sensor'] },
+          ActionResponse: { properties: { response: { required: expect.arrayContaining(['errorCode']) } } },
+          DeviceState: {
+            properties: { connectionState: { enum: expect.arrayContaining(['authenticated', 'closed']) } }
+          }
+        }
+      },
+      paths: { '/devices/{id}/events': expect.any(Object) }
+    });
+    //The error responses of the actions are generated from the statuses of the error codes
+    const actionResponses = (openApi.body as { paths: { [path: string]: { post: { responses: object } } } }).paths[
+      '/devices/{id}/actions/{action}'
+    ].post.responses;
+    expect(Object.keys(actionResponses)).toEqual([
+      '200',
+      '400',
+      '401',
+      '403',
+      '404',
+      '405',
+      '409',
+      '413',
+      '429',
+      '500',
+      '502',
+      '503',
+      '504'
+    ]);
+    expect(actionResponses).toMatchObject({
+      '502': {
+        description: expect.stringContaining('(PROTOCOL_ERROR, DECRYPTION_FAILED, SERVER_ERROR, AUTHENTICATION_FAILED)')
+      }
+    });
+
+    gateway.removeDevice('garage');
+    expect(device.listenerCount('incomingmessage')).toEqual(0);
+  } finally {
+    events?.destroy();
+    await gateway.close();
+    device.disconnect();
+    await simulator.stop();
+  }
+});
+
+test('The gateway needs at least one token', () => {
+  expect(() => new RemootioHttpGateway({ tokens: [] })).toThrow('At least one bearer token is required');
+});
@@ -1,9 +1,25 @@
 /* eslint-disable @typescript-eslint/no-empty-function */
+import WebSocket = require('ws');
+import crypto = require('crypto');
 import RemootioDevice = require('../index');
+import { remootioApiConstructEncrypedFrame, remootioApiDecryptEncrypedFrame } from '../apicrypto';
+import {
+  ActionFailedError,
+  ActionTimeoutError,
+  AuthenticationError,
+  ConnectionError,
+  InvalidStateError,
+  ProtocolError,
+  RemootioError,
+  ServerError
+} from '../errors';
+import { RemootioAction } from '../frames';
+import { ExponentialBackoffReconnectPolicy } from '../reconnectpolicy';
+import { RemootioSimulator } from '../simulator';
+import { WebCryptoProvider } from '../webcryptoprovider';
+import { testApiAuthKey, testApiSecretKey } from '../testhelpers';
 
 const testIp = '192.168.0.15';
-const testApiSecretKey = 'C85B1CF44398C3BA36B35D63CD779C0A265F9592FF9C5D85EFA16E3C4121B4F6';
-const testApiAuthKey = 'F01AEB37D9E79FB213ACA2CFB48BECF6C1513F1C5623534799B3BEFE8EF681A0';
 
 const delay = (ms: number) =>
   new Promise((resolve) =>
@@ -58,3 +74,369 @@ test('Client can emit events', async () => {
   expect(connectedCallback).not.toHaveBeenCalled();
   expect(disconnectCallback).not.toHaveBeenCalled();
 });
+
+//A minimal fake Remootio device that runs the authentication flow and lets the test decide how to respond to actions
+const startFakeDevice = (
+  port: number,
+  onAction: (action: RemootioAction['action'], respond: (success: boolean) => void) => void
+) => {
+  const server = new WebSocket.Server({ port });
+  const sessionKey = 'yzEI7RWCjYDEwFrgc5YrmWo82kXEjFNStbtN+wFM2Qk=';
+  server.on('connection', (socket) => {
+    socket.on('message', (data) => {
+      const frame = JSON.parse(data.toString());
+      if (frame.type == 'AUTH') {
+        //The challenge is encrypted with the API Secret Key
+        const challenge = remootioApiConstructEncrypedFrame(
+          JSON.stringify({ challenge: { sessionKey, initialActionId: 0x7ffffffd } }),
+          testApiSecretKey,
+          testApiAuthKey,
+          Buffer.from(testApiSecretKey, 'hex').toString('base64')
+        );
+        socket.send(JSON.stringify(challenge));
+      } else if (frame.type == 'ENCRYPTED') {
+        const payload = remootioApiDecryptEncrypedFrame(frame, testApiSecretKey, testApiAuthKey, sessionKey);
+        const action = ((payload as unknown) as RemootioAction).action;
+        const respond = (success: boolean) => {
+          const response = {
+            response: {
+              type: action.type,
+              id: action.id,
+              success,
+              state: 'closed',
+              t100ms: 1000,
+              relayTriggered: success && action.type != 'QUERY',
+              errorCode: success ? '' : 'invalid action'
+            }
+          };
+          socket.send(
+            JSON.stringify(
+              remootioApiConstructEncrypedFrame(JSON.stringify(response), testApiSecretKey, testApiAuthKey, sessionKey)
+            )
+          );
+        };
+        if (action.id == 0x7ffffffe) {
+          respond(true); //the QUERY of the authentication flow
+        } else {
+          onAction(action, respond);
+        }
+      }
+    });
+  });
+  return server;
+};
+
+const connectToFakeDevice = async (port: number, actionTimeoutMs?: number) => {
+  const instance = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port,
+    actionTimeoutMs
+  });
+  const authenticated = new Promise((resolve) => instance.on('authenticated', resolve));
+  instance.on('connected', () => instance.authenticate());
+  instance.connect(false);
+  await authenticated;
+  return instance;
+};
+
+test('Actions are rejected if the session is not authenticated', async () => {
+  const instance = new RemootioDevice(testIp, testApiSecretKey, testApiAuthKey);
+
+  await expect(instance.sendQuery()).rejects.toBeInstanceOf(ConnectionError);
+});
+
+test('Concurrent actions resolve with their own responses across the action id wraparound', async () => {
+  const pending: Array<() => void> = [];
+  const server = startFakeDevice(18081, (_action, respond) => {
+    pending.push(() => respond(true));
+    if (pending.length == 3) {
+      //Respond in reverse order
+      pending.reverse().forEach((send) => send());
+    }
+  });
+  const instance = await connectToFakeDevice(18081);
+
+  const [query, trigger, open] = await Promise.all([
+    instance.sendQuery(),
+    instance.sendTrigger(),
+    instance.holdOpenOutputActive(5)
+  ]);
+  expect(query.response.type).toEqual('QUERY');
+  expect(query.response.id).toEqual(0);
+  expect(trigger.response.type).toEqual('TRIGGER');
+  expect(trigger.response.id).toEqual(1);
+  expect(open.response.type).toEqual('OPEN');
+  expect(open.response.id).toEqual(2);
+  expect(instance.theLastActionId).toEqual(2);
+
+  instance.disconnect();
+  server.close();
+});
+
+test('Actions are rejected on failure, timeout and disconnect', async () => {
+  const server = startFakeDevice(18082, (action, respond) => {
+    if (action.type == 'OPEN') {
+      respond(false);
+    }
+  });
+  const instance = await connectToFakeDevice(18082, 300);
+
+  const open = instance.sendOpen();
+  await expect(open).rejects.toBeInstanceOf(ActionFailedError);
+  await expect(open).rejects.toMatchObject({
+    code: 'ACTION_FAILED',
+    errorCode: 'invalid action',
+    actionType: 'OPEN',
+    deviceIp: '127.0.0.1',
+    frame: { response: { type: 'OPEN', success: false } }
+  });
+
+  const close = instance.sendClose();
+  await expect(close).rejects.toBeInstanceOf(ActionTimeoutError);
+  await expect(close).rejects.toMatchObject({ code: 'ACTION_TIMEOUT', actionType: 'CLOSE' });
+
+  const restart = instance.sendRestart();
+  instance.disconnect();
+  await expect(restart).rejects.toBeInstanceOf(ConnectionError);
+
+  server.close();
+});
+
+test('Connection state machine goes through the lifecycle and rejects illegal transitions', async () => {
+  const server = startFakeDevice(18083, () => {});
+  const instance = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, { port: 18083 });
+  const states: string[] = [];
+  instance.on('statechange', (previousState, nextState) => states.push(previousState + '->' + nextState));
+
+  expect(instance.connectionState).toEqual('disconnected');
+  await instance.connectAndAuthenticate();
+  expect(instance.connectionState).toEqual('authenticated');
+  expect(instance.isAuthenticated).toBe(true);
+
+  await expect(instance.authenticate()).rejects.toBeInstanceOf(InvalidStateError);
+  expect(() => instance.connect(false)).toThrow(InvalidStateError);
+
+  const disconnected = new Promise((resolve) => instance.on('disconnect', resolve));
+  instance.disconnect();
+  await disconnected;
+  expect(states).toEqual([
+    'disconnected->connecting',
+    'connecting->connected',
+    'connected->authenticating',
+    'authenticating->authenticated',
+    'authenticated->closed'
+  ]);
+
+  server.close();
+});
+
+test('connectAndAuthenticate is rejected when the device sends an authentication error', async () => {
+  const server = new WebSocket.Server({ port: 18084 });
+  server.on('connection', (socket) => {
+    socket.on('message', () => socket.send(JSON.stringify({ type: 'ERROR', errorMessage: 'authentication error' })));
+  });
+  const instance = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, { port: 18084 });
+
+  const result = instance.connectAndAuthenticate();
+  await expect(result).rejects.toBeInstanceOf(AuthenticationError);
+  await expect(result).rejects.toMatchObject({ errorMessage: 'authentication error' });
+  expect(instance.connectionState).toEqual('connected');
+
+  instance.disconnect();
+  server.close();
+});
+
+test('Reconnects with the reconnect policy and authenticates again', async () => {
+  let connections = 0;
+  const server = startFakeDevice(18085, () => {});
+  server.on('connection', (socket) => {
+    connections++;
+    if (connections == 1) {
+      setTimeout(() => socket.terminate(), 50); //Drop the first connection
+    }
+  });
+  const instance = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port: 18085,
+    reconnectPolicy: new ExponentialBackoffReconnectPolicy({ initialDelayMs: 100, jitter: 0 }),
+    reauthenticateOnReconnect: true
+  });
+  const reconnecting = jest.fn();
+  instance.on('reconnecting', reconnecting);
+
+  await instance.connectAndAuthenticate(true);
+  const reauthenticated = new Promise((resolve) => instance.on('authenticated', resolve));
+  await reauthenticated;
+
+  expect(reconnecting).toHaveBeenCalledWith(1, 100);
+  expect(connections).toEqual(2);
+  expect(instance.connectionState).toEqual('authenticated');
+
+  instance.disconnect();
+  server.close();
+});
+
+test('A failed authentication after a reconnect without an error listener is not an unhandled rejection', async () => {
+  let connections = 0;
+  const server = new WebSocket.Server({ port: 18088 });
+  server.on('connection', (socket) => {
+    connections++;
+    if (connections == 1) {
+      setTimeout(() => socket.terminate(), 50); //Drop the first connection
+    }
+    socket.on('message', () => socket.send(JSON.stringify({ type: 'ERROR', errorMessage: 'authentication error' })));
+  });
+  const instance = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port: 18088,
+    reconnectPolicy: new ExponentialBackoffReconnectPolicy({ initialDelayMs: 10, jitter: 0 }),
+    reauthenticateOnReconnect: true
+  });
+  const unhandledRejections: unknown[] = [];
+  const onUnhandledRejection = (reason: unknown) => unhandledRejections.push(reason);
+  process.on('unhandledRejection', onUnhandledRejection);
+  try {
+    const serverError = new Promise((resolve) => instance.on('servererror', resolve));
+    instance.connect(true);
+    expect(await serverError).toEqual('authentication error');
+    await delay(50);
+
+    expect(unhandledRejections).toEqual([]);
+    expect(instance.connectionState).toEqual('connected');
+  } finally {
+    process.removeListener('unhandledRejection', onUnhandledRejection);
+    instance.disconnect();
+    server.close();
+  }
+});
+
+test('Gives up reconnecting after the maximum number of attempts', async () => {
+  const onGiveUp = jest.fn();
+  const instance = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port: 18086, //Nothing is listening on this port
+    reconnectPolicy: new ExponentialBackoffReconnectPolicy({ initialDelayMs: 10, maxAttempts: 2, onGiveUp })
+  });
+  const reconnecting = jest.fn();
+  instance.on('reconnecting', reconnecting);
+  const reconnectFailed = new Promise((resolve) => instance.on('reconnectfailed', resolve));
+
+  instance.connect(true);
+
+  expect(await reconnectFailed).toEqual(2);
+  expect(reconnecting).toHaveBeenCalledTimes(2);
+  expect(onGiveUp).toHaveBeenCalledWith(2);
+  expect(instance.connectionState).toEqual('disconnected');
+});
+
+test('Action responses, events and ERROR frames are emitted as typed events', async () => {
+  const simulator = new RemootioSimulator({ apiSecretKey: testApiSecretKey, apiAuthKey: testApiAuthKey });
+  const device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port: await simulator.start()
+  });
+  const received: string[] = [];
+  device.on('actionresponse', (response, timestamp) => received.push('response ' + response.type + ' ' + !!timestamp));
+  device.on('gatestatechange', (event) => received.push('state ' + event.state));
+  device.on('relaytrigger', (event) => received.push('trigger ' + event.data.keyType + ' ' + event.data.via));
+  device.on('doorbell', (event) => received.push(event.type));
+  device.on('manualbutton', (event) => received.push(event.type));
+  device.on('servererror', (errorMessage) => received.push('error ' + errorMessage));
+  try {
+    await device.connectAndAuthenticate();
+    await device.sendTrigger();
+    simulator.setDoorState('open');
+    simulator.pushDoorbell();
+    simulator.triggerByKey(2, 'guest key', 'bluetooth');
+    simulator.sendError('internal error');
+    await delay(100);
+
+    expect(received).toEqual([
+      'response QUERY true',
+      'trigger api key wifi',
+      'response TRIGGER true',
+      'state open',
+      'DoorbellPushed',
+      'trigger guest key bluetooth',
+      'error internal error'
+    ]);
+  } finally {
+    device.disconnect();
+    await simulator.stop();
+  }
+});
+
+test('A throwing listener without an error listener does not stop the processing of the next frames', async () => {
+  const simulator = new RemootioSimulator({ apiSecretKey: testApiSecretKey, apiAuthKey: testApiAuthKey });
+  const device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port: await simulator.start()
+  });
+  const doorbellPushed = new Promise<void>((resolve) => device.on('doorbell', () => resolve()));
+  let failed = false;
+  device.on('incomingmessage', (_frame, decryptedPayload) => {
+    if (!failed && decryptedPayload != undefined && 'event' in decryptedPayload) {
+      failed = true;
+      throw new Error('Listener failure');
+    }
+  });
+  try {
+    await device.connectAndAuthenticate();
+    simulator.pushDoorbell();
+    simulator.pushDoorbell();
+    //The first DoorbellPushed frame fails, the second one and the response are still processed
+    await doorbellPushed;
+    const response = await device.sendQuery();
+
+    expect(response.response).toMatchObject({ type: 'QUERY', success: true });
+  } finally {
+    device.disconnect();
+    await simulator.stop();
+  }
+});
+
+test('ERROR frames and invalid frames are reported with typed errors', async () => {
+  const server = new WebSocket.Server({ port: 18087 });
+  server.on('connection', (socket) => {
+    socket.send('not json');
+    socket.send(JSON.stringify({ type: 'ERROR', errorMessage: 'json error' }));
+  });
+  const instance = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, { port: 18087 });
+  const errors: RemootioError[] = [];
+  instance.on('protocolerror', (_problem, _frame, error) => errors.push(error));
+  const serverError = new Promise<ServerError>((resolve) =>
+    instance.on('servererror', (_message, error) => resolve(error))
+  );
+  try {
+    instance.connect(false);
+    errors.push(await serverError);
+
+    expect(errors[0]).toBeInstanceOf(ProtocolError);
+    expect(errors[0]).toMatchObject({ code: 'PROTOCOL_ERROR', deviceIp: '127.0.0.1', frame: 'not json' });
+    expect(errors[0].cause).toBeInstanceOf(SyntaxError);
+    expect(errors[1]).toBeInstanceOf(ServerError);
+    expect(errors[1]).toBeInstanceOf(ProtocolError);
+    expect(errors[1]).toMatchObject({
+      code: 'SERVER_ERROR',
+      errorMessage: 'json error',
+      deviceIp: '127.0.0.1',
+      frame: { type: 'ERROR', errorMessage: 'json error' }
+    });
+  } finally {
+    instance.disconnect();
+    server.close();
+  }
+});
+
+test('Works with an asynchronous crypto provider', async () => {
+  const simulator = new RemootioSimulator({ apiSecretKey: testApiSecretKey, apiAuthKey: testApiAuthKey });
+  const webcrypto = ((crypto as unknown) as { webcrypto: Crypto }).webcrypto;
+  const device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port: await simulator.start(),
+    cryptoProvider: new WebCryptoProvider(webcrypto)
+  });
+  try {
+    await device.connectAndAuthenticate();
+    //The actions sent at the same time arrive in order
+    const responses = await Promise.all([device.sendQuery(), device.sendTrigger(), device.sendQuery()]);
+
+    expect(responses.map((response) => response.response.type)).toEqual(['QUERY', 'TRIGGER', 'QUERY']);
+  } finally {
+    device.disconnect();
+    await simulator.stop();
+  }
+});
@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { KeyChange, KeyHolder, KeyRegistry } from '../keyregistry';
+import { EventOfType } from '../frames';
+import { JsonKeyRegistryStore } from '../jsonkeyregistrystore';
+import RemootioDevice = require('../index');
+import { RemootioSimulator } from '../simulator';
+import { testApiAuthKey, testApiSecretKey } from '../testhelpers';
+
+const keyManagement = (
+  keyNr: number,
+  permissions: { bluetooth: boolean; wifi: boolean; internet: boolean; notification: boolean },
+  isRemoved = false
+): EventOfType<'KeyManagement'> => ({
+  cnt: 1,
+  type: 'KeyManagement',
+  state: 'closed',
+  t100ms: 10,
+  data: { keyNr, keyType: 'guest key', ...permissions, isRemoved }
+});
+
+const allowed = { bluetooth: true, wifi: true, internet: false, notification: false };
+
+describe('KeyRegistry', () => {
+  test('resolves the key holders and follows the KeyManagement events', () => {
+    const registry = new KeyRegistry([{ keyNr: 3, name: 'John Smith', metadata: { flat: 12 } }]);
+    expect(registry.resolve(3, 'guest key')).toEqual({
+      keyNr: 3,
+      keyType: 'guest key',
+      name: 'John Smith',
+      metadata: { flat: 12 }
+    });
+    expect(registry.resolve(4, 'guest key')).toEqual({ keyNr: 4, keyType: 'guest key' });
+
+    const time = new Date(2024, 0, 6, 12, 0);
+    expect(registry.applyKeyManagement(keyManagement(3, allowed), time)).toEqual({
+      change: 'added',
+      keyNr: 3,
+      keyType: 'guest key',
+      name: 'John Smith',
+      metadata: { flat: 12 },
+      permissionChanges: [
+        { permission: 'bluetooth', to: true },
+        { permission: 'wifi', to: true },
+        { permission: 'internet', to: false },
+        { permission: 'notification', to: false }
+      ],
+      time
+    });
+    //The same permissions again
+    expect(registry.applyKeyManagement(keyManagement(3, allowed))).toBeUndefined();
+    expect(registry.applyKeyManagement(keyManagement(3, { ...allowed, internet: true }))).toMatchObject({
+      change: 'modified',
+      permissionChanges: [{ permission: 'internet', from: false, to: true }]
+    });
+    expect(registry.getKey(3)).toEqual({
+      keyNr: 3,
+      keyType: 'guest key',
+      name: 'John Smith',
+      metadata: { flat: 12 },
+      permissions: { ...allowed, internet: true }
+    });
+
+    expect(registry.applyKeyManagement(keyManagement(3, allowed, true))).toMatchObject({
+      change: 'removed',
+      name: 'John Smith',
+      permissionChanges: [
+        { permission: 'bluetooth', from: true },
+        { permission: 'wifi', from: true },
+        { permission: 'internet', from: true },
+        { permission: 'notification', from: false }
+      ]
+    });
+    expect(registry.getKeys()).toEqual([]);
+  });
+
+  test('is persisted to a JSON file', async () => {
+    const keysPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'keys-')), 'keys.json');
+    const registry = new KeyRegistry([], { store: new JsonKeyRegistryStore(keysPath) });
+    await registry.load();
+    registry.setKey(5, { name: 'Cleaner' });
+    registry.applyKeyManagement(keyManagement(5, allowed));
+    registry.applyKeyManagement(keyManagement(6, allowed));
+    await registry.flush();
+
+    //The names supplied to the constructor are kept, the permissions and the other keys are loaded
+    const reloaded = new KeyRegistry([{ keyNr: 6, name: 'Gardener' }], { store: new JsonKeyRegistryStore(keysPath) });
+    await reloaded.load();
+    expect(reloaded.getKeys()).toEqual([
+      { keyNr: 5, keyType: 'guest key', name: 'Cleaner', permissions: allowed },
+      { keyNr: 6, keyType: 'guest key', name: 'Gardener', permissions: allowed }
+    ]);
+    expect(fs.existsSync(keysPath + '.tmp')).toEqual(false);
+  });
+
+  test('enriches the events of a device and emits the key changes', async () => {
+    const simulator = new RemootioSimulator({
+      apiSecretKey: testApiSecretKey,
+      apiAuthKey: testApiAuthKey,
+      travelTimeMs: 50
+    });
+    const device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+      port: await simulator.start(),
+      actionTimeoutMs: 1000,
+      keyRegistry: new KeyRegistry([{ keyNr: 4, name: 'John Smith' }])
+    });
+    const holders: (KeyHolder | undefined)[] = [];
+    const changes: KeyChange[] = [];
+    device.on('relaytrigger', (_event, _timestamp, keyHolder) => holders.push(keyHolder));
+    device.on('keyconnected', (_event, _timestamp, keyHolder) => holders.push(keyHolder));
+    device.on('keychange', (change) => changes.push(change));
+    try {
+      await device.connectAndAuthenticate();
+      simulator.sendEvent('Connected', { keyNr: 4, keyType: 'guest key', via: 'bluetooth' });
+      simulator.triggerByKey(4, 'guest key', 'bluetooth');
+      simulator.sendEvent('KeyManagement', keyManagement(4, allowed).data);
+      await device.sendQuery();
+
+      expect(holders).toEqual([
+        { keyNr: 4, keyType: 'guest key', name: 'John Smith' },
+        { keyNr: 4, keyType: 'guest key', name: 'John Smith' }
+      ]);
+      expect(changes).toMatchObject([{ change: 'added', keyNr: 4, name: 'John Smith', time: expect.any(Date) }]);
+    } finally {
+      device.disconnect();
+      await simulator.stop();
+    }
+  });
+});
@@ -0,0 +1,133 @@
+import RemootioDevice = require('../index');
+import { RemootioSimulator } from '../simulator';
+import {
+  fromPinoStyleLogger,
+  fromWinstonStyleLogger,
+  LogContext,
+  Logger,
+  LogLevel,
+  redactLogContext,
+  withLogContext
+} from '../logger';
+import { testApiAuthKey, testApiSecretKey } from '../testhelpers';
+
+interface LogEntry {
+  level: LogLevel;
+  message: string;
+  context?: LogContext;
+}
+
+const createMemoryLogger = (entries: LogEntry[]): Logger => ({
+  debug: (message, context) => entries.push({ level: 'debug', message, context }),
+  info: (message, context) => entries.push({ level: 'info', message, context }),
+  warn: (message, context) => entries.push({ level: 'warn', message, context }),
+  error: (message, context) => entries.push({ level: 'error', message, context })
+});
+
+test('The secret bearing fields are redacted at any depth', () => {
+  const error = new Error('broken');
+  const context = {
+    deviceIp: '192.168.1.155',
+    frame: { type: 'ENCRYPTED', data: { iv: 'aXY=', payload: 'cGF5bG9hZA==' }, MAC: 'bWFj' },
+    challenges: [{ sessionKey: 'a2V5', initialActionId: 5 }],
+    error
+  };
+
+  expect(redactLogContext(context)).toEqual({
+    deviceIp: '192.168.1.155',
+    frame: { type: 'ENCRYPTED', data: { iv: '[REDACTED]', payload: '[REDACTED]' }, MAC: '[REDACTED]' },
+    challenges: [{ sessionKey: '[REDACTED]', initialActionId: 5 }],
+    error
+  });
+  expect(redactLogContext(context, ['deviceIp']).deviceIp).toEqual('[REDACTED]');
+  expect(context.frame.data.payload).toEqual('cGF5bG9hZA=='); //the context itself is not modified
+});
+
+test('pino and winston style loggers can be adapted', () => {
+  const pinoCalls: unknown[][] = [];
+  const winstonCalls: unknown[][] = [];
+  const record = (calls: unknown[][]) => (...args: unknown[]) => calls.push(args);
+  const pino = fromPinoStyleLogger({
+    debug: record(pinoCalls),
+    info: record(pinoCalls),
+    warn: record(pinoCalls),
+    error: record(pinoCalls)
+  });
+  const winston = fromWinstonStyleLogger({
+    debug: record(winstonCalls),
+    info: record(winstonCalls),
+    warn: record(winstonCalls),
+    error: record(winstonCalls)
+  });
+
+  withLogContext(pino, { deviceIp: '192.168.1.155' }).warn('Frame sent', { actionId: 5 });
+  pino.info('Connected');
+  withLogContext(winston, { deviceIp: '192.168.1.155' }).warn('Frame sent', { actionId: 5 });
+  winston.info('Connected');
+
+  expect(pinoCalls).toEqual([
+    [{ deviceIp: '192.168.1.155', actionId: 5 }, 'Frame sent'],
+    [{}, 'Connected']
+  ]);
+  expect(winstonCalls).toEqual([['Frame sent', { deviceIp: '192.168.1.155', actionId: 5 }], ['Connected']]);
+});
+
+test('RemootioDevice logs through the logger with the device IP and redacts the secrets by default', async () => {
+  const consoleSpies = [jest.spyOn(console, 'warn'), jest.spyOn(console, 'error')];
+  const simulator = new RemootioSimulator({ apiSecretKey: testApiSecretKey, apiAuthKey: testApiAuthKey });
+  const port = await simulator.start();
+  const entries: LogEntry[] = [];
+  const rawEntries: LogEntry[] = [];
+  const device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port,
+    actionTimeoutMs: 500,
+    logger: createMemoryLogger(entries)
+  });
+  const rawDevice = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port,
+    actionTimeoutMs: 500,
+    logger: createMemoryLogger(rawEntries),
+    redactLogs: false
+  });
+  try {
+    new RemootioDevice('127.0.0.1', 'not a key', testApiAuthKey, undefined, { logger: createMemoryLogger(entries) });
+    expect(entries).toEqual([
+      {
+        level: 'error',
+        message: 'ApiSecretKey must be a hexstring representing a 256bit long byteArray',
+        context: { deviceIp: '127.0.0.1' }
+      }
+    ]);
+
+    device.on('error', () => undefined);
+    rawDevice.on('error', () => undefined);
+    await device.connectAndAuthenticate();
+    await rawDevice.connectAndAuthenticate();
+    await device.sendQuery();
+    expect(entries).toContainEqual({
+      level: 'debug',
+      message: 'Frame sent',
+      context: { deviceIp: '127.0.0.1', frameType: 'ENCRYPTED', actionType: 'QUERY', actionId: expect.any(Number) }
+    });
+
+    simulator.setFaults({ badMac: true });
+    await expect(device.sendQuery()).rejects.toThrow();
+    await expect(rawDevice.sendQuery()).rejects.toThrow();
+    const macMismatch = 'Decryption error: the MAC of the frame does not match the calculated MAC';
+    expect(entries.find((entry) => entry.message == macMismatch)?.context).toEqual({
+      deviceIp: '127.0.0.1',
+      frameType: 'ENCRYPTED',
+      mac: '[REDACTED]'
+    });
+    expect(rawEntries.find((entry) => entry.message == macMismatch)?.context?.mac).toEqual(expect.any(String));
+    expect(rawEntries.find((entry) => entry.message == macMismatch)?.context?.mac).not.toEqual('[REDACTED]');
+    for (const consoleSpy of consoleSpies) {
+      expect(consoleSpy).not.toHaveBeenCalled();
+    }
+  } finally {
+    consoleSpies.forEach((consoleSpy) => consoleSpy.mockRestore());
+    device.disconnect();
+    rawDevice.disconnect();
+    await simulator.stop();
+  }
+});
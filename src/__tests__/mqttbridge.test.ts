@@ -0,0 +1,115 @@
+import * as net from 'net';
+import * as mqtt from 'mqtt';
+import { Server as createBroker } from 'aedes';
+import RemootioDevice = require('../index');
+import { RemootioMqttBridge } from '../mqttbridge';
+import { RemootioSimulator } from '../simulator';
+import { testApiAuthKey, testApiSecretKey, waitFor } from '../testhelpers';
+
+const connectClient = (port: number) =>
+  new Promise<mqtt.MqttClient>((resolve) => {
+    const client = mqtt.connect('mqtt://127.0.0.1:' + port);
+    client.on('connect', () => resolve(client));
+  });
+
+test('The bridge publishes the state, events and discovery configs of a device and runs the commands', async () => {
+  const broker = createBroker();
+  const server = net.createServer(broker.handle);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const brokerPort = (server.address() as net.AddressInfo).port;
+  const simulator = new RemootioSimulator({
+    apiSecretKey: testApiSecretKey,
+    apiAuthKey: testApiAuthKey,
+    travelTimeMs: 50
+  });
+  const device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port: await simulator.start(),
+    actionTimeoutMs: 1000
+  });
+  const bridgeClient = await connectClient(brokerPort);
+  const observer = await connectClient(brokerPort);
+  const messages = new Map<string, string>();
+  observer.on('message', (topic, payload) => messages.set(topic, payload.toString()));
+  await new Promise((resolve) => observer.subscribe('#', resolve));
+  const bridge = new RemootioMqttBridge(bridgeClient);
+  try {
+    bridge.addDevice('garage', device, 'Garage door');
+    expect(() => bridge.addDevice('garage/1', device)).toThrow('Invalid device id');
+    await device.connectAndAuthenticate();
+    await waitFor(() => messages.get('remootio/garage/availability') == 'online');
+    expect(messages.get('remootio/garage/connection')).toEqual('authenticated');
+    await waitFor(() => messages.get('remootio/garage/state') == 'closed');
+
+    const cover = JSON.parse(messages.get('homeassistant/cover/remootio_garage/door/config') as string);
+    expect(cover).toMatchObject({
+      name: 'Garage door',
+      unique_id: 'remootio_garage_door',
+      device_class: 'garage',
+      command_topic: 'remootio/garage/command',
+      state_topic: 'remootio/garage/state',
+      availability_topic: 'remootio/garage/availability',
+      device: { identifiers: ['remootio_garage'], manufacturer: 'Remootio' }
+    });
+    expect(messages.has('homeassistant/binary_sensor/remootio_garage/doorbell/config')).toBe(true);
+    expect(messages.has('homeassistant/sensor/remootio_garage/last_key/config')).toBe(true);
+
+    observer.publish('remootio/garage/command', 'open');
+    await waitFor(() => messages.get('remootio/garage/state') == 'open');
+    expect(JSON.parse(messages.get('remootio/garage/command/result') as string)).toEqual({
+      command: 'open',
+      success: true
+    });
+    expect(JSON.parse(messages.get('remootio/garage/event/relaytrigger') as string)).toMatchObject({
+      type: 'RelayTrigger',
+      keyType: 'api key',
+      via: expect.any(String),
+      keyNr: expect.any(Number)
+    });
+    expect(JSON.parse(messages.get('remootio/garage/event/statechange') as string)).toMatchObject({ state: 'open' });
+
+    simulator.pushDoorbell();
+    await waitFor(() => messages.get('remootio/garage/doorbell') == 'ON');
+
+    messages.delete('remootio/garage/command/result');
+    observer.publish('remootio/garage/command', JSON.stringify({ command: 'hold', output: 'constructor', minutes: 5 }));
+    await waitFor(() => messages.has('remootio/garage/command/result'));
+    expect(JSON.parse(messages.get('remootio/garage/command/result') as string)).toEqual({
+      command: JSON.stringify({ command: 'hold', output: 'constructor', minutes: 5 }),
+      success: false,
+      code: 'INVALID_COMMAND'
+    });
+
+    //The state is retained for the clients connecting later
+    const lateClient = await connectClient(brokerPort);
+    const retained = new Promise<string>((resolve) =>
+      lateClient.on('message', (_topic, payload) => resolve(payload.toString()))
+    );
+    lateClient.subscribe('remootio/garage/state');
+    expect(await retained).toEqual('open');
+    lateClient.end(true);
+
+    //The errorCode of the device response is published along with the code of the error
+    simulator.setDoorState('no sensor');
+    messages.delete('remootio/garage/command/result');
+    observer.publish('remootio/garage/command', 'close');
+    await waitFor(() => messages.has('remootio/garage/command/result'));
+    expect(JSON.parse(messages.get('remootio/garage/command/result') as string)).toEqual({
+      command: 'close',
+      success: false,
+      errorCode: 'no sensor',
+      code: 'ACTION_FAILED'
+    });
+
+    bridge.removeDevice('garage');
+    await waitFor(() => messages.get('remootio/garage/availability') == 'offline');
+    expect(device.listenerCount('gatestatechange')).toEqual(0);
+  } finally {
+    bridge.close();
+    device.disconnect();
+    await simulator.stop();
+    bridgeClient.end(true);
+    observer.end(true);
+    await new Promise((resolve) => broker.close(resolve));
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
@@ -0,0 +1,36 @@
+import { ExponentialBackoffReconnectPolicy } from '../reconnectpolicy';
+
+test('Delays grow exponentially up to the maximum delay', () => {
+  const policy = new ExponentialBackoffReconnectPolicy({
+    initialDelayMs: 100,
+    multiplier: 3,
+    maxDelayMs: 1000,
+    jitter: 0
+  });
+
+  expect(policy.nextDelay(1)).toEqual(100);
+  expect(policy.nextDelay(2)).toEqual(300);
+  expect(policy.nextDelay(3)).toEqual(900);
+  expect(policy.nextDelay(4)).toEqual(1000);
+});
+
+test('Delays are randomized by the jitter', () => {
+  const policy = new ExponentialBackoffReconnectPolicy({ initialDelayMs: 1000, jitter: 0.5 });
+
+  for (let i = 0; i < 20; i++) {
+    const delay = policy.nextDelay(1);
+    expect(delay).toBeGreaterThanOrEqual(500);
+    expect(delay).toBeLessThanOrEqual(1500);
+  }
+});
+
+test('Gives up after the maximum number of attempts', () => {
+  const onGiveUp = jest.fn();
+  const policy = new ExponentialBackoffReconnectPolicy({ maxAttempts: 2, onGiveUp });
+
+  expect(policy.nextDelay(2)).not.toBeUndefined();
+  expect(policy.nextDelay(3)).toBeUndefined();
+
+  policy.onGiveUp(2);
+  expect(onGiveUp).toHaveBeenCalledWith(2);
+});
@@ -0,0 +1,122 @@
+import RemootioDevice = require('../index');
+import { RemootioSimulator } from '../simulator';
+import { ActionFailedError, DecryptionError } from '../errors';
+import { ReceivedEncryptedFrameContent, ReceivedFrames } from '../frames';
+import { testApiAuthKey, testApiSecretKey } from '../testhelpers';
+
+let simulator: RemootioSimulator;
+let device: RemootioDevice;
+
+const createDevice = (port: number) =>
+  new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, { port, actionTimeoutMs: 1000 });
+
+const waitForEvent = (type: string) =>
+  new Promise<ReceivedEncryptedFrameContent>((resolve) => {
+    const listener = (_frame: ReceivedFrames, payload?: ReceivedEncryptedFrameContent) => {
+      if (payload != undefined && 'event' in payload && payload.event.type == type) {
+        device.removeListener('incomingmessage', listener);
+        resolve(payload);
+      }
+    };
+    device.on('incomingmessage', listener);
+  });
+
+afterEach(async () => {
+  device.disconnect();
+  await simulator.stop();
+});
+
+test('Simulator answers HELLO with the configured SERVER_HELLO frame', async () => {
+  simulator = new RemootioSimulator({
+    apiSecretKey: testApiSecretKey,
+    apiAuthKey: testApiAuthKey,
+    apiVersion: 2,
+    remootioVersion: 'remootio-1',
+    serialNumber: 'TEST1234'
+  });
+  device = createDevice(await simulator.start());
+  const serverHello = new Promise<ReceivedFrames>((resolve) => device.on('incomingmessage', resolve));
+  device.on('connected', () => device.sendHello());
+  device.connect(false);
+
+  expect(await serverHello).toEqual({
+    type: 'SERVER_HELLO',
+    apiVersion: 2,
+    message: 'Remootio simulator',
+    serialNumber: 'TEST1234',
+    remootioVersion: 'remootio-1'
+  });
+});
+
+test('Simulated door travels after a TRIGGER action and sends events', async () => {
+  simulator = new RemootioSimulator({
+    apiSecretKey: testApiSecretKey,
+    apiAuthKey: testApiAuthKey,
+    travelTimeMs: 200,
+    leftOpenAfterMs: 100,
+    apiKeyNr: 7
+  });
+  device = createDevice(await simulator.start());
+  await device.connectAndAuthenticate();
+
+  const query = await device.sendQuery();
+  expect(query.response.state).toEqual('closed');
+
+  const relayTrigger = waitForEvent('RelayTrigger');
+  const stateChange = waitForEvent('StateChange');
+  const leftOpen = waitForEvent('LeftOpen');
+  const trigger = await device.sendTrigger();
+  expect(trigger.response.relayTriggered).toBe(true);
+  expect(trigger.response.state).toEqual('closed');
+
+  expect(await relayTrigger).toMatchObject({
+    event: { cnt: 0, data: { keyNr: 7, keyType: 'api key', via: 'wifi' } }
+  });
+  expect(await stateChange).toMatchObject({ event: { cnt: 1, state: 'open' } });
+  expect(await leftOpen).toMatchObject({ event: { cnt: 2, state: 'open' } });
+  expect(simulator.doorState).toEqual('open');
+
+  //The door is already open
+  const open = await device.sendOpen();
+  expect(open.response.relayTriggered).toBe(false);
+});
+
+test('Actions that need a sensor fail without one', async () => {
+  simulator = new RemootioSimulator({
+    apiSecretKey: testApiSecretKey,
+    apiAuthKey: testApiAuthKey,
+    initialState: 'no sensor'
+  });
+  device = createDevice(await simulator.start());
+  await device.connectAndAuthenticate();
+
+  await expect(device.sendClose()).rejects.toBeInstanceOf(ActionFailedError);
+});
+
+test('Simulator injects faults', async () => {
+  simulator = new RemootioSimulator({ apiSecretKey: testApiSecretKey, apiAuthKey: testApiAuthKey });
+  device = createDevice(await simulator.start());
+  await device.connectAndAuthenticate();
+
+  const errors: unknown[] = [];
+  device.on('error', (error) => errors.push(error));
+  const errorFrame = new Promise<ReceivedFrames>((resolve) => device.on('incomingmessage', resolve));
+  simulator.sendError('internal error');
+  expect(await errorFrame).toEqual({ type: 'ERROR', errorMessage: 'internal error' });
+
+  simulator.setFaults({ badMac: true });
+  const query = device.sendQuery();
+  await expect(query).rejects.toThrow();
+  expect(errors).toContainEqual(expect.any(DecryptionError));
+  expect(errors[0]).toMatchObject({
+    code: 'DECRYPTION_FAILED',
+    message: 'Authentication or encryption error',
+    deviceIp: '127.0.0.1',
+    frame: { type: 'ENCRYPTED' }
+  });
+
+  const disconnected = new Promise((resolve) => device.on('disconnect', resolve));
+  simulator.dropConnections();
+  await disconnected;
+  expect(device.connectionState).toEqual('disconnected');
+});
@@ -0,0 +1,80 @@
+import crypto = require('crypto');
+import WebSocket = require('ws');
+import RemootioDevice = require('../index');
+import { RemootioSimulator } from '../simulator';
+import { PingTimeoutError } from '../errors';
+import { createBrowserTransport } from '../transport';
+import { WebCryptoProvider } from '../webcryptoprovider';
+import { testApiAuthKey, testApiSecretKey } from '../testhelpers';
+
+//The ws module implements the browser WebSocket API too, it plays the global WebSocket of the browser here
+const globalScope = (global as unknown) as { WebSocket?: unknown };
+const webcrypto = ((crypto as unknown) as { webcrypto: Crypto }).webcrypto;
+
+let simulator: RemootioSimulator;
+let device: RemootioDevice;
+
+beforeEach(() => {
+  globalScope.WebSocket = WebSocket;
+});
+
+afterEach(async () => {
+  device.disconnect();
+  await simulator.stop();
+  delete globalScope.WebSocket;
+});
+
+const createBrowserDevice = (port: number, sendPingMessageEveryXMs?: number) =>
+  new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, sendPingMessageEveryXMs, {
+    port,
+    transportFactory: createBrowserTransport,
+    cryptoProvider: new WebCryptoProvider(webcrypto)
+  });
+
+test('Works with the global WebSocket and WebCrypto', async () => {
+  simulator = new RemootioSimulator({ apiSecretKey: testApiSecretKey, apiAuthKey: testApiAuthKey });
+  device = createBrowserDevice(await simulator.start());
+
+  await device.connectAndAuthenticate();
+  expect(device.isConnected).toBe(true);
+  expect((await device.sendQuery()).response.type).toEqual('QUERY');
+
+  const disconnected = new Promise((resolve) => device.on('disconnect', resolve));
+  device.disconnect();
+  await disconnected;
+  expect(device.isConnected).toBe(false);
+  expect(device.connectionState).toEqual('closed');
+});
+
+test('The connection is closed right away if there is no reply to a PING frame', async () => {
+  simulator = new RemootioSimulator({ apiSecretKey: testApiSecretKey, apiAuthKey: testApiAuthKey });
+  device = createBrowserDevice(await simulator.start(), 200);
+  const errors: unknown[] = [];
+  device.on('error', (error) => errors.push(error));
+  device.connect(false);
+  await new Promise((resolve) => device.on('connected', resolve));
+
+  simulator.setFaults({ dropPongs: true });
+  const disconnectedAt = await new Promise<number>((resolve) => device.on('disconnect', () => resolve(Date.now())));
+  expect(errors).toEqual([expect.any(PingTimeoutError)]);
+  expect(errors[0]).toMatchObject({
+    code: 'PING_TIMEOUT',
+    message: 'No response for PING message in 100 ms. Connection is broken.',
+    deviceIp: '127.0.0.1'
+  });
+  expect(device.connectionState).toEqual('disconnected');
+
+  //The close event of the terminated connection arriving later doesn't emit a second disconnect
+  const disconnects: number[] = [disconnectedAt];
+  device.on('disconnect', () => disconnects.push(Date.now()));
+  await new Promise((resolve) => setTimeout(resolve, 300));
+  expect(disconnects).toHaveLength(1);
+});
+
+test('createBrowserTransport throws if there is no global WebSocket', () => {
+  simulator = new RemootioSimulator({ apiSecretKey: testApiSecretKey, apiAuthKey: testApiAuthKey });
+  device = createBrowserDevice(0);
+  delete globalScope.WebSocket;
+  expect(() => device.connect(false)).toThrow('WebSocket is not available');
+  expect(device.connectionState).toEqual('disconnected');
+});
@@ -0,0 +1,116 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import RemootioDevice = require('../index');
+import { RemootioSimulator } from '../simulator';
+import { RemootioWebhookNotifier, WebhookDelivery } from '../webhooknotifier';
+import { ExponentialBackoffReconnectPolicy } from '../reconnectpolicy';
+import { testApiAuthKey, testApiSecretKey, waitFor } from '../testhelpers';
+
+test('The selected events are POSTed, signed and retried', async () => {
+  //The receiver fails the first request of every path with 503, and responds 401 to /unauthorized
+  const requests: { path: string; body: string; signature?: string }[] = [];
+  const receiver = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const signature = req.headers['x-remootio-signature'] as string | undefined;
+      const isFirst = !requests.some((request) => request.path == req.url);
+      requests.push({ path: req.url as string, body, signature });
+      res.statusCode = req.url == '/unauthorized' ? 401 : isFirst ? 503 : 200;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+  const url = 'http://127.0.0.1:' + (receiver.address() as AddressInfo).port;
+  const simulator = new RemootioSimulator({ apiSecretKey: testApiSecretKey, apiAuthKey: testApiAuthKey });
+  const device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port: await simulator.start()
+  });
+  const notifier = new RemootioWebhookNotifier(
+    [
+      { url: url + '/doorbell', events: ['DoorbellPushed', 'LeftOpen'], secret: 'webhook-secret' },
+      {
+        url: url + '/guest',
+        events: ['RelayTrigger'],
+        filter: { keyType: 'guest key' },
+        template: { text: 'Gate {{deviceId}} opened by guest key {{event.data.keyNr}}', keyNr: '{{event.data.keyNr}}' }
+      },
+      { url: url + '/unauthorized', events: ['DoorbellPushed'] }
+    ],
+    { retryPolicy: new ExponentialBackoffReconnectPolicy({ initialDelayMs: 10, jitter: 0, maxAttempts: 3 }) }
+  );
+  const delivered: WebhookDelivery[] = [];
+  const failed: WebhookDelivery[] = [];
+  notifier.on('delivered', (delivery) => delivered.push(delivery));
+  notifier.on('failed', (delivery) => failed.push(delivery));
+  try {
+    notifier.addDevice('gate', device);
+    await device.connectAndAuthenticate();
+
+    simulator.pushDoorbell();
+    simulator.triggerByKey(3, 'unique key', 'bluetooth'); //filtered out
+    simulator.triggerByKey(7, 'guest key', 'internet');
+    await waitFor(() => delivered.length == 2 && failed.length == 1);
+
+    const doorbell = requests.filter((request) => request.path == '/doorbell');
+    expect(doorbell.length).toEqual(2); //the first attempt got 503
+    expect(doorbell[1].body).toEqual(doorbell[0].body);
+    expect(JSON.parse(doorbell[1].body)).toMatchObject({
+      deviceId: 'gate',
+      event: { type: 'DoorbellPushed' },
+      timestamp: expect.any(String)
+    });
+    expect(
+      RemootioWebhookNotifier.verifySignature(doorbell[1].body, doorbell[1].signature as string, 'webhook-secret')
+    ).toBe(true);
+    expect(RemootioWebhookNotifier.verifySignature(doorbell[1].body, doorbell[1].signature as string, 'other')).toBe(
+      false
+    );
+
+    const guest = requests.filter((request) => request.path == '/guest');
+    expect(guest.length).toEqual(2);
+    expect(guest[0].signature).toBeUndefined();
+    expect(JSON.parse(guest[1].body)).toEqual({ text: 'Gate gate opened by guest key 7', keyNr: 7 });
+
+    //401 is not retried
+    expect(requests.filter((request) => request.path == '/unauthorized').length).toEqual(1);
+    expect(failed[0]).toMatchObject({ deviceId: 'gate', attempts: 1 });
+    expect(delivered.map((delivery) => delivery.attempts)).toEqual([2, 2]);
+
+    notifier.removeDevice('gate');
+    expect(device.listenerCount('incomingmessage')).toEqual(0);
+  } finally {
+    notifier.close();
+    device.disconnect();
+    await simulator.stop();
+    await new Promise((resolve) => receiver.close(resolve));
+  }
+});
+
+test('A webhook is given up after the retries of the retry policy', async () => {
+  const notifier = new RemootioWebhookNotifier([{ url: 'http://127.0.0.1:1/unreachable', events: ['Restart'] }], {
+    retryPolicy: new ExponentialBackoffReconnectPolicy({ initialDelayMs: 10, jitter: 0, maxAttempts: 2 })
+  });
+  const simulator = new RemootioSimulator({ apiSecretKey: testApiSecretKey, apiAuthKey: testApiAuthKey });
+  const device = new RemootioDevice('127.0.0.1', testApiSecretKey, testApiAuthKey, undefined, {
+    port: await simulator.start()
+  });
+  try {
+    notifier.addDevice('gate', device);
+    await device.connectAndAuthenticate();
+    const failed = new Promise<[WebhookDelivery, Error]>((resolve) =>
+      notifier.on('failed', (delivery, error) => resolve([delivery, error]))
+    );
+    simulator.sendEvent('Restart');
+    const [delivery, error] = await failed;
+    expect(delivery.attempts).toEqual(3);
+    expect(error.message).toContain('ECONNREFUSED');
+  } finally {
+    notifier.close();
+    device.disconnect();
+    await simulator.stop();
+  }
+  expect(() => new RemootioWebhookNotifier([{ url: 'ftp://example.com', events: ['Restart'] }])).toThrow(
+    'only http and https are supported'
+  );
+});
@@ -0,0 +1,202 @@
+/**
+ * This module contains the action policies used by the RemootioDevice class to check every action before it is sent (see the actionPolicy option).
+ * An action refused by the policy is not sent: the promise of the action is rejected with a PolicyViolationError and the policyviolation event is emitted.
+ * The SafetyPolicy below covers the usual safety rules: allowed time windows, a maximum duration for the hold actions, rate limits per action type,
+ * a confirmation token for RESTART, and refusing a TRIGGER if the gate is already in the desired state.
+ * You can use your own policy by implementing the ActionPolicy interface.
+ */
+
+import { ActionTypes, SensorStates } from './frames';
+
+export type PolicyRule =
+  | 'TIME_WINDOW'
+  | 'MAX_HOLD_DURATION'
+  | 'RATE_LIMIT'
+  | 'CONFIRMATION_REQUIRED'
+  | 'ALREADY_IN_STATE'
+  | 'CUSTOM'; //for the rules of custom policies
+
+/**
+ * The options of a single action checked by the policy, passed to the action methods of the RemootioDevice class
+ */
+export interface ActionPolicyOptions {
+  confirmationToken?: string; //the confirmation token required by the policy (e.g. for RESTART)
+  desiredState?: 'open' | 'closed'; //the state the gate should be in after the action, a TRIGGER is refused if the gate is already in this state
+}
+
+export interface ActionRequest {
+  type: ActionTypes;
+  durationMins?: number; //only for the hold*OutputActive methods
+  options?: ActionPolicyOptions;
+}
+
+export interface ActionPolicyContext {
+  now: Date;
+  gateState?: SensorStates; //the last state of the gate status sensor reported by the device (undefined if nothing was received yet)
+}
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  message: string;
+}
+
+export interface ActionPolicy {
+  /**
+   * Checks an action before it is sent, returns the violation if the action must not be sent, or undefined if it's allowed
+   * @param {Object} request - the action to send
+   * @param {Object} context - the current time and the last known state of the gate
+   */
+  check(request: ActionRequest, context: ActionPolicyContext): PolicyViolation | undefined;
+  /**
+   * Records an action allowed by check() that was sent or queued (optional, e.g. for rate limits). The actions rejected afterwards
+   * (throttled, coalesced, not connected or not authenticated) are not recorded
+   * @param {Object} request - the action that was sent
+   * @param {Object} context - the current time and the last known state of the gate
+   */
+  record?(request: ActionRequest, context: ActionPolicyContext): void;
+}
+
+/**
+ * A time window in local time e.g. { from: '07:00', to: '22:00' }. If from is later than to the window spans midnight
+ */
+export interface TimeWindow {
+  from: string; //HH:MM
+  to: string; //HH:MM
+  days?: number[]; //the days of the week the window applies to (0 is Sunday), every day by default
+  actions?: ActionTypes[]; //the actions the window applies to, all actions (except QUERY) by default
+}
+
+export interface RateLimit {
+  maxActions: number;
+  perMs: number;
+}
+
+export interface SafetyPolicyOptions {
+  allowedTimeWindows?: TimeWindow[];
+  maxHoldDurationMins?: number;
+  rateLimits?: { [T in ActionTypes]?: RateLimit };
+  restartConfirmationToken?: string;
+  refuseRedundantTrigger?: boolean;
+}
+
+function parseTime(time: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (match == null || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new Error('Invalid time in the time window: ' + time + ' (HH:MM expected, 00:00 to 23:59)');
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Throws an error if the from or to time of a time window is invalid
+ * @param {Object} window - the time window
+ */
+export function validateTimeWindow(window: TimeWindow): void {
+  parseTime(window.from);
+  parseTime(window.to);
+}
+
+/**
+ * Checks if a time is in a time window (the actions of the window are not checked)
+ * @param {Object} window - the time window
+ * @param {Date} now - the time
+ */
+export function isInTimeWindow(window: TimeWindow, now: Date): boolean {
+  if (window.days != undefined && window.days.indexOf(now.getDay()) == -1) {
+    return false;
+  }
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const from = parseTime(window.from);
+  const to = parseTime(window.to);
+  return from <= to ? from <= minutes && minutes < to : from <= minutes || minutes < to;
+}
+
+/**
+ * The action policy covering the usual safety rules. Every rule is disabled unless its option is set. QUERY actions are always allowed.
+ * @param {Object} [options]
+ * @param {Object[]} [options.allowedTimeWindows] - the actions are only allowed in these time windows (see TimeWindow), the windows that don't apply to an action are ignored
+ * @param {number} [options.maxHoldDurationMins] - the maximum duration of the hold*OutputActive methods in minutes
+ * @param {Object} [options.rateLimits] - the maximum number of actions of a type allowed in a time period e.g. { TRIGGER: { maxActions: 3, perMs: 60000 } }
+ * @param {string} [options.restartConfirmationToken] - RESTART actions are only allowed with this confirmationToken
+ * @param {boolean} [options.refuseRedundantTrigger=false] - refuse a TRIGGER action with a desiredState if the gate is already in that state
+ */
+export class SafetyPolicy implements ActionPolicy {
+  private options: SafetyPolicyOptions;
+  private sentAt: { [T in ActionTypes]?: number[] };
+
+  constructor(options?: SafetyPolicyOptions) {
+    this.options = options ?? {};
+    this.sentAt = {}; //the times the actions allowed by the policy were sent at (for the rate limits)
+    //Invalid time windows are reported right away instead of when the first action is sent
+    (this.options.allowedTimeWindows ?? []).forEach(validateTimeWindow);
+  }
+
+  check(request: ActionRequest, context: ActionPolicyContext): PolicyViolation | undefined {
+    if (request.type == 'QUERY') {
+      return undefined;
+    }
+    const windows = (this.options.allowedTimeWindows ?? []).filter(
+      (window) => window.actions == undefined || window.actions.indexOf(request.type) != -1
+    );
+    if (windows.length > 0 && !windows.some((window) => isInTimeWindow(window, context.now))) {
+      return { rule: 'TIME_WINDOW', message: request.type + ' actions are not allowed at this time' };
+    }
+    const maxHoldDurationMins = this.options.maxHoldDurationMins;
+    if (
+      maxHoldDurationMins != undefined &&
+      request.durationMins != undefined &&
+      request.durationMins > maxHoldDurationMins
+    ) {
+      return {
+        rule: 'MAX_HOLD_DURATION',
+        message: 'The output may be held active for ' + maxHoldDurationMins + ' minutes at most'
+      };
+    }
+    if (
+      request.type == 'RESTART' &&
+      this.options.restartConfirmationToken != undefined &&
+      request.options?.confirmationToken !== this.options.restartConfirmationToken
+    ) {
+      return { rule: 'CONFIRMATION_REQUIRED', message: 'RESTART actions require a valid confirmation token' };
+    }
+    const desiredState = request.options?.desiredState;
+    if (
+      this.options.refuseRedundantTrigger &&
+      request.type == 'TRIGGER' &&
+      desiredState != undefined &&
+      context.gateState == desiredState
+    ) {
+      return { rule: 'ALREADY_IN_STATE', message: 'The gate is already ' + desiredState };
+    }
+    const rateLimit = this.options.rateLimits?.[request.type];
+    if (rateLimit != undefined) {
+      const now = context.now.getTime();
+      const sentAt = (this.sentAt[request.type] ?? []).filter((time) => now - time < rateLimit.perMs);
+      if (sentAt.length >= rateLimit.maxActions) {
+        return {
+          rule: 'RATE_LIMIT',
+          message:
+            'At most ' +
+            rateLimit.maxActions +
+            ' ' +
+            request.type +
+            ' actions are allowed in ' +
+            rateLimit.perMs +
+            ' ms'
+        };
+      }
+    }
+    return undefined;
+  }
+
+  record(request: ActionRequest, context: ActionPolicyContext): void {
+    const rateLimit = this.options.rateLimits?.[request.type];
+    if (request.type == 'QUERY' || rateLimit == undefined) {
+      return;
+    }
+    const now = context.now.getTime();
+    const sentAt = (this.sentAt[request.type] ?? []).filter((time) => now - time < rateLimit.perMs);
+    sentAt.push(now);
+    this.sentAt[request.type] = sentAt;
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * This module holds the actions sent while the session is not authenticated (e.g. during a Wi-Fi blip) if the offlineQueue option
+ * of the RemootioDevice class is set. The queued actions are sent with fresh action ids once the session is authenticated again.
+ * Every queued action has a time to live, the actions still waiting when it runs out are dropped (their promise is rejected with an ActionExpiredError).
+ * Non-idempotent actions (TRIGGER and TRIGGER_SECONDARY by default) are not queued: toggling the gate minutes later than it was requested is dangerous.
+ */
+
+import { ActionPolicyOptions } from './actionpolicy';
+import { ThrottleActionOptions } from './actionthrottle';
+import { ActionTypes } from './frames';
+
+export interface OfflineQueueOptions {
+  ttlMs?: number; //how long an action may wait for the session to be authenticated, defaults to 30000
+  excludedActions?: ActionTypes[]; //the actions that are never queued, defaults to defaultExcludedActions
+}
+
+/**
+ * The options of a single action, passed to the action methods of the RemootioDevice class (see ActionPolicyOptions for the options checked by the action policy
+ * and ThrottleActionOptions for the options of the throttle)
+ */
+export interface ActionOptions extends ActionPolicyOptions, ThrottleActionOptions {
+  queue?: boolean; //queue the action if the session is not authenticated, defaults to true unless its type is excluded
+  ttlMs?: number; //the time to live of this action in the queue, defaults to the ttlMs of the queue
+}
+
+export const defaultExcludedActions: ActionTypes[] = ['TRIGGER', 'TRIGGER_SECONDARY'];
+
+export interface QueuedAction<T> {
+  type: ActionTypes;
+  ttlMs: number;
+  item: T;
+}
+
+export class ActionQueue<T> {
+  private ttlMs: number;
+  private excludedActions: ActionTypes[];
+  private entries: { action: QueuedAction<T>; timeoutHandle: ReturnType<typeof setTimeout> }[];
+
+  constructor(options?: OfflineQueueOptions) {
+    this.ttlMs = options?.ttlMs ?? 30000;
+    this.excludedActions = options?.excludedActions ?? defaultExcludedActions;
+    this.entries = []; //the queued actions in the order they were sent
+  }
+
+  /**
+   * Returns if an action of this type with these options may be queued
+   * @param {string} type - the type of the action
+   * @param {Object} [options] - the options of the action
+   */
+  accepts(type: ActionTypes, options?: ActionOptions): boolean {
+    return options?.queue ?? this.excludedActions.indexOf(type) == -1;
+  }
+
+  /**
+   * Queues an action, onExpire is called if it's still in the queue when its time to live runs out
+   * @param {string} type - the type of the action
+   * @param {Object} item - the data needed to send the action later
+   * @param {Function} onExpire - called with the expired action (it's already removed from the queue)
+   * @param {Object} [options] - the options of the action
+   */
+  add(
+    type: ActionTypes,
+    item: T,
+    onExpire: (action: QueuedAction<T>) => void,
+    options?: ActionOptions
+  ): QueuedAction<T> {
+    const action = { type, ttlMs: options?.ttlMs ?? this.ttlMs, item };
+    const timeoutHandle = setTimeout(() => {
+      this.entries = this.entries.filter((entry) => entry.action !== action);
+      onExpire(action);
+    }, action.ttlMs);
+    this.entries.push({ action, timeoutHandle });
+    return action;
+  }
+
+  /**
+   * Removes all actions from the queue and returns them in the order they were queued
+   */
+  takeAll(): QueuedAction<T>[] {
+    const entries = this.entries;
+    this.entries = [];
+    return entries.map((entry) => {
+      clearTimeout(entry.timeoutHandle);
+      return entry.action;
+    });
+  }
+
+  //The number of actions in the queue
+  get size(): number {
+    return this.entries.length;
+  }
+}
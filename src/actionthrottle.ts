@@ -0,0 +1,112 @@
+/**
+ * This module limits the rate of the outgoing actions per action type (see the actionThrottle option of the RemootioDevice class).
+ * An action repeated within coalesceWithinMs is not sent again, the caller gets the result of the first one (e.g. duplicate QUERYs).
+ * An action repeated within minIntervalMs is rejected with an ActionThrottledError (e.g. a double clicked TRIGGER that would reverse the door).
+ * Every action that is sent (or queued) counts, even if it fails later (e.g. there is no response). An action rejected before it is sent
+ * (e.g. because the session is not authenticated) doesn't count, it can be sent again right away.
+ */
+
+import { ActionTypes } from './frames';
+
+export interface ThrottleRule {
+  coalesceWithinMs?: number; //the same action repeated within this time shares the result of the first one
+  minIntervalMs?: number; //the same action repeated within this time is rejected
+}
+
+export type ActionThrottleOptions = { [T in ActionTypes]?: ThrottleRule };
+
+//What happened to an action: it was sent (or queued), it got the result of an earlier action, or it was rejected
+export type ThrottleDecision = 'sent' | 'coalesced' | 'rejected';
+
+/**
+ * The options of a single action related to the throttle, passed to the action methods of the RemootioDevice class
+ */
+export interface ThrottleActionOptions {
+  onThrottleDecision?: (decision: ThrottleDecision) => void; //called right away with what happened to the action
+}
+
+/**
+ * The state of the throttle for an action type, for diagnostics
+ */
+export interface ThrottleState {
+  rule: ThrottleRule;
+  lastSentAt?: Date;
+  sent: number;
+  coalesced: number;
+  rejected: number;
+}
+
+export type ThrottleCheck<T> =
+  | { decision: 'sent' }
+  | { decision: 'coalesced'; result: T }
+  | { decision: 'rejected'; retryAfterMs: number };
+
+interface ThrottleEntry<T> {
+  state: ThrottleState;
+  lastSent?: { at: number; durationMins?: number; result: T };
+}
+
+export class ActionThrottle<T> {
+  private entries: { [A in ActionTypes]?: ThrottleEntry<T> };
+
+  constructor(rules: ActionThrottleOptions) {
+    this.entries = {}; //only the action types with a rule are throttled
+    (Object.keys(rules) as ActionTypes[]).forEach((type) => {
+      this.entries[type] = { state: { rule: { ...rules[type] }, sent: 0, coalesced: 0, rejected: 0 } };
+    });
+  }
+
+  /**
+   * Decides what to do with an action. If it's sent, record() must be called with its result
+   * @param {string} type - the type of the action
+   * @param {number} [durationMins] - the duration of the hold actions (only the actions with the same duration are coalesced)
+   * @param {number} now - the current time in ms since epoch
+   */
+  check(type: ActionTypes, durationMins: number | undefined, now: number): ThrottleCheck<T> {
+    const entry = this.entries[type];
+    if (entry == undefined || entry.lastSent == undefined) {
+      return { decision: 'sent' };
+    }
+    const elapsedMs = now - entry.lastSent.at;
+    const rule = entry.state.rule;
+    if (
+      rule.coalesceWithinMs != undefined &&
+      elapsedMs < rule.coalesceWithinMs &&
+      entry.lastSent.durationMins === durationMins
+    ) {
+      entry.state.coalesced++;
+      return { decision: 'coalesced', result: entry.lastSent.result };
+    }
+    if (rule.minIntervalMs != undefined && elapsedMs < rule.minIntervalMs) {
+      entry.state.rejected++;
+      return { decision: 'rejected', retryAfterMs: rule.minIntervalMs - elapsedMs };
+    }
+    return { decision: 'sent' };
+  }
+
+  /**
+   * Records an action that was sent
+   * @param {string} type - the type of the action
+   * @param {number} [durationMins] - the duration of the hold actions
+   * @param {number} now - the current time in ms since epoch
+   * @param {Object} result - the result the actions coalesced with this one get
+   */
+  record(type: ActionTypes, durationMins: number | undefined, now: number, result: T): void {
+    const entry = this.entries[type];
+    if (entry != undefined) {
+      entry.lastSent = { at: now, durationMins, result };
+      entry.state.lastSentAt = new Date(now);
+      entry.state.sent++;
+    }
+  }
+
+  //The state of the throttled action types
+  get state(): { [A in ActionTypes]?: ThrottleState } {
+    const state: { [A in ActionTypes]?: ThrottleState } = {};
+    (Object.keys(this.entries) as ActionTypes[]).forEach((type) => {
+      const entryState = (this.entries[type] as ThrottleEntry<T>).state;
+      state[type] = { ...entryState, rule: { ...entryState.rule } };
+    });
+    return state;
+  }
+}
@@ -0,0 +1,499 @@
+import { EventEmitter } from './eventemitter';
+import { RemootioDevice } from './remootiodevice';
+import { isInTimeWindow, validateTimeWindow } from './actionpolicy';
+import { EventTypes, ReceivedEncryptedFrameContent, ReceivedFrames } from './frames';
+import { Logger, noopLogger } from './logger';
+
+/**
+ * This module turns the events of Remootio devices into alerts by rules: the gate is left open, opened during the quiet hours,
+ * the device is disconnected for too long, the gate status sensor is disabled or flipped, the doorbell is pushed.
+ * An alert is sent to the notifier sinks (see AlertSink, e.g. ConsoleAlertSink and WebhookAlertSink) when it is raised, it can be repeated
+ * and escalated by the steps of its rule, and it is resolved automatically (e.g. by a StateChange event to closed) or by acknowledge().
+ * There is at most one active alert per rule and device, the condition met again while the alert is active is counted in occurrences.
+ */
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export type AlertRuleType = 'LEFT_OPEN' | 'QUIET_HOURS' | 'DISCONNECTED' | 'SENSOR' | 'DOORBELL';
+
+/**
+ * How an alert was resolved: the gate was closed (StateChange to closed), the gate was opened (for the doorbell alerts),
+ * the device connected again, the sensor was enabled again (SensorEnabled) or the alert was acknowledged
+ */
+export type AlertResolution = 'closed' | 'opened' | 'connected' | 'sensorenabled' | 'acknowledged';
+
+/**
+ * An escalation step of a rule, it is applied afterMs milliseconds after the alert was raised (if the alert is still active)
+ */
+export interface EscalationStep {
+  afterMs: number;
+  severity?: AlertSeverity; //the new severity of the alert, unchanged by default
+  sinks?: string[]; //the names of the sinks notified from this step on, unchanged by default
+  repeatEveryMs?: number; //repeat the notification until the next step, the alert is not repeated by default
+}
+
+interface AlertRuleOptions {
+  id: string;
+  devices?: string[]; //the ids of the devices the rule applies to, all the devices by default
+  severity?: AlertSeverity; //'warning' by default
+  sinks?: string[]; //the names of the sinks notified, all the sinks by default
+  repeatEveryMs?: number; //repeat the notification until the first escalation step, not repeated by default
+  escalation?: EscalationStep[];
+}
+
+/**
+ * The rules:
+ * LEFT_OPEN - the gate is open for longer than openForMs (from the StateChange event to open). Without openForMs the LeftOpen event
+ * of the device raises the alert (the device sends it if the gate is left open for the time set in the Remootio app). Resolved when the gate is closed
+ * QUIET_HOURS - the gate was opened between from and to (HH:MM in local time, on the days of the week in days, 0 is Sunday). Resolved when the gate is closed
+ * DISCONNECTED - the device is disconnected for longer than disconnectedForMs after a disconnect event. Resolved when it's connected again
+ * SENSOR - the gate status sensor was disabled or flipped (the event types in events, both by default). Resolved by a SensorEnabled event
+ * DOORBELL - the doorbell was pushed. Resolved when the gate is opened
+ */
+export type AlertRule = AlertRuleOptions &
+  (
+    | { type: 'LEFT_OPEN'; openForMs?: number }
+    | { type: 'QUIET_HOURS'; from: string; to: string; days?: number[] }
+    | { type: 'DISCONNECTED'; disconnectedForMs: number }
+    | { type: 'SENSOR'; events?: ('SensorDisabled' | 'SensorFlipped')[] }
+    | { type: 'DOORBELL' }
+  );
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  type: AlertRuleType;
+  deviceId: string;
+  severity: AlertSeverity;
+  message: string;
+  raisedAt: Date;
+  level: number; //the number of the escalation steps applied
+  occurrences: number; //the number of times the condition was met while the alert was active (1 when it's raised)
+  resolvedAt?: Date; //the timestamp of the event that resolved the alert, or the time it was acknowledged or the device connected
+  resolution?: AlertResolution;
+}
+
+/**
+ * A notification sent to the sinks. The alert is a copy of the alert at the time of the notification
+ */
+export interface AlertNotification {
+  kind: 'raised' | 'repeated' | 'escalated' | 'resolved';
+  alert: Alert;
+}
+
+export interface AlertSink {
+  name: string; //the rules and escalation steps select the sinks by name
+  /**
+   * Sends a notification, the returned promise is rejected if it could not be sent
+   * @param {Object} notification - the notification
+   */
+  send(notification: AlertNotification): Promise<void>;
+}
+
+export interface AlertEngineOptions {
+  logger?: Logger;
+}
+
+interface AlertEngineEvents {
+  notification: (notification: AlertNotification) => void;
+  sinkerror: (notification: AlertNotification, sinkName: string, error: unknown) => void;
+}
+
+interface ActiveAlert {
+  alert: Alert;
+  rule: AlertRule;
+  sinks: string[];
+  repeatTimer?: ReturnType<typeof setInterval>;
+  stepTimers: ReturnType<typeof setTimeout>[];
+}
+
+interface AddedDevice {
+  device: RemootioDevice;
+  incomingMessageListener: (...args: never[]) => void;
+  disconnectListener: () => void;
+  connectedListener: () => void;
+}
+
+//Formats a duration in the messages of the alerts e.g. '15 minutes'
+const formatDuration = (ms: number) =>
+  ms >= 60000 ? Math.round(ms / 60000) + ' minutes' : ms >= 1000 ? Math.round(ms / 1000) + ' seconds' : ms + 'ms';
+
+/**
+ * ConsoleAlertSink class writes the notifications to the console (console.error for critical, console.warn for warning and console.log for info alerts)
+ * @param {Object} [options]
+ * @param {string} [options.name='console'] - the name of the sink
+ * @param {Function} [options.write] - writes a line instead of the console, with the line and the severity as parameters
+ */
+export class ConsoleAlertSink implements AlertSink {
+  public readonly name: string;
+  private write: (line: string, severity: AlertSeverity) => void;
+
+  constructor(options?: { name?: string; write?: (line: string, severity: AlertSeverity) => void }) {
+    this.name = options?.name ?? 'console';
+    this.write =
+      options?.write ??
+      ((line, severity) => {
+        if (severity == 'critical') {
+          console.error(line);
+        } else if (severity == 'warning') {
+          console.warn(line);
+        } else {
+          console.log(line);
+        }
+      });
+  }
+
+  send(notification: AlertNotification): Promise<void> {
+    const alert = notification.alert;
+    const kind = notification.kind == 'resolved' ? 'resolved (' + alert.resolution + ')' : notification.kind;
+    this.write(
+      '[' + alert.severity.toUpperCase() + '] ' + alert.deviceId + ' ' + alert.type + ' ' + kind + ': ' + alert.message,
+      alert.severity
+    );
+    return Promise.resolve();
+  }
+}
+
+export declare interface AlertEngine {
+  on<E extends keyof AlertEngineEvents>(event: E, listener: AlertEngineEvents[E]): this;
+  emit<E extends keyof AlertEngineEvents>(event: E, ...args: Parameters<AlertEngineEvents[E]>): boolean;
+}
+
+/**
+ * AlertEngine class raises, escalates and resolves the alerts of the rules for one or more devices
+ * @param {Array} rules - the rules (see AlertRule)
+ * @param {Array} sinks - the notifier sinks, e.g. [new ConsoleAlertSink(), new WebhookAlertSink('https://example.com/alerts')]
+ * @param {Object} [options]
+ * @param {Object} [options.logger] - the failed notifications are logged here (see logger.ts)
+ *
+ * @event notification - when an alert is raised, repeated, escalated or resolved, with the notification as parameter
+ * @event sinkerror - when a sink could not send a notification, with the notification, the name of the sink and the error as parameters
+ */
+export class AlertEngine extends EventEmitter {
+  private rules: AlertRule[];
+  private sinks: Map<string, AlertSink>;
+  private logger: Logger;
+  private devices: Map<string, AddedDevice>;
+  private active: Map<string, ActiveAlert>; //keyed by deviceId and ruleId
+  private conditionTimers: Map<string, ReturnType<typeof setTimeout>>; //the LEFT_OPEN and DISCONNECTED timers, keyed by deviceId and ruleId
+  private alertCounter: number;
+
+  constructor(rules: AlertRule[], sinks: AlertSink[], options?: AlertEngineOptions) {
+    super();
+    this.sinks = new Map();
+    sinks.forEach((sink) => {
+      if (this.sinks.has(sink.name)) {
+        throw new Error('There are several sinks named ' + sink.name);
+      }
+      this.sinks.set(sink.name, sink);
+    });
+    //Invalid rules are reported right away instead of when the first alert is raised
+    const ruleIds = new Set<string>();
+    rules.forEach((rule) => {
+      if (ruleIds.has(rule.id)) {
+        throw new Error('There are several rules with id ' + rule.id);
+      }
+      ruleIds.add(rule.id);
+      if (rule.type == 'QUIET_HOURS') {
+        validateTimeWindow(rule);
+      }
+      [rule.sinks ?? [], ...(rule.escalation ?? []).map((step) => step.sinks ?? [])].forEach((names) =>
+        names.forEach((name) => {
+          if (!this.sinks.has(name)) {
+            throw new Error('The rule ' + rule.id + ' refers to an unknown sink ' + name);
+          }
+        })
+      );
+    });
+    this.rules = rules;
+    this.logger = options?.logger ?? noopLogger;
+    this.devices = new Map();
+    this.active = new Map();
+    this.conditionTimers = new Map();
+    this.alertCounter = 0;
+  }
+
+  /**
+   * Checks the rules for the events of a device
+   * @param {string} id - the id of the device in the alerts
+   * @param {RemootioDevice} device - the device
+   */
+  addDevice(id: string, device: RemootioDevice): void {
+    if (this.devices.has(id)) {
+      throw new Error('A device with id ' + id + ' is already added');
+    }
+    const incomingMessageListener = (
+      _frame: ReceivedFrames,
+      payload?: ReceivedEncryptedFrameContent,
+      timestamp?: Date
+    ) => {
+      if (payload != undefined && 'event' in payload) {
+        this.handleEvent(id, payload.event, timestamp ?? new Date());
+      }
+    };
+    const disconnectListener = () =>
+      this.rulesOf(id, 'DISCONNECTED').forEach((rule) => this.startDisconnectTimer(id, rule));
+    const connectedListener = () =>
+      this.rulesOf(id, 'DISCONNECTED').forEach((rule) => {
+        this.clearConditionTimer(id, rule);
+        this.resolve(id, rule, 'connected', new Date());
+      });
+    device.on('incomingmessage', incomingMessageListener);
+    device.on('disconnect', disconnectListener);
+    device.on('connected', connectedListener);
+    this.devices.set(id, { device, incomingMessageListener, disconnectListener, connectedListener });
+    //The gate may be open already. A device that is not connected yet is not reported, the DISCONNECTED rules start with a disconnect event
+    if (device.gateState == 'open') {
+      this.rulesOf(id, 'LEFT_OPEN').forEach((rule) => this.startLeftOpenTimer(id, rule));
+    }
+  }
+
+  /**
+   * Stops checking the rules for a device, its active alerts are dropped without notification
+   * @param {string} id - the id of the device
+   * @returns {boolean} - true if the device was added
+   */
+  removeDevice(id: string): boolean {
+    const added = this.devices.get(id);
+    if (added == undefined) {
+      return false;
+    }
+    added.device.removeListener('incomingmessage', added.incomingMessageListener as (...args: unknown[]) => void);
+    added.device.removeListener('disconnect', added.disconnectListener);
+    added.device.removeListener('connected', added.connectedListener);
+    this.devices.delete(id);
+    this.rules.forEach((rule) => {
+      this.clearConditionTimer(id, rule);
+      const active = this.active.get(this.key(id, rule));
+      if (active != undefined) {
+        this.clearAlertTimers(active);
+        this.active.delete(this.key(id, rule));
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Returns the active alerts (copies), the oldest first
+   */
+  activeAlerts(): Alert[] {
+    return Array.from(this.active.values())
+      .map((active) => ({ ...active.alert }))
+      .sort((a, b) => a.raisedAt.getTime() - b.raisedAt.getTime());
+  }
+
+  /**
+   * Resolves an active alert, e.g. when someone takes care of it
+   * @param {string} alertId - the id of the alert
+   * @returns {boolean} - true if the alert was active
+   */
+  acknowledge(alertId: string): boolean {
+    const active = Array.from(this.active.values()).find((candidate) => candidate.alert.id == alertId);
+    if (active == undefined) {
+      return false;
+    }
+    this.resolve(active.alert.deviceId, active.rule, 'acknowledged', new Date());
+    return true;
+  }
+
+  /**
+   * Stops checking the rules for all the devices, the active alerts are dropped without notification
+   */
+  close(): void {
+    Array.from(this.devices.keys()).forEach((id) => this.removeDevice(id));
+  }
+
+  private handleEvent(deviceId: string, event: EventTypes['event'], time: Date): void {
+    switch (event.type) {
+      case 'StateChange':
+        if (event.state == 'open') {
+          this.rulesOf(deviceId, 'LEFT_OPEN').forEach((rule) => this.startLeftOpenTimer(deviceId, rule));
+          this.rulesOf(deviceId, 'QUIET_HOURS').forEach((rule) => {
+            if (rule.type == 'QUIET_HOURS' && isInTimeWindow(rule, time)) {
+              this.raise(
+                deviceId,
+                rule,
+                'The gate of ' + deviceId + ' was opened during the quiet hours (' + rule.from + '-' + rule.to + ')',
+                time
+              );
+            }
+          });
+          this.rulesOf(deviceId, 'DOORBELL').forEach((rule) => this.resolve(deviceId, rule, 'opened', time));
+        } else if (event.state == 'closed') {
+          this.rulesOf(deviceId, 'LEFT_OPEN').forEach((rule) => this.clearConditionTimer(deviceId, rule));
+          [...this.rulesOf(deviceId, 'LEFT_OPEN'), ...this.rulesOf(deviceId, 'QUIET_HOURS')].forEach((rule) =>
+            this.resolve(deviceId, rule, 'closed', time)
+          );
+        }
+        break;
+      case 'LeftOpen':
+        this.rulesOf(deviceId, 'LEFT_OPEN').forEach((rule) => {
+          if (rule.type == 'LEFT_OPEN' && rule.openForMs == undefined) {
+            const openFor = formatDuration(event.data.timeOpen100ms * 100);
+            this.raise(deviceId, rule, 'The gate of ' + deviceId + ' was left open for ' + openFor, time);
+          }
+        });
+        break;
+      case 'SensorDisabled':
+      case 'SensorFlipped': {
+        const type = event.type;
+        this.rulesOf(deviceId, 'SENSOR').forEach((rule) => {
+          if (rule.type == 'SENSOR' && (rule.events == undefined || rule.events.indexOf(type) != -1)) {
+            const what = type == 'SensorDisabled' ? 'disabled' : 'flipped';
+            this.raise(deviceId, rule, 'The gate status sensor of ' + deviceId + ' was ' + what, time);
+          }
+        });
+        break;
+      }
+      case 'SensorEnabled':
+        this.rulesOf(deviceId, 'SENSOR').forEach((rule) => this.resolve(deviceId, rule, 'sensorenabled', time));
+        break;
+      case 'DoorbellPushed':
+        this.rulesOf(deviceId, 'DOORBELL').forEach((rule) =>
+          this.raise(deviceId, rule, 'The doorbell of ' + deviceId + ' was pushed', time)
+        );
+        break;
+    }
+  }
+
+  private rulesOf(deviceId: string, type: AlertRuleType): AlertRule[] {
+    return this.rules.filter(
+      (rule) => rule.type == type && (rule.devices == undefined || rule.devices.indexOf(deviceId) != -1)
+    );
+  }
+
+  private key(deviceId: string, rule: AlertRule): string {
+    return deviceId + '/' + rule.id;
+  }
+
+  private startLeftOpenTimer(deviceId: string, rule: AlertRule): void {
+    if (rule.type == 'LEFT_OPEN' && rule.openForMs != undefined) {
+      const message = 'The gate of ' + deviceId + ' is open for more than ' + formatDuration(rule.openForMs);
+      this.startConditionTimer(deviceId, rule, rule.openForMs, message);
+    }
+  }
+
+  private startDisconnectTimer(deviceId: string, rule: AlertRule): void {
+    if (rule.type == 'DISCONNECTED') {
+      const message = deviceId + ' is disconnected for more than ' + formatDuration(rule.disconnectedForMs);
+      this.startConditionTimer(deviceId, rule, rule.disconnectedForMs, message);
+    }
+  }
+
+  //Raises the alert if the condition still holds after delayMs (the timer is cleared when it ends), a running timer is kept
+  private startConditionTimer(deviceId: string, rule: AlertRule, delayMs: number, message: string): void {
+    const key = this.key(deviceId, rule);
+    if (this.conditionTimers.has(key)) {
+      return;
+    }
+    this.conditionTimers.set(
+      key,
+      setTimeout(() => {
+        this.conditionTimers.delete(key);
+        this.raise(deviceId, rule, message, new Date());
+      }, delayMs)
+    );
+  }
+
+  private clearConditionTimer(deviceId: string, rule: AlertRule): void {
+    const key = this.key(deviceId, rule);
+    const timer = this.conditionTimers.get(key);
+    if (timer != undefined) {
+      clearTimeout(timer);
+      this.conditionTimers.delete(key);
+    }
+  }
+
+  private raise(deviceId: string, rule: AlertRule, message: string, time: Date): void {
+    const key = this.key(deviceId, rule);
+    const existing = this.active.get(key);
+    if (existing != undefined) {
+      existing.alert.occurrences++;
+      return;
+    }
+    const active: ActiveAlert = {
+      alert: {
+        id: deviceId + '/' + rule.id + '/' + ++this.alertCounter,
+        ruleId: rule.id,
+        type: rule.type,
+        deviceId,
+        severity: rule.severity ?? 'warning',
+        message,
+        raisedAt: time,
+        level: 0,
+        occurrences: 1
+      },
+      rule,
+      sinks: rule.sinks ?? Array.from(this.sinks.keys()),
+      stepTimers: []
+    };
+    this.active.set(key, active);
+    this.notify('raised', active);
+    this.scheduleRepeat(active, rule.repeatEveryMs);
+    (rule.escalation ?? []).forEach((step, i) => {
+      active.stepTimers.push(
+        setTimeout(() => {
+          active.alert.level = i + 1;
+          active.alert.severity = step.severity ?? active.alert.severity;
+          active.sinks = step.sinks ?? active.sinks;
+          this.notify('escalated', active);
+          this.scheduleRepeat(active, step.repeatEveryMs);
+        }, step.afterMs)
+      );
+    });
+  }
+
+  private scheduleRepeat(active: ActiveAlert, repeatEveryMs?: number): void {
+    if (active.repeatTimer != undefined) {
+      clearInterval(active.repeatTimer);
+      active.repeatTimer = undefined;
+    }
+    if (repeatEveryMs != undefined) {
+      active.repeatTimer = setInterval(() => this.notify('repeated', active), repeatEveryMs);
+    }
+  }
+
+  //The time is the timestamp of the event resolving the alert (computed from the uptime of the device), or the current time
+  private resolve(deviceId: string, rule: AlertRule, resolution: AlertResolution, time: Date): void {
+    const key = this.key(deviceId, rule);
+    const active = this.active.get(key);
+    if (active == undefined) {
+      return;
+    }
+    this.clearAlertTimers(active);
+    this.active.delete(key);
+    active.alert.resolvedAt = time;
+    active.alert.resolution = resolution;
+    this.notify('resolved', active);
+  }
+
+  private clearAlertTimers(active: ActiveAlert): void {
+    if (active.repeatTimer != undefined) {
+      clearInterval(active.repeatTimer);
+    }
+    active.stepTimers.forEach((timer) => clearTimeout(timer));
+  }
+
+  private notify(kind: AlertNotification['kind'], active: ActiveAlert): void {
+    const notification: AlertNotification = { kind, alert: { ...active.alert } };
+    this.emit('notification', notification);
+    active.sinks.forEach((name) => {
+      const sink = this.sinks.get(name) as AlertSink;
+      let sent: Promise<void>;
+      try {
+        sent = sink.send(notification);
+      } catch (e) {
+        sent = Promise.reject(e);
+      }
+      sent.catch((error) => {
+        this.logger.error('The alert notification could not be sent', {
+          sink: name,
+          alertId: notification.alert.id,
+          kind,
+          error
+        });
+        this.emit('sinkerror', notification, name, error);
+      });
+    });
+  }
+}
@@ -1,14 +1,16 @@
 /**
  * This module implements the crypto needed by the Remootio device API to handle ENCRYPTED frames used for sending sensitive information and commands
- * It uses crypto-js (https://github.com/brix/crypto-js) but the crypto operations here can also be done using the crypto node module require('crypto')
- * crypto-js is used for the code reuse purposes between the browser and the Node.js examples
+ * It uses the crypto node module require('crypto'), the same operations are implemented with WebCrypto for browsers in webcryptoprovider.ts
+ * The RemootioDevice class uses these functions through the NodeCryptoProvider (see nodecryptoprovider.ts)
  */
 
-import CryptoJS = require('crypto-js');
+import * as crypto from 'crypto';
 import { EncryptedFrame, ReceivedEncryptedFrameContent } from './frames';
+import { Logger, noopLogger } from './logger';
 
 /**
  * This function decrypts the payload of an ENCRYPTED frame.
+ * The payload is only decrypted if the MAC of the frame is valid (it is compared in constant time), otherwise undefined is returned.
  * @param {Object} frame - is a javascript object representing a valid encrypted frame
  * @param {string} ApiSecretKey - API Secret Key of the device (as seen in the Remootio app).
  * It is a hexstring representing a 256 bit long value e.g. "12b3f03211c384736b8a1906635f4abc90074e680138a689caf03485a971efb3"
@@ -19,74 +21,59 @@ import { EncryptedFrame, ReceivedEncryptedFrameContent } from './frames';
  * The sessionkey is received in the challenge.sessionKey field of the ENCRYPTED frame sent as a response to the AUTH frame
  * during the authentication flow. This is a base64 encoded string representing a 256 bit long value
  * e.g. "f+8UpraYuLV0wKdHNjJAj1OTaNOI83i6fJZ8TBtwx00="
+ * @param {Object} [logger] - the reason of a failed decryption is logged here (see logger.ts), nothing is logged by default
  */
 export function remootioApiDecryptEncrypedFrame(
   frame: EncryptedFrame,
   ApiSecretKey: string,
   ApiAuthKey: string,
-  ApiSessionKey?: string
+  ApiSessionKey?: string,
+  logger: Logger = noopLogger
 ): ReceivedEncryptedFrameContent | undefined {
   if (!frame || frame.type != 'ENCRYPTED' || !frame.data || !frame.mac || !frame.data.payload || !frame.data.iv) {
     return undefined;
   }
 
   //STEP 0 - Get the relevant keys used for encryption
-  let CurrentlyUsedSecretKeyWordArray = undefined; //The currently used encryption key (in word array form as CryptoJS prefers) - To be set in the next few lines
   //The used Secret Key - used for encryption - depends on if the session is already authenticated or not
-  //If it's not then it's the ApiSecretKey. If it is, the ApiSessionKey is used instead.
-  if (ApiSessionKey == undefined) {
-    //If the session is not authenticated, we use ApiSecretKey, which is a hexstring
-    //CryptoJs works with wordArrays, but ApiSecretKey is a hexstring
-    CurrentlyUsedSecretKeyWordArray = CryptoJS.enc.Hex.parse(ApiSecretKey); //Parse hexstring
-  } else {
-    //If the session is already authenticated, we use ApiSessionKey, which we received as a response to our AUTH frame earlier in base64 encoded form
-    //CryptoJs works with wordArrays, but ApiSessionKey is a base64 encoded string
-    CurrentlyUsedSecretKeyWordArray = CryptoJS.enc.Base64.parse(ApiSessionKey); //Parse hexstring
-  }
-
+  //If it's not then it's the ApiSecretKey (a hexstring). If it is, the ApiSessionKey (a base64 encoded string) is used instead.
+  const currentlyUsedSecretKey =
+    ApiSessionKey == undefined ? Buffer.from(ApiSecretKey, 'hex') : Buffer.from(ApiSessionKey, 'base64');
   //The auth key is used for calculating the MAC (Message Authentication Code), which is a HMAC-SHA256
-  //CryptoJs works with wordArrays, but ApiAuthKey is a hexstring
-  const ApiAuthKeyWordArray = CryptoJS.enc.Hex.parse(ApiAuthKey); //Parse hexstring
+  const apiAuthKey = Buffer.from(ApiAuthKey, 'hex'); //ApiAuthKey is a hexstring
 
   //Step 1 verify MAC
   //It is a HMAC-SHA256 over the JSON.stringify(frame.data)
-  const mac = CryptoJS.HmacSHA256(JSON.stringify(frame.data), ApiAuthKeyWordArray);
-  const base64mac = CryptoJS.enc.Base64.stringify(mac);
-  //Check if the calculated MAC matches the one sent by the API
-  let macMatches = true;
-  if (base64mac != frame.mac) {
-    //If the MAC doesn't match - return
-    console.warn('Decryption error: calculated MAC ' + base64mac + ' does not match the MAC from the API ' + frame.mac);
-    macMatches = false;
+  //Check if the calculated MAC matches the one sent by the API (in constant time), the payload is not decrypted if it doesn't
+  if (!remootioApiVerifyHmacSha256(apiAuthKey, JSON.stringify(frame.data), frame.mac)) {
+    logger.warn('Decryption error: the MAC of the frame does not match the calculated MAC', {
+      frameType: frame.type,
+      mac: frame.mac
+    });
+    return undefined;
   }
 
   //STEP 2 decrypt the payload
-  //The frame.data.payload is a base64 encoded string, we convert it to wordArray for CryptoJS
-  const payloadWordArray = CryptoJS.enc.Base64.parse(frame.data.payload);
-  //The frame.data.iv is a base64 encoded string, we convert it to wordArray for CryptoJS
-  const ivWordArray = CryptoJS.enc.Base64.parse(frame.data.iv);
-
-  const decryptedPayloadWordArray = CryptoJS.AES.decrypt(
-    CryptoJS.lib.CipherParams.create({ ciphertext: payloadWordArray }),
-    CurrentlyUsedSecretKeyWordArray,
-    {
-      iv: ivWordArray,
-      mode: CryptoJS.mode.CBC,
-      padding: CryptoJS.pad.Pkcs7
-    }
-  );
-  const decryptedPayload = CryptoJS.enc.Latin1.stringify(decryptedPayloadWordArray); //The decrypted data is Latin1 encoded string representing a stringified JSON object
-  let decryptedPayloadJSON = undefined;
+  //The frame.data.payload and frame.data.iv are base64 encoded strings
+  let decryptedPayload: string;
   try {
-    decryptedPayloadJSON = JSON.parse(decryptedPayload);
+    const decipher = crypto.createDecipheriv(
+      'aes-256-cbc',
+      currentlyUsedSecretKey,
+      Buffer.from(frame.data.iv, 'base64')
+    );
+    decryptedPayload = Buffer.concat([
+      decipher.update(Buffer.from(frame.data.payload, 'base64')),
+      decipher.final()
+    ]).toString('latin1'); //The decrypted data is Latin1 encoded string representing a stringified JSON object
   } catch (e) {
-    console.warn('The decrypted frame.data is not a valid JSON: ', decryptedPayload);
+    logger.warn('Decryption error: ' + e, { frameType: frame.type });
+    return undefined;
   }
-
-  if (macMatches == true) {
-    return decryptedPayloadJSON;
-  } else {
-    //Return undefined if the mac didn't match
+  try {
+    return JSON.parse(decryptedPayload);
+  } catch (e) {
+    logger.warn('The decrypted frame.data is not a valid JSON', { frameType: frame.type, decryptedPayload });
     return undefined;
   }
 }
@@ -111,44 +98,32 @@ export function remootioApiConstructEncrypedFrame(
   //STEP 0 - Get the relevant keys used for encryption
   //The used Secret Key is never used in this function because the client is only able to send vaid ENCRYPTED
   //frames in an authenticated session (after it received the sessionKey, we only use the sessionKey here)
-  let CurrentlyUsedSecretKeyWordArray = undefined;
   if (ApiSessionKey == undefined) {
     //If the session is not authenticated, the client cannot send valid encrypted frames to the Remootio device
     //so this is an error, and we just return undefined
     return undefined;
-  } else {
-    //If the session is already authenticated we use ApiSessionKey, which we received as a response to our AUTH frame earlier in base64 encoded form
-    //CryptoJs works with wordArrays, but ApiSessionKey is a base64 encoded string
-    CurrentlyUsedSecretKeyWordArray = CryptoJS.enc.Base64.parse(ApiSessionKey); //Parse hexstring
   }
-
+  //We use ApiSessionKey, which we received as a response to our AUTH frame earlier in base64 encoded form
+  const currentlyUsedSecretKey = Buffer.from(ApiSessionKey, 'base64');
   //The auth key is used for calculating the MAC (Message Authentication Code), which is a HMAC-SHA256
-  //CryptoJs works with wordArrays, but ApiAuthKey is a hexstring
-  const ApiAuthKeyWordArray = CryptoJS.enc.Hex.parse(ApiAuthKey); //Parse hexstring
+  const apiAuthKey = Buffer.from(ApiAuthKey, 'hex'); //ApiAuthKey is a hexstring
 
   //STEP 1 encrypt the payload
-  //3.1 generate random IV
-  const ivWordArray = CryptoJS.lib.WordArray.random(16);
-  //Convert the unencrypted payload to wordArray for CryptoJS
-  const unencryptedPayloadWordArray = CryptoJS.enc.Latin1.parse(unencryptedPayload);
-  //Do the encryption
-  const encryptedData = CryptoJS.AES.encrypt(unencryptedPayloadWordArray, CurrentlyUsedSecretKeyWordArray, {
-    iv: ivWordArray,
-    mode: CryptoJS.mode.CBC,
-    padding: CryptoJS.pad.Pkcs7
-  });
-  const encryptedPayloadWordArray = encryptedData.ciphertext; //In CryptoJS encryptedData.ciphertext contains the ciphertext as a word array
+  //1.1 generate random IV
+  const iv = crypto.randomBytes(16);
+  //Do the encryption - the unencrypted payload is handled as a Latin1 encoded string
+  const cipher = crypto.createCipheriv('aes-256-cbc', currentlyUsedSecretKey, iv);
+  const encryptedPayload = Buffer.concat([cipher.update(Buffer.from(unencryptedPayload, 'latin1')), cipher.final()]);
   //Step 2 create the {data:...} object of the encrypted frame used for HMAC calculation
   //The order of the elements in the toHMACObj is very important, (if they are in other order the calculated HMAC will be different)
   //And the Remootio API will reject the message
   const toHMACObj = {
-    iv: CryptoJS.enc.Base64.stringify(ivWordArray), //IV is a base64 encoded string
-    payload: CryptoJS.enc.Base64.stringify(encryptedPayloadWordArray)
+    iv: iv.toString('base64'), //IV is a base64 encoded string
+    payload: encryptedPayload.toString('base64')
   };
   //STEP 3 calcualte the HMAC-SHA256 of JSON.stringify(frame.data)
   const toHMAC = JSON.stringify(toHMACObj); //The data we calculate the HMAC on
-  const mac = CryptoJS.HmacSHA256(toHMAC, ApiAuthKeyWordArray);
-  const base64mac = CryptoJS.enc.Base64.stringify(mac); //We convert the mac to a base64 array
+  const base64mac = remootioApiHmacSha256(apiAuthKey, toHMAC);
 
   //STEP 4 we construct and return the full encrypted frame
   return {
@@ -157,3 +132,26 @@ export function remootioApiConstructEncrypedFrame(
     mac: base64mac
   };
 }
+
+/**
+ * This function calculates the HMAC-SHA256 of the data, the MAC of the ENCRYPTED frames. It is also used to sign the webhooks (see webhooknotifier.ts)
+ * @param {Buffer} key - the key of the HMAC (the API Auth Key for the ENCRYPTED frames)
+ * @param {string} data - the data the MAC is calculated on (JSON.stringify(frame.data) for the ENCRYPTED frames)
+ * @returns {string} - the base64 encoded MAC
+ */
+export function remootioApiHmacSha256(key: Buffer, data: string): string {
+  return crypto.createHmac('sha256', key).update(data).digest('base64');
+}
+
+/**
+ * This function checks the HMAC-SHA256 of the data in constant time
+ * @param {Buffer} key - the key of the HMAC
+ * @param {string} data - the data the MAC was calculated on
+ * @param {string} base64mac - the base64 encoded MAC received
+ * @returns {boolean} - true if the MAC is valid
+ */
+export function remootioApiVerifyHmacSha256(key: Buffer, data: string, base64mac: string): boolean {
+  const mac = crypto.createHmac('sha256', key).update(data).digest();
+  const receivedMac = Buffer.from(base64mac, 'base64');
+  return receivedMac.length == mac.length && crypto.timingSafeEqual(mac, receivedMac);
+}
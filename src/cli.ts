@@ -0,0 +1,385 @@
+#!/usr/bin/env node
+/**
+ * This module implements the remootio command-line tool built on the RemootioDevice class
+ *
+ * Usage: remootio <command> [arguments] [options]
+ *
+ * Commands:
+ *   hello                        - prints the API version, serial number and device type of the Remootio device (SERVER_HELLO frame)
+ *   query                        - prints the gate status
+ *   trigger                      - triggers the control output
+ *   trigger-secondary            - triggers the secondary (free relay) output
+ *   open                         - opens the gate or garage door
+ *   close                        - closes the gate or garage door
+ *   hold <output> <minutes>      - holds an output (trigger, trigger-secondary, open or close) active for the given minutes (a positive integer)
+ *   restart                      - restarts the Remootio device
+ *   watch                        - prints the events sent by the Remootio device until it is stopped (Ctrl+C)
+ *
+ * Options:
+ *   --ip <ip>                    - the IP address of the device (or REMOOTIO_IP)
+ *   --port <port>                - the port of the websocket API (or REMOOTIO_PORT, defaults to 8080)
+ *   --config <file>              - JSON config file with ip, port, apiSecretKey and apiAuthKey (or REMOOTIO_CONFIG)
+ *   --timeout <ms>               - how long to wait for the response to an action (defaults to 10000)
+ *   --json                       - print JSON (one object per line for watch) instead of human readable text
+ *
+ * The API Secret Key and API Auth Key are read from the REMOOTIO_API_SECRET_KEY and REMOOTIO_API_AUTH_KEY environment variables
+ * or from the config file. There are deliberately no options for them, so they don't end up in the shell history or the process list.
+ *
+ * Exit codes: 0 - success, 1 - the device responded with success: false and an unknown errorCode (the errorCode is printed),
+ * 2 - invalid usage or configuration, 3 - connection or authentication error, 4 - no response from the device in time,
+ * 5 - the action failed with the 'no sensor' errorCode (OPEN or CLOSE without a gate status sensor),
+ * 6 - the action failed with the 'unsupported action' errorCode (e.g. TRIGGER_SECONDARY on a Remootio 1)
+ */
+
+import { readFileSync } from 'fs';
+import { ActionFailedError, ActionTimeoutError } from './errors';
+import { ReceivedEncryptedFrameContent, ReceivedFrames, RemootioActionResponse } from './frames';
+import { RemootioDevice } from './remootiodevice';
+
+export const exitCodes = {
+  success: 0,
+  actionFailed: 1,
+  usage: 2,
+  connection: 3,
+  timeout: 4,
+  noSensor: 5,
+  unsupportedAction: 6
+};
+
+//The exit codes of the errorCodes of the failed actions, the other errorCodes exit with exitCodes.actionFailed
+export const actionErrorExitCodes: { [errorCode: string]: number } = {
+  'no sensor': exitCodes.noSensor,
+  'unsupported action': exitCodes.unsupportedAction
+};
+
+const commands = ['hello', 'query', 'trigger', 'trigger-secondary', 'open', 'close', 'hold', 'restart', 'watch'];
+const holdOutputs = ['trigger', 'trigger-secondary', 'open', 'close'];
+
+const usage =
+  'Usage: remootio <hello|query|trigger|trigger-secondary|open|close|hold <output> <minutes>|restart|watch> ' +
+  '[--ip <ip>] [--port <port>] [--config <file>] [--timeout <ms>] [--json]\n' +
+  'The API keys are read from the config file or the REMOOTIO_API_SECRET_KEY and REMOOTIO_API_AUTH_KEY environment variables, ' +
+  'there are no options for them so they are not saved in the shell history';
+
+interface CliArguments {
+  command: string;
+  args: string[];
+  ip?: string;
+  port?: number;
+  configFile?: string;
+  timeoutMs?: number;
+  json: boolean;
+}
+
+interface CliCredentials {
+  ip: string;
+  port?: number;
+  apiSecretKey: string;
+  apiAuthKey: string;
+}
+
+interface CliOutput {
+  out: (line: string) => void;
+  err: (line: string) => void;
+}
+
+/**
+ * Error for invalid command-line arguments or configuration, the tool exits with exitCodes.usage
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Parses the command-line arguments (without the node executable and the script path)
+ * @param {Array} argv - the arguments e.g. ['hold', 'open', '5', '--ip', '192.168.1.23']
+ */
+export function parseArguments(argv: string[]): CliArguments {
+  const result: CliArguments = { command: '', args: [], json: false };
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const nextValue = () => {
+      if (i + 1 >= argv.length) {
+        throw new UsageError('Missing value for ' + arg);
+      }
+      return argv[++i];
+    };
+    switch (arg) {
+      case '--ip':
+        result.ip = nextValue();
+        break;
+      case '--port':
+        result.port = parseNumber(nextValue(), arg);
+        break;
+      case '--config':
+        result.configFile = nextValue();
+        break;
+      case '--timeout':
+        result.timeoutMs = parseNumber(nextValue(), arg);
+        break;
+      case '--json':
+        result.json = true;
+        break;
+      default:
+        if (arg.indexOf('--') == 0) {
+          throw new UsageError('Unknown option ' + arg);
+        }
+        positional.push(arg);
+    }
+  }
+  result.command = positional.length > 0 ? positional[0] : '';
+  result.args = positional.slice(1);
+  if (commands.indexOf(result.command) == -1) {
+    throw new UsageError(result.command ? 'Unknown command ' + result.command : 'Missing command');
+  }
+  if (result.command == 'hold') {
+    if (result.args.length != 2 || holdOutputs.indexOf(result.args[0]) == -1) {
+      throw new UsageError('Usage: remootio hold <trigger|trigger-secondary|open|close> <minutes>');
+    }
+    parsePositiveInteger(result.args[1], 'minutes');
+  } else if (result.args.length > 0) {
+    throw new UsageError('Unexpected argument ' + result.args[0]);
+  }
+  return result;
+}
+
+/**
+ * Collects the IP address and the keys of the device from the arguments, the config file and the environment variables (in this order of precedence)
+ * @param {Object} cliArguments - the parsed arguments
+ * @param {Object} env - the environment variables
+ */
+export function loadCredentials(
+  cliArguments: CliArguments,
+  env: { [name: string]: string | undefined }
+): CliCredentials {
+  let config: Partial<CliCredentials> = {};
+  const configFile = cliArguments.configFile ?? env.REMOOTIO_CONFIG;
+  if (configFile != undefined) {
+    try {
+      config = JSON.parse(readFileSync(configFile, 'utf8'));
+    } catch (e) {
+      throw new UsageError('Cannot read the config file ' + configFile + ': ' + (e as Error).message);
+    }
+  }
+  const ip = cliArguments.ip ?? config.ip ?? env.REMOOTIO_IP;
+  const port =
+    cliArguments.port ??
+    config.port ??
+    (env.REMOOTIO_PORT ? parseNumber(env.REMOOTIO_PORT, 'REMOOTIO_PORT') : undefined);
+  const apiSecretKey = config.apiSecretKey ?? env.REMOOTIO_API_SECRET_KEY;
+  const apiAuthKey = config.apiAuthKey ?? env.REMOOTIO_API_AUTH_KEY;
+  if (ip == undefined) {
+    throw new UsageError('The IP address of the device is missing (--ip, config file or REMOOTIO_IP)');
+  }
+  if (apiSecretKey == undefined || apiAuthKey == undefined) {
+    throw new UsageError(
+      'The API keys are missing (config file or REMOOTIO_API_SECRET_KEY and REMOOTIO_API_AUTH_KEY environment variables)'
+    );
+  }
+  return { ip, port, apiSecretKey, apiAuthKey };
+}
+
+/**
+ * Formats a decrypted event or action response as a human readable line
+ * @param {Object} payload - the decrypted payload of an ENCRYPTED frame
+ * @param {Date} [timestamp] - the time the device created the event or response at (see the incomingmessage event), the line starts with it
+ */
+export function formatPayload(payload: ReceivedEncryptedFrameContent, timestamp?: Date): string {
+  const time = timestamp != undefined ? timestamp.toISOString() + ' ' : '';
+  const fields: string[] = [];
+  const addFields = (object: { [key: string]: unknown }, skip: string[]) => {
+    Object.keys(object).forEach((key) => {
+      if (skip.indexOf(key) == -1) {
+        fields.push(key + '=' + JSON.stringify(object[key]));
+      }
+    });
+  };
+  if ('event' in payload) {
+    addFields(payload.event, ['type', 'data']);
+    if ('data' in payload.event) {
+      addFields(payload.event.data, []);
+    }
+    return time + payload.event.type + ' ' + fields.join(' ');
+  } else if ('response' in payload) {
+    addFields(payload.response, ['type']);
+    return time + payload.response.type + ' response ' + fields.join(' ');
+  }
+  return time + JSON.stringify(payload);
+}
+
+/**
+ * Runs the command-line tool
+ * @param {Array} argv - the arguments (without the node executable and the script path)
+ * @param {Object} env - the environment variables
+ * @param {Object} output - out and err functions to print a line to the standard output and error
+ * @returns {Promise<number>} - resolves with the exit code
+ */
+export function run(argv: string[], env: { [name: string]: string | undefined }, output: CliOutput): Promise<number> {
+  let cliArguments: CliArguments;
+  let credentials: CliCredentials;
+  try {
+    cliArguments = parseArguments(argv);
+    credentials = loadCredentials(cliArguments, env);
+  } catch (e) {
+    output.err((e as Error).message);
+    output.err(usage);
+    return Promise.resolve(exitCodes.usage);
+  }
+
+  const device = new RemootioDevice(credentials.ip, credentials.apiSecretKey, credentials.apiAuthKey, undefined, {
+    port: credentials.port,
+    actionTimeoutMs: cliArguments.timeoutMs
+  });
+  device.on('error', () => {
+    //The errors are reported by the rejected promises
+  });
+  //The timestamp of the response computed from the uptime of the device
+  let responseTimestamp: Date | undefined;
+  device.on('actionresponse', (_response, timestamp) => {
+    responseTimestamp = timestamp;
+  });
+
+  if (cliArguments.command == 'hello') {
+    return hello(device, cliArguments, output);
+  }
+  if (cliArguments.command == 'watch') {
+    return watch(device, cliArguments, output);
+  }
+  return device
+    .connectAndAuthenticate()
+    .then(() => sendAction(device, cliArguments))
+    .then(
+      (response) => {
+        output.out(cliArguments.json ? JSON.stringify(response) : formatPayload(response, responseTimestamp));
+        return exitCodes.success;
+      },
+      (error: Error) => {
+        if (error instanceof ActionFailedError) {
+          output.out(
+            cliArguments.json ? JSON.stringify(error.response) : formatPayload(error.response, responseTimestamp)
+          );
+          output.err('Action failed' + (error.errorCode ? ': ' + error.errorCode : ''));
+          return actionErrorExitCodes[error.errorCode] ?? exitCodes.actionFailed;
+        }
+        output.err(error.message);
+        return error instanceof ActionTimeoutError ? exitCodes.timeout : exitCodes.connection;
+      }
+    )
+    .then((exitCode) => {
+      device.disconnect();
+      return exitCode;
+    });
+}
+
+function sendAction(device: RemootioDevice, cliArguments: CliArguments): Promise<RemootioActionResponse> {
+  switch (cliArguments.command) {
+    case 'query':
+      return device.sendQuery();
+    case 'trigger':
+      return device.sendTrigger();
+    case 'trigger-secondary':
+      return device.sendTriggerSecondary();
+    case 'open':
+      return device.sendOpen();
+    case 'close':
+      return device.sendClose();
+    case 'restart':
+      return device.sendRestart();
+  }
+  //hold <output> <minutes>
+  const minutes = parsePositiveInteger(cliArguments.args[1], 'minutes');
+  switch (cliArguments.args[0]) {
+    case 'trigger':
+      return device.holdTriggerOutputActive(minutes);
+    case 'trigger-secondary':
+      return device.holdTriggerSecondaryOutputActive(minutes);
+    case 'open':
+      return device.holdOpenOutputActive(minutes);
+    default:
+      return device.holdCloseOutputActive(minutes);
+  }
+}
+
+function hello(device: RemootioDevice, cliArguments: CliArguments, output: CliOutput): Promise<number> {
+  return new Promise((resolve) => {
+    const timeoutHandle = setTimeout(() => {
+      output.err('No response for the HELLO frame');
+      device.disconnect();
+      resolve(exitCodes.timeout);
+    }, cliArguments.timeoutMs ?? 10000);
+    device.on('connected', () => device.sendHello());
+    device.on('disconnect', () => {
+      clearTimeout(timeoutHandle);
+      resolve(exitCodes.connection);
+    });
+    device.on('incomingmessage', (frame: ReceivedFrames) => {
+      if (frame.type == 'SERVER_HELLO') {
+        clearTimeout(timeoutHandle);
+        if (cliArguments.json) {
+          output.out(JSON.stringify(frame));
+        } else {
+          output.out('apiVersion: ' + frame.apiVersion);
+          if (frame.apiVersion == 2) {
+            output.out('serialNumber: ' + frame.serialNumber);
+            output.out('remootioVersion: ' + frame.remootioVersion);
+          }
+          output.out('message: ' + frame.message);
+        }
+        device.removeAllListeners('disconnect');
+        device.disconnect();
+        resolve(exitCodes.success);
+      }
+    });
+    device.connect(false);
+  });
+}
+
+function watch(device: RemootioDevice, cliArguments: CliArguments, output: CliOutput): Promise<number> {
+  return new Promise((resolve) => {
+    device.on('statechange', (_previousState, nextState) => output.err('[' + nextState + ']'));
+    device.on('incomingmessage', (_frame, decryptedPayload, timestamp) => {
+      if (decryptedPayload != undefined && 'event' in decryptedPayload) {
+        output.out(cliArguments.json ? JSON.stringify(decryptedPayload) : formatPayload(decryptedPayload, timestamp));
+      }
+    });
+    device.on('connected', () => {
+      device.authenticate().catch((e: Error) => output.err(e.message));
+    });
+    process.once('SIGINT', () => {
+      device.disconnect();
+      resolve(exitCodes.success);
+    });
+    device.connect(true);
+  });
+}
+
+function parseNumber(value: string, name: string): number {
+  const number = Number(value);
+  if (value == '' || isNaN(number) || number < 0) {
+    throw new UsageError('Invalid value for ' + name + ': ' + value);
+  }
+  return number;
+}
+
+//The minutes of the hold command are checked like the duration of the HTTP gateway (see httpgateway.ts)
+function parsePositiveInteger(value: string, name: string): number {
+  const number = Number(value);
+  if (!/^\d+$/.test(value) || number <= 0) {
+    throw new UsageError('Invalid value for ' + name + ': ' + value + ' (a positive integer expected)');
+  }
+  return number;
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2), process.env, {
+    out: (line) => process.stdout.write(line + '\n'),
+    err: (line) => process.stderr.write(line + '\n')
+  }).then((exitCode) => {
+    process.exitCode = exitCode;
+  });
+}
@@ -0,0 +1,42 @@
+/**
+ * This module describes the states of the connection between the API client and the Remootio device, and the allowed transitions between them
+ *
+ * disconnected - the initial state, and the state after the connection is lost (if autoReconnect is disabled)
+ * connecting - the websocket connection is being established
+ * connected - the websocket connection is established, but the session is not authenticated
+ * authenticating - the AUTH frame is sent, the authentication flow is in progress
+ * authenticated - the session is authenticated, actions can be sent to the Remootio device
+ * reconnecting - the connection is lost and the API client is waiting to reconnect (autoReconnect is enabled), see reconnectpolicy.ts
+ * closed - the connection was closed by calling disconnect()
+ */
+
+export type ConnectionState =
+  | 'disconnected'
+  | 'connecting'
+  | 'connected'
+  | 'authenticating'
+  | 'authenticated'
+  | 'reconnecting'
+  | 'closed';
+
+const allowedTransitions: { [state in ConnectionState]: ConnectionState[] } = {
+  disconnected: ['connecting'],
+  connecting: ['connected', 'disconnected', 'reconnecting', 'closed'],
+  connected: ['authenticating', 'disconnected', 'reconnecting', 'closed'],
+  authenticating: ['authenticated', 'connected', 'disconnected', 'reconnecting', 'closed'],
+  authenticated: ['disconnected', 'reconnecting', 'closed'],
+  reconnecting: ['connecting', 'disconnected', 'closed'],
+  closed: ['connecting']
+};
+
+//All the states of the connection
+export const connectionStates = Object.keys(allowedTransitions) as ConnectionState[];
+
+/**
+ * Checks if the connection is allowed to go from one state to the other
+ * @param {string} from - the current state
+ * @param {string} to - the next state
+ */
+export function isAllowedTransition(from: ConnectionState, to: ConnectionState): boolean {
+  return allowedTransitions[from].indexOf(to) != -1;
+}
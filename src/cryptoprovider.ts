@@ -0,0 +1,31 @@
+import { EncryptedFrame, ReceivedEncryptedFrameContent } from './frames';
+
+/**
+ * A CryptoProvider implements the crypto needed for the ENCRYPTED frames (AES-256-CBC encryption and HMAC-SHA256 MAC).
+ * The RemootioDevice class uses the NodeCryptoProvider (see nodecryptoprovider.ts) by default in node, and the WebCryptoProvider (see webcryptoprovider.ts) in browsers.
+ * The methods return Promises so asynchronous crypto APIs like WebCrypto can be used too.
+ * An implementation must compare the MAC in constant time, and must not decrypt the payload if the MAC is wrong.
+ */
+export interface CryptoProvider {
+  /**
+   * Decrypts the payload of an ENCRYPTED frame, resolves with undefined if the MAC is wrong or the payload cannot be decrypted
+   * (the parameters are the same as the parameters of remootioApiDecryptEncrypedFrame() in apicrypto.ts)
+   */
+  decryptFrame(
+    frame: EncryptedFrame,
+    apiSecretKey: string,
+    apiAuthKey: string,
+    apiSessionKey?: string
+  ): Promise<ReceivedEncryptedFrameContent | undefined>;
+
+  /**
+   * Encrypts the payload and constructs the ENCRYPTED frame, resolves with undefined if there is no session key
+   * (the parameters are the same as the parameters of remootioApiConstructEncrypedFrame() in apicrypto.ts)
+   */
+  encryptFrame(
+    unencryptedPayload: string,
+    apiSecretKey: string,
+    apiAuthKey: string,
+    apiSessionKey?: string
+  ): Promise<EncryptedFrame | undefined>;
+}
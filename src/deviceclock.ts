@@ -0,0 +1,72 @@
+/**
+ * This module correlates the uptime clock of the Remootio device to the wall clock.
+ * Every action response and event contains t100ms, the time elapsed since the device was started in 100 ms units.
+ * The boot time of the device is estimated as (receive time - t100ms * 100) for every frame received. A frame delivered late
+ * (e.g. queued up while the connection was broken) gives a later estimate, so the earliest estimate of the session is kept.
+ * If t100ms goes backwards, or a Restart event arrives, the device was restarted and the estimate starts over.
+ * A Restart event arriving after the restart was already detected from t100ms going backwards (e.g. the response to the QUERY
+ * action of the authentication comes first after a reconnect) is the same restart, it is not reported again.
+ */
+
+export class DeviceClock {
+  private bootTime?: number;
+  private lastT100ms?: number;
+  private awaitingRestartEvent: boolean;
+
+  constructor() {
+    this.bootTime = undefined; //estimated boot time of the device in ms since epoch
+    this.lastT100ms = undefined; //the last t100ms received, kept between sessions to detect restarts
+    this.awaitingRestartEvent = false; //the restart was detected from t100ms going backwards, its Restart event may still arrive
+  }
+
+  /**
+   * Updates the estimate with a t100ms value received from the device
+   * @param {number} t100ms - the t100ms field of the response or event
+   * @param {number} receivedAt - the time the frame was received in ms since epoch
+   * @param {boolean} [isRestartEvent=false] - the frame is a Restart event
+   * @returns {Object} - timestamp: the wall clock time the frame was created at, restarted: if the device was restarted
+   */
+  update(t100ms: number, receivedAt: number, isRestartEvent = false): { timestamp: Date; restarted: boolean } {
+    const wentBackwards = this.lastT100ms != undefined && t100ms < this.lastT100ms;
+    const restarted = wentBackwards || (isRestartEvent && !this.awaitingRestartEvent);
+    if (isRestartEvent) {
+      this.awaitingRestartEvent = false;
+    } else if (wentBackwards) {
+      this.awaitingRestartEvent = true;
+    }
+    if (restarted) {
+      this.bootTime = undefined;
+    }
+    this.lastT100ms = t100ms;
+    const bootTimeEstimate = receivedAt - t100ms * 100;
+    if (this.bootTime == undefined || bootTimeEstimate < this.bootTime) {
+      this.bootTime = bootTimeEstimate;
+    }
+    return { timestamp: new Date(this.bootTime + t100ms * 100), restarted };
+  }
+
+  /**
+   * Forgets the estimate at the beginning of a new session (the t100ms received last is kept to detect restarts)
+   */
+  reset(): void {
+    this.bootTime = undefined;
+  }
+
+  /**
+   * Converts a t100ms value to wall clock time, returns undefined if there is no estimate yet
+   * @param {number} t100ms - time since the device was started in 100 ms units
+   */
+  toDate(t100ms: number): Date | undefined {
+    return this.bootTime != undefined ? new Date(this.bootTime + t100ms * 100) : undefined;
+  }
+
+  //Get method for the estimated boot time of the device
+  get bootDate(): Date | undefined {
+    return this.bootTime != undefined ? new Date(this.bootTime) : undefined;
+  }
+
+  //Get method for the estimated uptime of the device in ms
+  get uptimeMs(): number | undefined {
+    return this.bootTime != undefined ? Date.now() - this.bootTime : undefined;
+  }
+}
@@ -0,0 +1,377 @@
+import { EventEmitter } from './eventemitter';
+import { RemootioDevice } from './remootiodevice';
+import { createJournalRecord, JournalRecord } from './eventjournal';
+import { ConnectionTypes, KeyTypes, ReceivedEncryptedFrameContent, ReceivedFrames } from './frames';
+
+/**
+ * This module computes door usage statistics from the StateChange, RelayTrigger and LeftOpen events of Remootio devices:
+ * cycle counts, the distribution of the open durations, a time-of-day heatmap of the opens, the keys and connection types opening
+ * the door the most, and it flags the anomalies (an open at an unusual hour, a key used at an hour it's not used at).
+ * It works on live events (addDevice()) and on recorded events (addRecords() with the records of the event journal, see eventjournal.ts).
+ * The summaries are JSON objects (the times are ISO 8601 strings). The hours and days are in the local time zone of the process.
+ */
+
+export type DoorAnomalyType = 'UNUSUAL_HOUR' | 'UNUSUAL_KEY_USE';
+
+export interface DoorAnomaly {
+  deviceId: string;
+  type: DoorAnomalyType;
+  time: string;
+  message: string;
+  keyNr?: number;
+  keyType?: KeyTypes;
+}
+
+export interface DoorAnalyticsOptions {
+  minOpensForAnomalies?: number; //the unusual hours are flagged once the device has opened this many times (50 by default)
+  unusualHourShare?: number; //an hour is unusual if less than this share of the opens happened in it (0.02 by default)
+  minKeyUsesForAnomalies?: number; //a key used at an unusual hour is flagged once it was used this many times (10 by default)
+  watchedKeyTypes?: KeyTypes[]; //the key types checked for unusual uses (['guest key'] by default)
+  openDurationBucketsSecs?: number[]; //the upper limits of the open duration histogram buckets ([30, 60, 300, 900, 3600] by default)
+  maxAnomalies?: number; //the number of the last anomalies kept in the summary (100 by default)
+}
+
+export interface KeyUsage {
+  keyType: KeyTypes;
+  keyNr: number;
+  opens: number; //the RelayTrigger events while the gate was closed
+  closes: number; //the RelayTrigger events while the gate was open
+  count: number; //all the RelayTrigger events (including the ones without a gate status sensor)
+  lastUsedAt: string;
+}
+
+export interface OpenDurationStats {
+  count: number;
+  minSecs?: number;
+  maxSecs?: number;
+  meanSecs?: number;
+  histogram: { upToSecs: number | null; count: number }[]; //the last bucket (upToSecs: null) is for the longer durations
+}
+
+export interface DoorUsageSummary {
+  deviceId: string;
+  from?: string; //the time of the first event
+  to?: string; //the time of the last event
+  opens: number; //the StateChange events to 'open'
+  cycles: number; //the opens followed by a StateChange event to 'closed'
+  leftOpen: number; //the LeftOpen events
+  openDuration: OpenDurationStats;
+  heatmap: number[][]; //the opens by the day of the week (0 is Sunday) and the hour of the day: heatmap[day][hour]
+  keys: KeyUsage[]; //the keys of the RelayTrigger events, the ones opening the door the most first
+  via: { [C in ConnectionTypes]: number }; //the RelayTrigger events opening the door (while it was closed) by connection type
+  anomalies: DoorAnomaly[]; //the last anomalies, the oldest first
+}
+
+interface DoorAnalyticsEvents {
+  anomaly: (anomaly: DoorAnomaly) => void;
+}
+
+interface DeviceStats {
+  from?: Date;
+  to?: Date;
+  opens: number;
+  cycles: number;
+  leftOpen: number;
+  openedAt?: Date; //the time of the last open, while the door is open
+  durations: { count: number; totalSecs: number; minSecs?: number; maxSecs?: number; buckets: number[] };
+  heatmap: number[][];
+  keys: Map<
+    string,
+    {
+      keyType: KeyTypes;
+      keyNr: number;
+      opens: number;
+      closes: number;
+      count: number;
+      lastUsedAt: Date;
+      hours: number[];
+    }
+  >;
+  via: { [C in ConnectionTypes]: number };
+  anomalies: DoorAnomaly[];
+}
+
+const emptyRow = (length: number) => Array.from({ length }, () => 0);
+
+export declare interface DoorAnalytics {
+  on<E extends keyof DoorAnalyticsEvents>(event: E, listener: DoorAnalyticsEvents[E]): this;
+  emit<E extends keyof DoorAnalyticsEvents>(event: E, ...args: Parameters<DoorAnalyticsEvents[E]>): boolean;
+}
+
+/**
+ * DoorAnalytics class computes the door usage statistics of one or more devices
+ * @param {Object} [options]
+ * @param {number} [options.minOpensForAnomalies=50] - the unusual hours are flagged once the device has opened this many times
+ * @param {number} [options.unusualHourShare=0.02] - an hour is unusual if less than this share of the opens happened in it
+ * @param {number} [options.minKeyUsesForAnomalies=10] - a key used at an hour it was never used at (+-1 hour) is flagged once it was used this many times
+ * @param {string[]} [options.watchedKeyTypes=['guest key']] - the key types checked for unusual uses
+ * @param {number[]} [options.openDurationBucketsSecs=[30, 60, 300, 900, 3600]] - the upper limits of the open duration histogram buckets
+ * @param {number} [options.maxAnomalies=100] - the number of the last anomalies kept per device
+ *
+ * @event anomaly - when an anomaly is flagged, with the anomaly as parameter
+ */
+export class DoorAnalytics extends EventEmitter {
+  private minOpensForAnomalies: number;
+  private unusualHourShare: number;
+  private minKeyUsesForAnomalies: number;
+  private watchedKeyTypes: KeyTypes[];
+  private bucketsSecs: number[];
+  private maxAnomalies: number;
+  private stats: Map<string, DeviceStats>;
+  private devices: Map<string, { device: RemootioDevice; listener: (...args: never[]) => void }>;
+
+  constructor(options?: DoorAnalyticsOptions) {
+    super();
+    this.minOpensForAnomalies = options?.minOpensForAnomalies ?? 50;
+    this.unusualHourShare = options?.unusualHourShare ?? 0.02;
+    this.minKeyUsesForAnomalies = options?.minKeyUsesForAnomalies ?? 10;
+    this.watchedKeyTypes = options?.watchedKeyTypes ?? ['guest key'];
+    this.bucketsSecs = (options?.openDurationBucketsSecs ?? [30, 60, 300, 900, 3600]).slice().sort((a, b) => a - b);
+    this.maxAnomalies = options?.maxAnomalies ?? 100;
+    this.stats = new Map();
+    this.devices = new Map();
+  }
+
+  /**
+   * Computes the statistics of the live events of a device
+   * @param {string} id - the id of the device in the summaries
+   * @param {RemootioDevice} device - the device
+   */
+  addDevice(id: string, device: RemootioDevice): void {
+    if (this.devices.has(id)) {
+      throw new Error('A device with id ' + id + ' is already added');
+    }
+    const listener = (_frame: ReceivedFrames, payload?: ReceivedEncryptedFrameContent, timestamp?: Date) => {
+      const record = payload != undefined ? createJournalRecord(id, payload, timestamp ?? new Date()) : undefined;
+      if (record != undefined) {
+        this.addRecord(record);
+      }
+    };
+    device.on('incomingmessage', listener);
+    this.devices.set(id, { device, listener });
+  }
+
+  /**
+   * Stops computing the statistics of a device (its statistics are kept)
+   * @param {string} id - the id of the device
+   * @returns {boolean} - true if the device was added
+   */
+  removeDevice(id: string): boolean {
+    const added = this.devices.get(id);
+    if (added == undefined) {
+      return false;
+    }
+    added.device.removeListener('incomingmessage', added.listener as (...args: unknown[]) => void);
+    this.devices.delete(id);
+    return true;
+  }
+
+  /**
+   * Adds recorded events, e.g. the records of the event journal, in the order they happened
+   * @param {Array} records - the records (the action responses and the other event types are skipped)
+   * @returns {Array} - the anomalies flagged
+   */
+  addRecords(records: JournalRecord[]): DoorAnomaly[] {
+    return records.reduce<DoorAnomaly[]>((anomalies, record) => anomalies.concat(this.addRecord(record)), []);
+  }
+
+  /**
+   * Adds an event
+   * @param {Object} record - the event as a record of the event journal (see createJournalRecord() in eventjournal.ts)
+   * @returns {Array} - the anomalies flagged
+   */
+  addRecord(record: JournalRecord): DoorAnomaly[] {
+    if (record.kind != 'event' || ['StateChange', 'RelayTrigger', 'LeftOpen'].indexOf(record.type) == -1) {
+      return [];
+    }
+    const stats = this.deviceStats(record.deviceId);
+    stats.from = stats.from ?? record.time;
+    stats.to = record.time;
+    //The anomalies are checked against the history before the event is counted
+    const anomalies = this.checkAnomalies(stats, record);
+    if (record.type == 'StateChange' && record.state == 'open' && stats.openedAt == undefined) {
+      stats.opens++;
+      stats.openedAt = record.time;
+      stats.heatmap[record.time.getDay()][record.time.getHours()]++;
+    } else if (record.type == 'StateChange' && record.state == 'closed' && stats.openedAt != undefined) {
+      stats.cycles++;
+      this.addOpenDuration(stats, (record.time.getTime() - stats.openedAt.getTime()) / 1000);
+      stats.openedAt = undefined;
+    } else if (record.type == 'LeftOpen') {
+      stats.leftOpen++;
+    } else if (record.type == 'RelayTrigger' && record.keyType != undefined && record.keyNr != undefined) {
+      const id = record.keyType + '/' + record.keyNr;
+      const key = stats.keys.get(id) ?? {
+        keyType: record.keyType,
+        keyNr: record.keyNr,
+        opens: 0,
+        closes: 0,
+        count: 0,
+        lastUsedAt: record.time,
+        hours: emptyRow(24)
+      };
+      //The state is the state of the gate when the relay was triggered: a closed gate is opened, an open gate is closed
+      if (record.state == 'closed') {
+        key.opens++;
+        if (record.via != undefined) {
+          stats.via[record.via]++;
+        }
+      } else if (record.state == 'open') {
+        key.closes++;
+      }
+      key.count++;
+      key.lastUsedAt = record.time;
+      key.hours[record.time.getHours()]++;
+      stats.keys.set(id, key);
+    }
+    anomalies.forEach((anomaly) => {
+      stats.anomalies.push(anomaly);
+      if (stats.anomalies.length > this.maxAnomalies) {
+        stats.anomalies.shift();
+      }
+      this.emit('anomaly', anomaly);
+    });
+    return anomalies;
+  }
+
+  /**
+   * Returns the summary of a device
+   * @param {string} deviceId - the id of the device
+   * @returns {Object} - the summary, it is empty if there are no events of the device
+   */
+  summary(deviceId: string): DoorUsageSummary {
+    const stats = this.deviceStats(deviceId);
+    const durations = stats.durations;
+    return {
+      deviceId,
+      from: stats.from?.toISOString(),
+      to: stats.to?.toISOString(),
+      opens: stats.opens,
+      cycles: stats.cycles,
+      leftOpen: stats.leftOpen,
+      openDuration: {
+        count: durations.count,
+        minSecs: durations.minSecs,
+        maxSecs: durations.maxSecs,
+        meanSecs: durations.count > 0 ? durations.totalSecs / durations.count : undefined,
+        histogram: durations.buckets.map((count, i) => ({
+          upToSecs: i < this.bucketsSecs.length ? this.bucketsSecs[i] : null,
+          count
+        }))
+      },
+      heatmap: stats.heatmap.map((row) => row.slice()),
+      keys: Array.from(stats.keys.values())
+        .sort((a, b) => b.opens - a.opens || b.count - a.count)
+        .map((key) => ({
+          keyType: key.keyType,
+          keyNr: key.keyNr,
+          opens: key.opens,
+          closes: key.closes,
+          count: key.count,
+          lastUsedAt: key.lastUsedAt.toISOString()
+        })),
+      via: { ...stats.via },
+      anomalies: stats.anomalies.slice()
+    };
+  }
+
+  /**
+   * Returns the summaries of all the devices with events (or added with addDevice())
+   */
+  summaries(): DoorUsageSummary[] {
+    const ids = Array.from(this.stats.keys());
+    Array.from(this.devices.keys()).forEach((id) => {
+      if (ids.indexOf(id) == -1) {
+        ids.push(id);
+      }
+    });
+    return ids.map((id) => this.summary(id));
+  }
+
+  /**
+   * Stops computing the statistics of all the devices
+   */
+  close(): void {
+    Array.from(this.devices.keys()).forEach((id) => this.removeDevice(id));
+  }
+
+  private deviceStats(deviceId: string): DeviceStats {
+    let stats = this.stats.get(deviceId);
+    if (stats == undefined) {
+      stats = {
+        opens: 0,
+        cycles: 0,
+        leftOpen: 0,
+        durations: { count: 0, totalSecs: 0, buckets: emptyRow(this.bucketsSecs.length + 1) },
+        heatmap: Array.from({ length: 7 }, () => emptyRow(24)),
+        keys: new Map(),
+        via: { bluetooth: 0, wifi: 0, internet: 0, autoopen: 0, unknown: 0, none: 0 },
+        anomalies: []
+      };
+      this.stats.set(deviceId, stats);
+    }
+    return stats;
+  }
+
+  private addOpenDuration(stats: DeviceStats, secs: number): void {
+    const durations = stats.durations;
+    durations.count++;
+    durations.totalSecs += secs;
+    durations.minSecs = durations.minSecs == undefined ? secs : Math.min(durations.minSecs, secs);
+    durations.maxSecs = durations.maxSecs == undefined ? secs : Math.max(durations.maxSecs, secs);
+    const bucket = this.bucketsSecs.findIndex((upToSecs) => secs <= upToSecs);
+    durations.buckets[bucket == -1 ? this.bucketsSecs.length : bucket]++;
+  }
+
+  private checkAnomalies(stats: DeviceStats, record: JournalRecord): DoorAnomaly[] {
+    const anomalies: DoorAnomaly[] = [];
+    const hour = record.time.getHours();
+    const anomaly = (type: DoorAnomalyType, message: string): DoorAnomaly => ({
+      deviceId: record.deviceId,
+      type,
+      time: record.time.toISOString(),
+      message,
+      keyNr: record.keyNr,
+      keyType: record.keyType
+    });
+    if (
+      record.type == 'StateChange' &&
+      record.state == 'open' &&
+      stats.openedAt == undefined &&
+      stats.opens >= this.minOpensForAnomalies
+    ) {
+      const opensInHour = stats.heatmap.reduce((sum, row) => sum + row[hour], 0);
+      if (opensInHour / stats.opens < this.unusualHourShare) {
+        anomalies.push(
+          anomaly('UNUSUAL_HOUR', 'The door was opened at an unusual hour (' + hour + ':00-' + hour + ':59)')
+        );
+      }
+    }
+    if (
+      record.type == 'RelayTrigger' &&
+      record.keyType != undefined &&
+      this.watchedKeyTypes.indexOf(record.keyType) != -1
+    ) {
+      const key = stats.keys.get(record.keyType + '/' + record.keyNr);
+      //The uses in the hour before and after count as usual too
+      const usesAround = (hours: number[]) => hours[(hour + 23) % 24] + hours[hour] + hours[(hour + 1) % 24];
+      if (key != undefined && key.count >= this.minKeyUsesForAnomalies && usesAround(key.hours) == 0) {
+        anomalies.push(
+          anomaly(
+            'UNUSUAL_KEY_USE',
+            'The ' +
+              record.keyType +
+              ' ' +
+              record.keyNr +
+              ' was used at an unusual hour (' +
+              hour +
+              ':00-' +
+              hour +
+              ':59)'
+          )
+        );
+      }
+    }
+    return anomalies;
+  }
+}
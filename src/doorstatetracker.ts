@@ -0,0 +1,214 @@
+import { EventEmitter } from './eventemitter';
+import { ReceivedEncryptedFrameContent, ReceivedFrames, SensorStates } from './frames';
+import { RemootioDevice } from './remootiodevice';
+
+/**
+ * DoorStateTracker class keeps track of what the gate or garage door connected to a Remootio device is doing right now.
+ * The Remootio device only reports if the gate is 'open' or 'closed' (or that there is 'no sensor'), the tracker infers the transitional states:
+ *  - 'opening' after the output is triggered (TRIGGER or OPEN action, RelayTrigger event) while the gate is closed
+ *  - 'closing' after the output is triggered (TRIGGER or CLOSE action, RelayTrigger event) while the gate is open
+ *  - 'obstructed' if no StateChange event arrives within travelTimeMs after the gate started opening or closing
+ *  - 'unknown' if the state is not known yet, or if there is no gate status sensor installed
+ * The target state ('open' or 'closed') is where the gate is heading to, as used by garage door integrations (e.g. HomeKit current/target state).
+ *
+ * *** Constructor ***
+ * @param {RemootioDevice} device - the device to track
+ * @param {Object} [options]
+ * @param {number} [options.travelTimeMs=30000] - the time the gate needs to open or close
+ * @param {number} [options.triggerDedupWindowMs=2000] - the response to a TRIGGER action and the RelayTrigger event it causes arrive
+ * close to each other, they are counted as one trigger if they arrive within this time
+ * @param {number} [options.apiKeyNr] - the keyNr of the API key used by the session of the device. Only the RelayTrigger events of this key
+ * are counted together with the responses, the triggers of the other keys (including other API keys) are never deduplicated.
+ * If it's not set, it is learned from the RelayTrigger event of the first API key that arrives together with a response
+ *
+ * *** Properties ***
+ * @property current - the tracked state: state, targetState, sensorState (the last state reported by the device), since (when the state was entered)
+ *
+ * *** Methods ***
+ * @method detach() - stops tracking the device
+ *
+ * *** Events ***
+ * @event doorstate - when the tracked state changes with the following two parameters
+ * @param {Object} current - the new tracked state (same as the current property)
+ * @param {string} previousState - the previous state
+ */
+
+export type DoorState = 'open' | 'closed' | 'opening' | 'closing' | 'obstructed' | 'unknown';
+
+export interface TrackedDoorState {
+  state: DoorState;
+  targetState?: 'open' | 'closed';
+  sensorState?: SensorStates;
+  since: Date;
+}
+
+export interface DoorStateTrackerOptions {
+  travelTimeMs?: number;
+  triggerDedupWindowMs?: number;
+  apiKeyNr?: number;
+}
+
+export interface DoorStateTrackerEvents {
+  doorstate: (current: TrackedDoorState, previousState: DoorState) => void;
+}
+
+type TriggerSource = 'response' | 'event';
+
+export declare interface DoorStateTracker {
+  on<E extends keyof DoorStateTrackerEvents>(event: E, listener: DoorStateTrackerEvents[E]): this;
+  emit<E extends keyof DoorStateTrackerEvents>(event: E, ...args: Parameters<DoorStateTrackerEvents[E]>): boolean;
+}
+
+export class DoorStateTracker extends EventEmitter {
+  private device: RemootioDevice;
+  private travelTimeMs: number;
+  private triggerDedupWindowMs: number;
+  private tracked: TrackedDoorState;
+  private travelTimeoutHandle?: ReturnType<typeof setTimeout>;
+  private apiKeyNr?: number;
+  private lastTrigger?: { source: TriggerSource; at: number; keyNr?: number };
+  private incomingMessageListener: (frame: ReceivedFrames, decryptedPayload?: ReceivedEncryptedFrameContent) => void;
+
+  /**
+   * Constructor to create a DoorStateTracker instance attached to a RemootioDevice
+   * @param {RemootioDevice} device - the device to track
+   * @param {Object} [options] - travelTimeMs and triggerDedupWindowMs, see the class description
+   */
+  constructor(device: RemootioDevice, options?: DoorStateTrackerOptions) {
+    super();
+    this.device = device;
+    this.travelTimeMs = options?.travelTimeMs ?? 30000;
+    this.triggerDedupWindowMs = options?.triggerDedupWindowMs ?? 2000;
+    this.apiKeyNr = options?.apiKeyNr;
+    this.tracked = { state: 'unknown', since: new Date() };
+    this.travelTimeoutHandle = undefined;
+    this.lastTrigger = undefined;
+    this.incomingMessageListener = (_frame, decryptedPayload) => {
+      if (decryptedPayload != undefined) {
+        this.handlePayload(decryptedPayload);
+      }
+    };
+    this.device.on('incomingmessage', this.incomingMessageListener);
+  }
+
+  /**
+   * Stops tracking the device
+   */
+  detach(): void {
+    this.device.removeListener('incomingmessage', this.incomingMessageListener);
+    this.clearTravelTimeout();
+  }
+
+  //Get method for the current property
+  get current(): TrackedDoorState {
+    return { ...this.tracked };
+  }
+
+  private handlePayload(payload: ReceivedEncryptedFrameContent): void {
+    if ('response' in payload) {
+      const response = payload.response;
+      if (response.state == undefined) {
+        return;
+      }
+      this.tracked.sensorState = response.state;
+      if (response.relayTriggered && response.type != 'TRIGGER_SECONDARY') {
+        this.handleTrigger('response', response.state, true, undefined);
+      } else if (this.tracked.state != 'opening' && this.tracked.state != 'closing') {
+        //The responses confirm the state reported by the sensor unless the gate is moving
+        this.settle(response.state);
+      }
+    } else if ('event' in payload) {
+      const event = payload.event;
+      this.tracked.sensorState = event.state;
+      if (event.type == 'StateChange') {
+        this.settle(event.state);
+      } else if (event.type == 'RelayTrigger') {
+        const bySessionKey =
+          event.data.keyType == 'api key' && (this.apiKeyNr == undefined || event.data.keyNr == this.apiKeyNr);
+        this.handleTrigger('event', event.state, bySessionKey, event.data.keyNr);
+      } else if (event.type == 'SensorDisabled') {
+        this.settle('no sensor');
+      } else if (this.tracked.state == 'unknown' || this.tracked.state == 'obstructed') {
+        this.settle(event.state);
+      }
+    }
+  }
+
+  /**
+   * The output was triggered: the gate starts moving to the other state (or reverses if it's already moving)
+   * @param {string} source - the trigger is known from an action response or from a RelayTrigger event
+   * @param {string} sensorState - the state reported by the sensor when the output was triggered
+   * @param {boolean} bySession - the trigger was caused by an action of this session: an action response, or a RelayTrigger event
+   * of the API key of the session (only these are deduplicated)
+   * @param {number} [keyNr] - the keyNr of the RelayTrigger event
+   */
+  private handleTrigger(source: TriggerSource, sensorState: SensorStates, bySession: boolean, keyNr?: number): void {
+    const now = Date.now();
+    const lastTrigger = this.lastTrigger;
+    if (bySession) {
+      this.lastTrigger = { source, at: now, keyNr };
+    }
+    if (
+      bySession &&
+      lastTrigger != undefined &&
+      lastTrigger.source != source &&
+      now - lastTrigger.at < this.triggerDedupWindowMs
+    ) {
+      //The response and the event of the same trigger, the event tells the keyNr of the API key of the session
+      this.apiKeyNr = keyNr ?? lastTrigger.keyNr;
+      this.lastTrigger = undefined;
+      return;
+    }
+    if (sensorState == 'no sensor') {
+      this.settle(sensorState);
+      return;
+    }
+    let targetState: 'open' | 'closed';
+    if (this.tracked.state == 'opening') {
+      targetState = 'closed';
+    } else if (this.tracked.state == 'closing') {
+      targetState = 'open';
+    } else {
+      targetState = sensorState == 'closed' ? 'open' : 'closed';
+    }
+    this.clearTravelTimeout();
+    this.update(targetState == 'open' ? 'opening' : 'closing', targetState);
+    this.travelTimeoutHandle = setTimeout(() => {
+      this.travelTimeoutHandle = undefined;
+      this.update('obstructed', this.tracked.targetState);
+    }, this.travelTimeMs);
+  }
+
+  /**
+   * The sensor reported a state, the gate is not moving (as far as we know)
+   */
+  private settle(sensorState: SensorStates): void {
+    this.clearTravelTimeout();
+    if (sensorState == 'no sensor') {
+      this.update('unknown', undefined);
+    } else {
+      this.update(sensorState, sensorState);
+    }
+  }
+
+  private update(state: DoorState, targetState?: 'open' | 'closed'): void {
+    const previousState = this.tracked.state;
+    if (previousState == state && this.tracked.targetState == targetState) {
+      return;
+    }
+    this.tracked = {
+      state,
+      targetState,
+      sensorState: this.tracked.sensorState,
+      since: new Date()
+    };
+    this.emit('doorstate', this.current, previousState);
+  }
+
+  private clearTravelTimeout(): void {
+    if (this.travelTimeoutHandle != undefined) {
+      clearTimeout(this.travelTimeoutHandle);
+      this.travelTimeoutHandle = undefined;
+    }
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * This module contains the errors used by the RemootioDevice class to reject the promises returned by its action methods
+ * (sendQuery, sendTrigger, sendOpen, sendClose, sendRestart, hold*OutputActive and so on) and its connection lifecycle methods
+ * (authenticate, connectAndAuthenticate), and the errors emitted by its error, protocolerror and servererror events.
+ * Every error has a stable code to branch on (see RemootioErrorCode), the IP address of the device and the frame that caused it (if any).
+ */
+
+import { PolicyRule, PolicyViolation } from './actionpolicy';
+import { ConnectionState } from './connectionstate';
+import { ActionTypes, ErrorFrame, RemootioActionResponse } from './frames';
+
+export type RemootioErrorCode =
+  | 'UNEXPECTED_ERROR' //an unexpected exception, it is available in the cause property
+  | 'CONNECTION_ERROR'
+  | 'PING_TIMEOUT'
+  | 'NOT_AUTHENTICATED'
+  | 'INVALID_STATE'
+  | 'AUTHENTICATION_FAILED'
+  | 'DECRYPTION_FAILED'
+  | 'PROTOCOL_ERROR'
+  | 'SERVER_ERROR'
+  | 'ACTION_TIMEOUT'
+  | 'ACTION_EXPIRED'
+  | 'POLICY_VIOLATION'
+  | 'ACTION_THROTTLED'
+  | 'ACTION_FAILED';
+
+/**
+ * The details of an error: the IP address of the Remootio device, the frame (or decrypted payload) that caused the error,
+ * and the error that caused this error
+ */
+export interface RemootioErrorDetails {
+  deviceIp?: string;
+  frame?: unknown;
+  cause?: unknown;
+}
+
+/**
+ * Base class of all errors produced by the API client
+ */
+export class RemootioError extends Error {
+  public readonly code: RemootioErrorCode;
+  public readonly deviceIp?: string;
+  public readonly frame?: unknown;
+  public readonly cause?: unknown;
+
+  constructor(message: string, code: RemootioErrorCode = 'UNEXPECTED_ERROR', details?: RemootioErrorDetails) {
+    super(message);
+    this.name = 'RemootioError';
+    Object.setPrototypeOf(this, new.target.prototype); //Needed for instanceof checks to work with the ES5 target
+    this.code = code;
+    this.deviceIp = details?.deviceIp;
+    this.frame = details?.frame;
+    this.cause = details?.cause;
+  }
+}
+
+/**
+ * The action could not be sent because the websocket connection is not established, or the connection was lost before the response to the action arrived
+ */
+export class ConnectionError extends RemootioError {
+  constructor(message: string, details?: RemootioErrorDetails, code: RemootioErrorCode = 'CONNECTION_ERROR') {
+    super(message, code, details);
+    this.name = 'ConnectionError';
+  }
+}
+
+/**
+ * No frame arrived in reply to a PING frame in time, the connection is assumed to be broken and it is closed
+ */
+export class PingTimeoutError extends ConnectionError {
+  public readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, details?: RemootioErrorDetails) {
+    super('No response for PING message in ' + timeoutMs + ' ms. Connection is broken.', details, 'PING_TIMEOUT');
+    this.name = 'PingTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The action could not be sent because the session is not authenticated (call authenticate() and wait for the 'authenticated' event first)
+ */
+export class NotAuthenticatedError extends RemootioError {
+  constructor(message = 'Authenticate session first to send this message', details?: RemootioErrorDetails) {
+    super(message, 'NOT_AUTHENTICATED', details);
+    this.name = 'NotAuthenticatedError';
+  }
+}
+
+/**
+ * The requested operation is not allowed in the current connection state (e.g. calling authenticate() when the session is already authenticated)
+ */
+export class InvalidStateError extends RemootioError {
+  public readonly state: ConnectionState;
+
+  constructor(operation: string, state: ConnectionState, details?: RemootioErrorDetails) {
+    super('Cannot ' + operation + ' in the ' + state + ' state', 'INVALID_STATE', details);
+    this.name = 'InvalidStateError';
+    this.state = state;
+  }
+}
+
+/**
+ * The authentication flow failed. If the Remootio device sent an ERROR frame (e.g. 'authentication error' or 'authentication timeout')
+ * its errorMessage is available in the errorMessage property
+ */
+export class AuthenticationError extends RemootioError {
+  public readonly errorMessage?: ErrorFrame['errorMessage'];
+
+  constructor(message: string, errorMessage?: ErrorFrame['errorMessage'], details?: RemootioErrorDetails) {
+    super(message, 'AUTHENTICATION_FAILED', details);
+    this.name = 'AuthenticationError';
+    this.errorMessage = errorMessage;
+  }
+}
+
+/**
+ * An ENCRYPTED frame could not be decrypted: its MAC is wrong (e.g. the API keys are wrong) or its payload is invalid.
+ * The frame is available in the frame property
+ */
+export class DecryptionError extends RemootioError {
+  constructor(message: string, details?: RemootioErrorDetails) {
+    super(message, 'DECRYPTION_FAILED', details);
+    this.name = 'DecryptionError';
+  }
+}
+
+/**
+ * An invalid frame was received (it is not valid JSON, or it doesn't match the frame types of the API, see framevalidation.ts), it was dropped.
+ * The frame (or its decrypted payload) is available in the frame property
+ */
+export class ProtocolError extends RemootioError {
+  constructor(message: string, details?: RemootioErrorDetails, code: RemootioErrorCode = 'PROTOCOL_ERROR') {
+    super(message, code, details);
+    this.name = 'ProtocolError';
+  }
+}
+
+/**
+ * The Remootio device sent an ERROR frame, its errorMessage is available in the errorMessage property
+ */
+export class ServerError extends ProtocolError {
+  public readonly errorMessage: ErrorFrame['errorMessage'];
+
+  constructor(errorFrame: ErrorFrame, details?: RemootioErrorDetails) {
+    super(
+      'The Remootio device sent an ERROR frame: ' + errorFrame.errorMessage,
+      { ...details, frame: details?.frame ?? errorFrame },
+      'SERVER_ERROR'
+    );
+    this.name = 'ServerError';
+    this.errorMessage = errorFrame.errorMessage;
+  }
+}
+
+/**
+ * No response arrived to the action within the configured action timeout
+ */
+export class ActionTimeoutError extends RemootioError {
+  public readonly actionType: ActionTypes;
+  public readonly actionId: number;
+
+  constructor(actionType: ActionTypes, actionId: number, timeoutMs: number, details?: RemootioErrorDetails) {
+    super(
+      'No response for ' + actionType + ' action (id ' + actionId + ') in ' + timeoutMs + ' ms',
+      'ACTION_TIMEOUT',
+      details
+    );
+    this.name = 'ActionTimeoutError';
+    this.actionType = actionType;
+    this.actionId = actionId;
+  }
+}
+
+/**
+ * The action was queued because the session was not authenticated (see the offlineQueue option), and the session was not
+ * authenticated again within the time to live of the action, so it was dropped without sending it
+ */
+export class ActionExpiredError extends RemootioError {
+  public readonly actionType: ActionTypes;
+  public readonly ttlMs: number;
+
+  constructor(actionType: ActionTypes, ttlMs: number, details?: RemootioErrorDetails) {
+    super(
+      'The ' + actionType + ' action was dropped, the session was not authenticated within ' + ttlMs + ' ms',
+      'ACTION_EXPIRED',
+      details
+    );
+    this.name = 'ActionExpiredError';
+    this.actionType = actionType;
+    this.ttlMs = ttlMs;
+  }
+}
+
+/**
+ * The action was refused by the action policy (see actionpolicy.ts) and it was not sent. The rule that was violated is available in the rule property
+ */
+export class PolicyViolationError extends RemootioError {
+  public readonly actionType: ActionTypes;
+  public readonly rule: PolicyRule;
+
+  constructor(actionType: ActionTypes, violation: PolicyViolation, details?: RemootioErrorDetails) {
+    super(
+      'The ' + actionType + ' action was refused by the action policy: ' + violation.message,
+      'POLICY_VIOLATION',
+      details
+    );
+    this.name = 'PolicyViolationError';
+    this.actionType = actionType;
+    this.rule = violation.rule;
+  }
+}
+
+/**
+ * The same action was sent too recently (see the actionThrottle option), it was not sent. It may be sent again after retryAfterMs milliseconds
+ */
+export class ActionThrottledError extends RemootioError {
+  public readonly actionType: ActionTypes;
+  public readonly retryAfterMs: number;
+
+  constructor(actionType: ActionTypes, retryAfterMs: number, details?: RemootioErrorDetails) {
+    super(
+      'The ' + actionType + ' action was sent too recently, it may be sent again in ' + retryAfterMs + ' ms',
+      'ACTION_THROTTLED',
+      details
+    );
+    this.name = 'ActionThrottledError';
+    this.actionType = actionType;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * The Remootio device responded to the action with success: false. The response is available in the response (and frame) property
+ */
+export class ActionFailedError extends RemootioError {
+  public readonly actionType: ActionTypes;
+  public readonly errorCode: string;
+  public readonly response: RemootioActionResponse;
+
+  constructor(response: RemootioActionResponse, details?: RemootioErrorDetails) {
+    super(
+      response.response.type +
+        ' action (id ' +
+        response.response.id +
+        ') failed' +
+        (response.response.errorCode ? ': ' + response.response.errorCode : ''),
+      'ACTION_FAILED',
+      { ...details, frame: details?.frame ?? response }
+    );
+    this.name = 'ActionFailedError';
+    this.actionType = response.response.type;
+    this.errorCode = response.response.errorCode;
+    this.response = response;
+  }
+}
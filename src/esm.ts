@@ -0,0 +1,108 @@
+/**
+ * The entry point of the ES module build (lib/esm, the module field of package.json) used by bundlers, its typings are in lib/esm/esm.d.ts.
+ * The RemootioDevice class is the default export, like the export of the CommonJS build (index.ts).
+ * The modules that work in browsers and React Native are re-exported here with named exports. The integrations and the modules that need
+ * Node.js (simulator, HTTP gateway, MQTT bridge, webhooks, the file and SQLite stores, CLI) are only available as CommonJS deep paths (lib/<module>).
+ */
+
+export { RemootioDevice as default, RemootioDevice } from './remootiodevice';
+export * from './errors';
+export { ConnectionState } from './connectionstate';
+export { ExponentialBackoffReconnectPolicy, ReconnectPolicy } from './reconnectpolicy';
+export { ActionOptions, defaultExcludedActions, OfflineQueueOptions } from './actionqueue';
+export {
+  ActionPolicy,
+  ActionPolicyContext,
+  ActionPolicyOptions,
+  ActionRequest,
+  PolicyRule,
+  PolicyViolation,
+  RateLimit,
+  SafetyPolicy,
+  SafetyPolicyOptions,
+  TimeWindow
+} from './actionpolicy';
+export {
+  ActionThrottleOptions,
+  ThrottleActionOptions,
+  ThrottleDecision,
+  ThrottleRule,
+  ThrottleState
+} from './actionthrottle';
+export {
+  DoorState,
+  DoorStateTracker,
+  DoorStateTrackerEvents,
+  DoorStateTrackerOptions,
+  TrackedDoorState
+} from './doorstatetracker';
+export {
+  RemootioFleet,
+  RemootioFleetAction,
+  RemootioFleetBulkActionResult,
+  RemootioFleetDeviceConfig,
+  RemootioFleetDeviceHealth,
+  RemootioFleetEvents
+} from './fleet';
+export {
+  KeyChange,
+  KeyEntry,
+  KeyHolder,
+  KeyPermission,
+  KeyPermissions,
+  KeyRegistry,
+  KeyRegistryOptions,
+  KeyRegistryStore
+} from './keyregistry';
+export {
+  applyJournalQuery,
+  createJournalRecord,
+  EventJournal,
+  EventJournalOptions,
+  exportJournalRecords,
+  JournalExportFormat,
+  JournalQuery,
+  JournalRecord,
+  journalRecordFromJson,
+  JournalRecordKind,
+  journalRecordToJson,
+  JournalStore,
+  matchesJournalQuery,
+  MemoryJournalStore
+} from './eventjournal';
+export {
+  DoorAnalytics,
+  DoorAnalyticsOptions,
+  DoorAnomaly,
+  DoorAnomalyType,
+  DoorUsageSummary,
+  KeyUsage,
+  OpenDurationStats
+} from './dooranalytics';
+export {
+  Alert,
+  AlertEngine,
+  AlertEngineOptions,
+  AlertNotification,
+  AlertResolution,
+  AlertRule,
+  AlertRuleType,
+  AlertSeverity,
+  AlertSink,
+  ConsoleAlertSink,
+  EscalationStep
+} from './alertengine';
+export { CryptoProvider } from './cryptoprovider';
+export { WebCryptoProvider } from './webcryptoprovider';
+export { createBrowserTransport, Transport, TransportFactory, TransportHandlers } from './transport';
+export {
+  createRedactingLogger,
+  defaultRedactedFields,
+  fromPinoStyleLogger,
+  fromWinstonStyleLogger,
+  LogContext,
+  Logger,
+  noopLogger,
+  redactLogContext,
+  withLogContext
+} from './logger';
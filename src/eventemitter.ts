@@ -0,0 +1,206 @@
+/**
+ * A minimal EventEmitter with the same behaviour as the EventEmitter of the events node module (for the methods it implements).
+ * The RemootioDevice class extends it instead of require('events').EventEmitter so it works in browsers and React Native
+ * without a polyfill, and its typings don't depend on the node types.
+ * Like in node, emitting an 'error' event without an error listener throws the error, the newListener event is emitted before
+ * a listener is added and the removeListener event after a listener is removed, and a warning is logged if an event gets
+ * more listeners than the maximum (see setMaxListeners()).
+ */
+
+//Declared with the method syntax so its parameters are checked bivariantly: a listener of any arguments can be added,
+//and the subclasses can narrow the listeners of their events (see the RemootioDevice interface)
+type Listener = { listener(...args: unknown[]): void }['listener'];
+
+interface RegisteredListener {
+  listener: Listener;
+  once: boolean;
+}
+
+export class EventEmitter {
+  //The maximum number of listeners of an event for the new emitters, more listeners are probably a leak (0 means no limit)
+  static defaultMaxListeners = 10;
+
+  private registeredListeners: Map<string, RegisteredListener[]>;
+  private maxListeners?: number;
+  private warnedEvents: Set<string>; //the events the memory leak warning was logged for
+
+  constructor() {
+    this.registeredListeners = new Map();
+    this.warnedEvents = new Set();
+  }
+
+  on(event: string, listener: Listener): this {
+    return this.addRegisteredListener(event, { listener, once: false }, false);
+  }
+
+  addListener(event: string, listener: Listener): this {
+    return this.on(event, listener);
+  }
+
+  /**
+   * Adds a listener that is removed after it is called for the first time
+   */
+  once(event: string, listener: Listener): this {
+    return this.addRegisteredListener(event, { listener, once: true }, false);
+  }
+
+  /**
+   * Adds a listener to the beginning of the listeners of the event
+   */
+  prependListener(event: string, listener: Listener): this {
+    return this.addRegisteredListener(event, { listener, once: false }, true);
+  }
+
+  prependOnceListener(event: string, listener: Listener): this {
+    return this.addRegisteredListener(event, { listener, once: true }, true);
+  }
+
+  removeListener(event: string, listener: Listener): this {
+    const registeredListeners = this.registeredListeners.get(event) ?? [];
+    //Only the listener added last is removed if it was added more than once (the same way as in node)
+    for (let i = registeredListeners.length - 1; i >= 0; i--) {
+      if (registeredListeners[i].listener === listener) {
+        return this.removeRegisteredListener(event, registeredListeners[i]);
+      }
+    }
+    return this;
+  }
+
+  off(event: string, listener: Listener): this {
+    return this.removeListener(event, listener);
+  }
+
+  /**
+   * Removes all the listeners of the event, or all the listeners of all events if no event is given
+   */
+  removeAllListeners(event?: string): this {
+    if (!this.registeredListeners.has('removeListener')) {
+      if (event == undefined) {
+        this.registeredListeners.clear();
+      } else {
+        this.registeredListeners.delete(event);
+      }
+      return this;
+    }
+    //The removeListener event is emitted for every listener, the removeListener listeners are removed last (the same way as in node)
+    const events =
+      event != undefined
+        ? [event]
+        : this.eventNames()
+            .filter((eventName) => eventName != 'removeListener')
+            .concat('removeListener');
+    for (const eventName of events) {
+      const registeredListeners = this.registeredListeners.get(eventName) ?? [];
+      for (const registeredListener of registeredListeners.slice().reverse()) {
+        this.removeRegisteredListener(eventName, registeredListener);
+      }
+    }
+    return this;
+  }
+
+  emit(event: string, ...args: unknown[]): boolean {
+    const registeredListeners = this.registeredListeners.get(event);
+    if (registeredListeners == undefined) {
+      if (event == 'error') {
+        throw args[0] instanceof Error ? args[0] : new Error('Unhandled error. (' + args[0] + ')');
+      }
+      return false;
+    }
+    //The listeners added or removed by a listener don't affect the current emit
+    for (const registeredListener of registeredListeners.slice()) {
+      if (registeredListener.once) {
+        this.removeRegisteredListener(event, registeredListener);
+      }
+      registeredListener.listener.apply(this, args);
+    }
+    return true;
+  }
+
+  listenerCount(event: string): number {
+    return this.registeredListeners.get(event)?.length ?? 0;
+  }
+
+  listeners(event: string): Listener[] {
+    return (this.registeredListeners.get(event) ?? []).map((registeredListener) => registeredListener.listener);
+  }
+
+  /**
+   * Returns the listeners of the event, the once listeners wrapped in a function that removes them when it is called
+   * (the original listener is in the listener property of the wrapper)
+   */
+  rawListeners(event: string): Listener[] {
+    return (this.registeredListeners.get(event) ?? []).map((registeredListener) => {
+      if (!registeredListener.once) {
+        return registeredListener.listener;
+      }
+      const wrapper = (...args: unknown[]) => {
+        this.removeRegisteredListener(event, registeredListener);
+        registeredListener.listener.apply(this, args);
+      };
+      return Object.assign(wrapper, { listener: registeredListener.listener });
+    });
+  }
+
+  eventNames(): string[] {
+    return Array.from(this.registeredListeners.keys());
+  }
+
+  /**
+   * Sets the maximum number of listeners of an event, a warning is logged if an event gets more (0 means no limit)
+   */
+  setMaxListeners(n: number): this {
+    if (!(n >= 0)) {
+      throw new RangeError('The value of "n" is out of range. It must be a non-negative number. Received ' + n);
+    }
+    this.maxListeners = n;
+    return this;
+  }
+
+  getMaxListeners(): number {
+    return this.maxListeners ?? EventEmitter.defaultMaxListeners;
+  }
+
+  private addRegisteredListener(event: string, registeredListener: RegisteredListener, prepend: boolean): this {
+    //Emitted before the listener is added, so a newListener listener can prepend listeners before it
+    if (this.registeredListeners.has('newListener')) {
+      this.emit('newListener', event, registeredListener.listener);
+    }
+    const registeredListeners = this.registeredListeners.get(event);
+    if (registeredListeners == undefined) {
+      this.registeredListeners.set(event, [registeredListener]);
+      return this;
+    }
+    if (prepend) {
+      registeredListeners.unshift(registeredListener);
+    } else {
+      registeredListeners.push(registeredListener);
+    }
+    const maxListeners = this.getMaxListeners();
+    if (maxListeners > 0 && registeredListeners.length > maxListeners && !this.warnedEvents.has(event)) {
+      this.warnedEvents.add(event);
+      console.warn(
+        'Possible EventEmitter memory leak detected. ' +
+          registeredListeners.length +
+          ' ' +
+          event +
+          ' listeners added. Use emitter.setMaxListeners() to increase limit'
+      );
+    }
+    return this;
+  }
+
+  private removeRegisteredListener(event: string, registeredListener: RegisteredListener): this {
+    const registeredListeners = this.registeredListeners.get(event);
+    const index = registeredListeners?.indexOf(registeredListener) ?? -1;
+    if (registeredListeners != undefined && index != -1) {
+      registeredListeners.splice(index, 1);
+      if (registeredListeners.length == 0) {
+        this.registeredListeners.delete(event);
+      }
+      if (this.registeredListeners.has('removeListener')) {
+        this.emit('removeListener', event, registeredListener.listener);
+      }
+    }
+    return this;
+  }
+}
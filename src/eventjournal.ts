@@ -0,0 +1,396 @@
+import { RemootioDevice } from './remootiodevice';
+import {
+  ConnectionTypes,
+  EventTypes,
+  KeyTypes,
+  ReceivedEncryptedFrameContent,
+  ReceivedFrames,
+  RemootioActionResponse,
+  SensorStates
+} from './frames';
+import { Logger, noopLogger } from './logger';
+
+/**
+ * This module records the decrypted events and action responses of RemootioDevice instances in a journal that can be queried
+ * (e.g. who opened the gate last night) and exported to CSV or NDJSON.
+ * The records are kept by a JournalStore: MemoryJournalStore below, NdjsonJournalStore (an append-only file with rotation, see
+ * ndjsonjournalstore.ts) or SqliteJournalStore (see sqlitejournalstore.ts), or your own implementation of the JournalStore interface.
+ */
+
+export type JournalRecordKind = 'event' | 'response';
+
+/**
+ * A record of the journal. The key fields of the RelayTrigger, SecondaryRelayTrigger, Connected and KeyManagement events and the fields
+ * of the action responses have their own properties (so they can be queried), the rest of the event data is in the data property
+ */
+export interface JournalRecord {
+  deviceId: string;
+  time: Date; //the wall-clock time of the event (calculated from t100ms, see the timestamp of the incomingmessage event) or the time it was received
+  kind: JournalRecordKind;
+  type: string; //the type of the event, or the type of the action the response is for
+  cnt?: number; //the event counter (events only)
+  t100ms: number;
+  state: SensorStates;
+  keyNr?: number;
+  keyType?: KeyTypes;
+  via?: ConnectionTypes;
+  actionId?: number; //responses only
+  success?: boolean; //responses only
+  errorCode?: string; //responses only
+  data?: { [field: string]: unknown }; //the other fields of the event data, e.g. timeOpen100ms of LeftOpen
+}
+
+/**
+ * A query of the journal, every condition set must match. The array conditions match any of the values
+ */
+export interface JournalQuery {
+  deviceId?: string | string[];
+  from?: Date; //inclusive
+  to?: Date; //exclusive
+  kind?: JournalRecordKind;
+  type?: string | string[];
+  keyNr?: number;
+  keyType?: KeyTypes | KeyTypes[];
+  via?: ConnectionTypes | ConnectionTypes[];
+  order?: 'asc' | 'desc'; //by time, 'asc' by default
+  limit?: number; //the maximum number of records returned (the first ones in the order)
+}
+
+/**
+ * The storage of the journal
+ */
+export interface JournalStore {
+  /**
+   * Stores a record. The records are appended one by one in the order they were received
+   * @param {Object} record - the record
+   */
+  append(record: JournalRecord): Promise<void>;
+  /**
+   * Returns the records matching the query
+   * @param {Object} query - the query
+   */
+  query(query: JournalQuery): Promise<JournalRecord[]>;
+  /**
+   * Releases the resources of the store, called by EventJournal.close()
+   */
+  close(): Promise<void>;
+}
+
+export interface EventJournalOptions {
+  recordResponses?: boolean; //the action responses are recorded too (true by default)
+  logger?: Logger;
+}
+
+export type JournalExportFormat = 'csv' | 'ndjson';
+
+const csvColumns: (keyof JournalRecord)[] = [
+  'deviceId',
+  'time',
+  'kind',
+  'type',
+  'cnt',
+  't100ms',
+  'state',
+  'keyNr',
+  'keyType',
+  'via',
+  'actionId',
+  'success',
+  'errorCode',
+  'data'
+];
+
+const matchesOneOf = <T>(condition: T | T[] | undefined, value: T | undefined) =>
+  condition == undefined || (Array.isArray(condition) ? condition.indexOf(value as T) != -1 : condition === value);
+
+/**
+ * Checks if a record matches the conditions of a query (the order and limit are not applied)
+ * @param {Object} record - the record
+ * @param {Object} query - the query
+ */
+export function matchesJournalQuery(record: JournalRecord, query: JournalQuery): boolean {
+  return (
+    matchesOneOf(query.deviceId, record.deviceId) &&
+    (query.from == undefined || record.time.getTime() >= query.from.getTime()) &&
+    (query.to == undefined || record.time.getTime() < query.to.getTime()) &&
+    matchesOneOf(query.kind, record.kind) &&
+    matchesOneOf(query.type, record.type) &&
+    matchesOneOf(query.keyNr, record.keyNr) &&
+    matchesOneOf(query.keyType, record.keyType) &&
+    matchesOneOf(query.via, record.via)
+  );
+}
+
+/**
+ * Runs a query on records in the order they were appended: filters, orders and limits them
+ * @param {Array} records - the records in the order they were appended
+ * @param {Object} query - the query
+ */
+export function applyJournalQuery(records: JournalRecord[], query: JournalQuery): JournalRecord[] {
+  //The records are appended in the order they are received, the sort keeps that order for the same time
+  const matching = records
+    .filter((record) => matchesJournalQuery(record, query))
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+  if (query.order == 'desc') {
+    matching.reverse();
+  }
+  return query.limit != undefined ? matching.slice(0, query.limit) : matching;
+}
+
+/**
+ * Converts a record to a JSON object (the time is an ISO 8601 string, the missing fields are left out)
+ * @param {Object} record - the record
+ */
+export function journalRecordToJson(record: JournalRecord): { [field: string]: unknown } {
+  return JSON.parse(JSON.stringify(record));
+}
+
+/**
+ * Converts a JSON object created by journalRecordToJson() back to a record
+ * @param {Object} json - the JSON object
+ */
+export function journalRecordFromJson(json: { [field: string]: unknown }): JournalRecord {
+  return { ...((json as unknown) as JournalRecord), time: new Date(json.time as string) };
+}
+
+/**
+ * Exports records as CSV (with a header line) or NDJSON (a JSON object per line)
+ * @param {Array} records - the records
+ * @param {string} format - 'csv' or 'ndjson'
+ */
+export function exportJournalRecords(records: JournalRecord[], format: JournalExportFormat): string {
+  if (format == 'ndjson') {
+    return records.map((record) => JSON.stringify(journalRecordToJson(record)) + '\n').join('');
+  }
+  const csvValue = (value: unknown) => {
+    const text =
+      value == undefined
+        ? ''
+        : value instanceof Date
+        ? value.toISOString()
+        : typeof value == 'object'
+        ? JSON.stringify(value)
+        : String(value);
+    return /[",\r\n]/.test(text) ? '"' + text.replace(/"/g, '""') + '"' : text;
+  };
+  return [csvColumns.join(',')]
+    .concat(records.map((record) => csvColumns.map((column) => csvValue(record[column])).join(',')))
+    .map((line) => line + '\r\n')
+    .join('');
+}
+
+/**
+ * Creates the record of a decrypted event
+ * @param {string} deviceId - the id of the device
+ * @param {Object} event - the event
+ * @param {Date} time - the wall-clock time of the event
+ */
+function eventRecord(deviceId: string, event: EventTypes['event'], time: Date): JournalRecord {
+  const record: JournalRecord = {
+    deviceId,
+    time,
+    kind: 'event',
+    type: event.type,
+    cnt: event.cnt,
+    t100ms: event.t100ms,
+    state: event.state
+  };
+  if ('data' in event) {
+    const { keyNr, keyType, via, ...rest } = event.data as {
+      keyNr?: number;
+      keyType?: KeyTypes;
+      via?: ConnectionTypes;
+      [field: string]: unknown;
+    };
+    //The missing fields are left out, like in the records read back from the stores
+    if (keyNr != undefined) {
+      record.keyNr = keyNr;
+    }
+    if (keyType != undefined) {
+      record.keyType = keyType;
+    }
+    if (via != undefined) {
+      record.via = via;
+    }
+    if (Object.keys(rest).length > 0) {
+      record.data = rest;
+    }
+  }
+  return record;
+}
+
+/**
+ * Creates the record of an action response
+ * @param {string} deviceId - the id of the device
+ * @param {Object} response - the action response
+ * @param {Date} time - the wall-clock time of the response
+ */
+function responseRecord(deviceId: string, response: RemootioActionResponse['response'], time: Date): JournalRecord {
+  return {
+    deviceId,
+    time,
+    kind: 'response',
+    type: response.type,
+    t100ms: response.t100ms,
+    state: response.state,
+    actionId: response.id,
+    success: response.success,
+    errorCode: response.errorCode
+  };
+}
+
+/**
+ * Creates the record of a decrypted payload, if it's an event or an action response
+ * @param {string} deviceId - the id of the device
+ * @param {Object} payload - the decrypted payload (see the incomingmessage event of RemootioDevice)
+ * @param {Date} time - the wall-clock time of the payload
+ * @returns {Object|undefined} - the record, or undefined for the other payloads (e.g. the CHALLENGE of the authentication)
+ */
+export function createJournalRecord(
+  deviceId: string,
+  payload: ReceivedEncryptedFrameContent,
+  time: Date
+): JournalRecord | undefined {
+  if ('event' in payload) {
+    return eventRecord(deviceId, payload.event, time);
+  }
+  if ('response' in payload) {
+    return responseRecord(deviceId, payload.response, time);
+  }
+  return undefined;
+}
+
+/**
+ * In-memory store of the journal, the oldest records are dropped above maxRecords
+ * @param {number} [maxRecords=10000] - the maximum number of records kept
+ */
+export class MemoryJournalStore implements JournalStore {
+  private records: JournalRecord[];
+  private maxRecords: number;
+
+  constructor(maxRecords = 10000) {
+    this.records = [];
+    this.maxRecords = maxRecords;
+  }
+
+  append(record: JournalRecord): Promise<void> {
+    this.records.push(record);
+    if (this.records.length > this.maxRecords) {
+      this.records.splice(0, this.records.length - this.maxRecords);
+    }
+    return Promise.resolve();
+  }
+
+  query(query: JournalQuery): Promise<JournalRecord[]> {
+    return Promise.resolve(applyJournalQuery(this.records, query));
+  }
+
+  close(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+/**
+ * EventJournal class records the decrypted events and action responses of RemootioDevice instances in a JournalStore.
+ * @param {Object} store - the store of the records, e.g. new MemoryJournalStore()
+ * @param {Object} [options]
+ * @param {boolean} [options.recordResponses=true] - the action responses are recorded too
+ * @param {Object} [options.logger] - the errors of the store are logged here (see logger.ts)
+ */
+export class EventJournal {
+  private store: JournalStore;
+  private recordResponses: boolean;
+  private logger: Logger;
+  private devices: Map<string, { device: RemootioDevice; listener: (...args: never[]) => void }>;
+  private writing: Promise<void>; //the appends are chained, so the records are stored in the order they were received
+
+  constructor(store: JournalStore, options?: EventJournalOptions) {
+    this.store = store;
+    this.recordResponses = options?.recordResponses ?? true;
+    this.logger = options?.logger ?? noopLogger;
+    this.devices = new Map();
+    this.writing = Promise.resolve();
+  }
+
+  /**
+   * Starts recording the events (and action responses) of a device
+   * @param {string} id - the id of the device in the records
+   * @param {RemootioDevice} device - the device
+   */
+  addDevice(id: string, device: RemootioDevice): void {
+    if (this.devices.has(id)) {
+      throw new Error('A device with id ' + id + ' is already added');
+    }
+    const listener = (_frame: ReceivedFrames, payload?: ReceivedEncryptedFrameContent, timestamp?: Date) => {
+      if (payload == undefined) {
+        return;
+      }
+      const record = createJournalRecord(id, payload, timestamp ?? new Date());
+      if (record != undefined && (record.kind == 'event' || this.recordResponses)) {
+        this.append(record);
+      }
+    };
+    device.on('incomingmessage', listener);
+    this.devices.set(id, { device, listener });
+  }
+
+  /**
+   * Stops recording the events of a device (the records are kept)
+   * @param {string} id - the id of the device
+   * @returns {boolean} - true if the device was added
+   */
+  removeDevice(id: string): boolean {
+    const added = this.devices.get(id);
+    if (added == undefined) {
+      return false;
+    }
+    added.device.removeListener('incomingmessage', added.listener as (...args: unknown[]) => void);
+    this.devices.delete(id);
+    return true;
+  }
+
+  /**
+   * Returns the records matching the query (after the pending records are stored)
+   * @param {Object} [query] - the query, all the records are returned by default
+   */
+  query(query: JournalQuery = {}): Promise<JournalRecord[]> {
+    return this.flush().then(() => this.store.query(query));
+  }
+
+  /**
+   * Exports the records matching the query as CSV or NDJSON
+   * @param {Object} query - the query
+   * @param {string} [format='csv'] - 'csv' or 'ndjson'
+   */
+  export(query: JournalQuery, format: JournalExportFormat = 'csv'): Promise<string> {
+    return this.query(query).then((records) => exportJournalRecords(records, format));
+  }
+
+  /**
+   * Waits until the records received so far are stored
+   */
+  flush(): Promise<void> {
+    return this.writing;
+  }
+
+  /**
+   * Stops recording all the devices, and closes the store once the pending records are stored
+   */
+  close(): Promise<void> {
+    Array.from(this.devices.keys()).forEach((id) => this.removeDevice(id));
+    return this.flush().then(() => this.store.close());
+  }
+
+  private append(record: JournalRecord): void {
+    this.writing = this.writing
+      .then(() => this.store.append(record))
+      .catch((error) => {
+        this.logger.error('Could not store the journal record', {
+          deviceId: record.deviceId,
+          kind: record.kind,
+          type: record.type,
+          error
+        });
+      });
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * This module checks the cnt counter of the events received from the Remootio device.
+ * The device increments cnt for every event it generates, so a jump in cnt means that events were missed (e.g. they were generated
+ * while the connection was broken), and a cnt that is not greater than the previous one means a duplicate or out-of-order event.
+ * The counter is kept between sessions, it only starts over when the device is restarted.
+ */
+
+type EventSequenceCheck =
+  | { result: 'first' | 'inorder' | 'duplicate' | 'outoforder' }
+  | { result: 'gap'; missingFromCnt: number; missingToCnt: number };
+
+export class EventSequence {
+  private lastCnt?: number;
+
+  constructor() {
+    this.lastCnt = undefined; //the cnt of the last event received in order
+  }
+
+  /**
+   * Checks the cnt of the event received
+   * @param {number} cnt - the cnt field of the event
+   * @returns {Object} - result: 'first', 'inorder', 'gap' (with the missing range missingFromCnt-missingToCnt), 'duplicate' or 'outoforder'
+   */
+  check(cnt: number): EventSequenceCheck {
+    const lastCnt = this.lastCnt;
+    if (lastCnt == undefined) {
+      this.lastCnt = cnt;
+      return { result: 'first' };
+    }
+    if (cnt == lastCnt) {
+      return { result: 'duplicate' };
+    }
+    if (cnt < lastCnt) {
+      return { result: 'outoforder' };
+    }
+    this.lastCnt = cnt;
+    if (cnt == lastCnt + 1) {
+      return { result: 'inorder' };
+    }
+    return { result: 'gap', missingFromCnt: lastCnt + 1, missingToCnt: cnt - 1 };
+  }
+
+  /**
+   * Forgets the last cnt when the device was restarted (the counter starts over)
+   */
+  reset(): void {
+    this.lastCnt = undefined;
+  }
+
+  //Get method for the cnt of the last event received in order
+  get lastEventCnt(): number | undefined {
+    return this.lastCnt;
+  }
+}
@@ -0,0 +1,343 @@
+import { ConnectionState } from './connectionstate';
+import { EventEmitter } from './eventemitter';
+import { ReceivedEncryptedFrameContent, ReceivedFrames, RemootioActionResponse, SensorStates } from './frames';
+import { RemootioDevice } from './remootiodevice';
+
+/**
+ * RemootioFleet class supervises several Remootio devices. It creates a RemootioDevice instance for every device added,
+ * connects and authenticates them (with autoReconnect enabled, and the session is authenticated again after every reconnect),
+ * and re-emits every event of the devices with the id of the device as the first parameter.
+ *
+ * *** Constructor ***
+ * @param {Array} [devices] - the devices to add (see addDevice())
+ *
+ * *** Methods ***
+ * @method addDevice(config) - adds a device and starts connecting to it. The config contains:
+ * id (unique id of the device), ip, apiSecretKey, apiAuthKey, groups (optional list of group names, e.g. ['gates', 'building A']),
+ * sendPingMessageEveryXMs and options (optional, passed to the RemootioDevice constructor)
+ *
+ * @method removeDevice(id) - disconnects and removes the device
+ *
+ * @method setDevices(configs) - adds the devices that are not in the fleet yet, and removes the ones that are not in configs (e.g. after the configuration is reloaded)
+ *
+ * @method getDevice(id) - returns the RemootioDevice instance of the device
+ *
+ * @method getHealth() - returns the health snapshot of every device: connectionState, isConnected, isAuthenticated,
+ * lastMessageAt (the time of the last frame received) and lastKnownState (the last gate status reported by the device)
+ *
+ * @method bulkAction(action, selector, durationMins) - sends an action ('query', 'trigger', 'triggerSecondary', 'open', 'close' or 'restart')
+ * to every device selected by selector.group and/or selector.ids (all the devices if there is no selector).
+ * If durationMins is set the output is held active for durationMins (the hold*OutputActive methods, not for 'query' and 'restart').
+ * Returns a Promise that resolves with the outcome for every device (it is never rejected)
+ *
+ * @method close() - disconnects and removes all the devices
+ *
+ * *** Events ***
+ * Every event of RemootioDevice (connecting, connected, authenticated, statechange, incomingmessage, error and so on) is re-emitted
+ * by the fleet with the id of the device as the first parameter, e.g. fleet.on('statechange', (deviceId, previousState, nextState) => {})
+ * Add an error listener to the fleet, otherwise an error of a single device is thrown (as for any EventEmitter)
+ */
+
+export interface RemootioFleetDeviceConfig {
+  id: string;
+  ip: string;
+  apiSecretKey: string;
+  apiAuthKey: string;
+  groups?: string[];
+  sendPingMessageEveryXMs?: number;
+  options?: RemootioDevice.Options;
+}
+
+export interface RemootioFleetDeviceHealth {
+  id: string;
+  connectionState: ConnectionState;
+  isConnected: boolean;
+  isAuthenticated: boolean;
+  lastMessageAt?: Date;
+  lastKnownState?: SensorStates;
+}
+
+export type RemootioFleetAction = 'query' | 'trigger' | 'triggerSecondary' | 'open' | 'close' | 'restart';
+
+export interface RemootioFleetBulkActionResult {
+  id: string;
+  success: boolean;
+  response?: RemootioActionResponse;
+  error?: Error;
+}
+
+export type RemootioFleetEvents = {
+  [E in keyof RemootioDevice.Events]: (deviceId: string, ...args: Parameters<RemootioDevice.Events[E]>) => void;
+};
+
+interface FleetMember {
+  config: RemootioFleetDeviceConfig;
+  device: RemootioDevice;
+  lastMessageAt?: Date;
+  lastKnownState?: SensorStates;
+}
+
+//Every RemootioDevice event is forwarded - the compiler makes sure this list is complete
+const forwardedEvents: { [E in keyof RemootioDevice.Events]: true } = {
+  connecting: true,
+  connected: true,
+  authenticated: true,
+  disconnect: true,
+  reconnecting: true,
+  reconnectfailed: true,
+  statechange: true,
+  devicerestart: true,
+  eventgap: true,
+  eventduplicate: true,
+  eventoutoforder: true,
+  protocolerror: true,
+  actionresponse: true,
+  gatestatechange: true,
+  relaytrigger: true,
+  keyconnected: true,
+  leftopen: true,
+  keymanagement: true,
+  keychange: true,
+  doorbell: true,
+  manualbutton: true,
+  sensorchange: true,
+  restart: true,
+  servererror: true,
+  policyviolation: true,
+  error: true,
+  outgoingmessage: true,
+  incomingmessage: true
+};
+
+export declare interface RemootioFleet {
+  on<E extends keyof RemootioFleetEvents>(event: E, listener: RemootioFleetEvents[E]): this;
+  emit<E extends keyof RemootioFleetEvents>(event: E, ...args: Parameters<RemootioFleetEvents[E]>): boolean;
+}
+
+export class RemootioFleet extends EventEmitter {
+  private members: Map<string, FleetMember>;
+
+  /**
+   * Constructor to create a RemootioFleet instance
+   * @param {Array} [devices] - the devices to add (see addDevice())
+   */
+  constructor(devices?: RemootioFleetDeviceConfig[]) {
+    super();
+    this.members = new Map();
+    if (devices != undefined) {
+      devices.forEach((config) => this.addDevice(config));
+    }
+  }
+
+  /**
+   * Adds a device to the fleet and starts connecting to it
+   * @param {Object} config - the configuration of the device, see the class description
+   * @returns {RemootioDevice} - the RemootioDevice instance created for the device
+   */
+  addDevice(config: RemootioFleetDeviceConfig): RemootioDevice {
+    if (this.members.has(config.id)) {
+      throw new Error('A device with id ' + config.id + ' is already in the fleet');
+    }
+    const device = new RemootioDevice(
+      config.ip,
+      config.apiSecretKey,
+      config.apiAuthKey,
+      config.sendPingMessageEveryXMs,
+      {
+        reauthenticateOnReconnect: true,
+        ...config.options
+      }
+    );
+    const member: FleetMember = { config, device };
+    Object.keys(forwardedEvents).forEach((event) => {
+      device.on(event as keyof RemootioDevice.Events, (...args: unknown[]) => {
+        (this.emit as (event: string, ...args: unknown[]) => boolean)(event, config.id, ...args);
+      });
+    });
+    //Keep track of the data needed for the health snapshot
+    device.on('incomingmessage', (frame: ReceivedFrames, decryptedPayload?: ReceivedEncryptedFrameContent) =>
+      this.updateHealth(member, frame, decryptedPayload)
+    );
+    this.members.set(config.id, member);
+
+    device.connectAndAuthenticate(true).catch(() => {
+      //The error is emitted by the device, and it keeps reconnecting
+    });
+    return device;
+  }
+
+  /**
+   * Disconnects and removes a device from the fleet
+   * @param {string} id - the id of the device
+   * @returns {boolean} - true if the device was in the fleet
+   */
+  removeDevice(id: string): boolean {
+    const member = this.members.get(id);
+    if (member == undefined) {
+      return false;
+    }
+    this.members.delete(id);
+    member.device.disconnect();
+    member.device.removeAllListeners();
+    return true;
+  }
+
+  /**
+   * Adds the devices that are not in the fleet yet and removes the devices that are not in configs.
+   * A device is also replaced if its ip, keys or port changed.
+   * @param {Array} configs - the configuration of all the devices
+   */
+  setDevices(configs: RemootioFleetDeviceConfig[]): void {
+    const ids = configs.map((config) => config.id);
+    Array.from(this.members.keys()).forEach((id) => {
+      if (ids.indexOf(id) == -1) {
+        this.removeDevice(id);
+      }
+    });
+    configs.forEach((config) => {
+      const member = this.members.get(config.id);
+      if (member != undefined) {
+        const current = member.config;
+        if (
+          current.ip == config.ip &&
+          current.apiSecretKey == config.apiSecretKey &&
+          current.apiAuthKey == config.apiAuthKey &&
+          current.options?.port == config.options?.port
+        ) {
+          member.config = config; //only the groups or other settings changed
+          return;
+        }
+        this.removeDevice(config.id);
+      }
+      this.addDevice(config);
+    });
+  }
+
+  /**
+   * Returns the RemootioDevice instance of a device
+   * @param {string} id - the id of the device
+   */
+  getDevice(id: string): RemootioDevice | undefined {
+    return this.members.get(id)?.device;
+  }
+
+  /**
+   * Returns the ids of the devices in the fleet
+   * @param {string} [group] - only return the devices in this group
+   */
+  getDeviceIds(group?: string): string[] {
+    const ids: string[] = [];
+    this.members.forEach((member, id) => {
+      if (group == undefined || (member.config.groups != undefined && member.config.groups.indexOf(group) != -1)) {
+        ids.push(id);
+      }
+    });
+    return ids;
+  }
+
+  /**
+   * Returns the health snapshot of every device in the fleet
+   */
+  getHealth(): RemootioFleetDeviceHealth[] {
+    const health: RemootioFleetDeviceHealth[] = [];
+    this.members.forEach((member, id) => {
+      health.push({
+        id,
+        connectionState: member.device.connectionState,
+        isConnected: member.device.isConnected,
+        isAuthenticated: member.device.isAuthenticated,
+        lastMessageAt: member.lastMessageAt,
+        lastKnownState: member.lastKnownState
+      });
+    });
+    return health;
+  }
+
+  /**
+   * Sends an action to several devices at once
+   * @param {string} action - 'query', 'trigger', 'triggerSecondary', 'open', 'close' or 'restart'
+   * @param {Object} [selector] - group: only the devices in this group, ids: only these devices (all devices if omitted)
+   * @param {number} [durationMins] - hold the output active for durationMins (not supported for 'query' and 'restart')
+   * @returns {Promise} - resolves with the outcome for every selected device, it is never rejected
+   */
+  bulkAction(
+    action: RemootioFleetAction,
+    selector?: { group?: string; ids?: string[] },
+    durationMins?: number
+  ): Promise<RemootioFleetBulkActionResult[]> {
+    const ids = this.getDeviceIds(selector?.group).filter(
+      (id) => selector?.ids == undefined || selector.ids.indexOf(id) != -1
+    );
+    return Promise.all(
+      ids.map((id) =>
+        this.sendAction(this.members.get(id) as FleetMember, action, durationMins).then(
+          (response): RemootioFleetBulkActionResult => ({ id, success: true, response }),
+          (error: Error): RemootioFleetBulkActionResult => ({
+            id,
+            success: false,
+            response: (error as { response?: RemootioActionResponse }).response,
+            error
+          })
+        )
+      )
+    );
+  }
+
+  /**
+   * Disconnects and removes all the devices
+   */
+  close(): void {
+    Array.from(this.members.keys()).forEach((id) => this.removeDevice(id));
+  }
+
+  private sendAction(
+    member: FleetMember,
+    action: RemootioFleetAction,
+    durationMins?: number
+  ): Promise<RemootioActionResponse> {
+    const device = member.device;
+    if (durationMins != undefined) {
+      switch (action) {
+        case 'trigger':
+          return device.holdTriggerOutputActive(durationMins);
+        case 'triggerSecondary':
+          return device.holdTriggerSecondaryOutputActive(durationMins);
+        case 'open':
+          return device.holdOpenOutputActive(durationMins);
+        case 'close':
+          return device.holdCloseOutputActive(durationMins);
+        default:
+          return Promise.reject(new Error('The ' + action + ' action has no duration parameter'));
+      }
+    }
+    switch (action) {
+      case 'query':
+        return device.sendQuery();
+      case 'trigger':
+        return device.sendTrigger();
+      case 'triggerSecondary':
+        return device.sendTriggerSecondary();
+      case 'open':
+        return device.sendOpen();
+      case 'close':
+        return device.sendClose();
+      case 'restart':
+        return device.sendRestart();
+    }
+  }
+
+  private updateHealth(
+    member: FleetMember,
+    _frame: ReceivedFrames,
+    decryptedPayload?: ReceivedEncryptedFrameContent
+  ): void {
+    member.lastMessageAt = new Date();
+    if (decryptedPayload != undefined) {
+      if ('response' in decryptedPayload && decryptedPayload.response.state != undefined) {
+        member.lastKnownState = decryptedPayload.response.state;
+      } else if ('event' in decryptedPayload && decryptedPayload.event.state != undefined) {
+        member.lastKnownState = decryptedPayload.event.state;
+      }
+    }
+  }
+}
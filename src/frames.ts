@@ -62,15 +62,15 @@ export interface ChallengeFrame {
 export type ReceivedFrames = ErrorFrame | PongFrame | ServerHelloFrame | EncryptedFrame;
 
 export type SentEcryptedFrameContent = RemootioAction;
-export type ReceivedEncryptedFrameContent = RemootioActionResponse | EventTypes | ChallengeFrame;
+export type ReceivedEncryptedFrameContent = RemootioActionResponse | EventTypes | ChallengeFrame | UnknownEvent;
 
-type ActionTypesWithDurationParam = 'TRIGGER' | 'TRIGGER_SECONDARY' | 'OPEN' | 'CLOSE';
-type SimpleActionTypes = 'QUERY' | 'RESTART';
+export type ActionTypesWithDurationParam = 'TRIGGER' | 'TRIGGER_SECONDARY' | 'OPEN' | 'CLOSE';
+export type SimpleActionTypes = 'QUERY' | 'RESTART';
 
-type ActionTypes = ActionTypesWithDurationParam | SimpleActionTypes;
-type SensorStates = 'closed' | 'open' | 'no sensor';
-type KeyTypes = 'master key' | 'unique key' | 'guest key' | 'api key' | 'smart home' | 'automation';
-type ConnectionTypes = 'bluetooth' | 'wifi' | 'internet' | 'autoopen' | 'unknown' | 'none';
+export type ActionTypes = ActionTypesWithDurationParam | SimpleActionTypes;
+export type SensorStates = 'closed' | 'open' | 'no sensor';
+export type KeyTypes = 'master key' | 'unique key' | 'guest key' | 'api key' | 'smart home' | 'automation';
+export type ConnectionTypes = 'bluetooth' | 'wifi' | 'internet' | 'autoopen' | 'unknown' | 'none';
 export interface RemootioAction {
   action:
     | {
@@ -156,3 +156,20 @@ export type EventTypes =
         };
       };
     };
+
+//An event of a type not known by this version of the API client (it is passed through in the lenient frame validation mode)
+export interface UnknownEvent {
+  unknownEvent: {
+    type: string;
+    [field: string]: unknown;
+  };
+}
+
+//The event object of the given event type(s) narrowed from EventTypes, e.g. EventOfType<'RelayTrigger'> has the data field with keyNr, keyType and via
+export type EventOfType<T extends EventTypes['event']['type']> = EventTypes extends infer E
+  ? E extends EventTypes
+    ? T extends E['event']['type']
+      ? E['event'] & { type: T }
+      : never
+    : never
+  : never;
@@ -0,0 +1,282 @@
+import {
+  ActionTypes,
+  ChallengeFrame,
+  ConnectionTypes,
+  EncryptedFrame,
+  ErrorFrame,
+  EventTypes,
+  KeyTypes,
+  PongFrame,
+  ReceivedEncryptedFrameContent,
+  ReceivedFrames,
+  RemootioActionResponse,
+  SensorStates,
+  ServerHelloFrame,
+  UnknownEvent
+} from './frames';
+
+/**
+ * This module validates the frames received from the Remootio device at runtime, so a malformed frame (or a frame of a newer firmware)
+ * is reported instead of ending up as an undefined property deep in an event handler.
+ * The validate* functions return the description of the first problem found, or undefined if the frame is valid.
+ * The is* functions are type guards built on them. Unknown extra properties are always allowed.
+ * The lists of the allowed values below are typed with the types of frames.ts, so the compiler makes sure they are complete
+ * (the exported ones are also used to generate the schemas of the OpenAPI document, see openapi.ts).
+ */
+
+type Fields = { [key: string]: unknown };
+
+const errorMessages: { [M in ErrorFrame['errorMessage']]: true } = {
+  'json error': true,
+  'input error': true,
+  'internal error': true,
+  'connection timeout': true,
+  'authentication timeout': true,
+  'already authenticated': true,
+  'authentication error': true
+};
+
+export const actionTypes: { [A in ActionTypes]: true } = {
+  QUERY: true,
+  TRIGGER: true,
+  TRIGGER_SECONDARY: true,
+  OPEN: true,
+  CLOSE: true,
+  RESTART: true
+};
+
+export const sensorStates: { [S in SensorStates]: true } = {
+  closed: true,
+  open: true,
+  'no sensor': true
+};
+
+export const keyTypes: { [K in KeyTypes]: true } = {
+  'master key': true,
+  'unique key': true,
+  'guest key': true,
+  'api key': true,
+  'smart home': true,
+  automation: true
+};
+
+export const connectionTypes: { [C in ConnectionTypes]: true } = {
+  bluetooth: true,
+  wifi: true,
+  internet: true,
+  autoopen: true,
+  unknown: true,
+  none: true
+};
+
+//The data field expected for every event type
+export const eventTypes: { [T in EventTypes['event']['type']]: 'none' | 'key' | 'leftopen' | 'keymanagement' } = {
+  StateChange: 'none',
+  Restart: 'none',
+  ManualButtonPushed: 'none',
+  ManualButtonEnabled: 'none',
+  ManualButtonDisabled: 'none',
+  DoorbellPushed: 'none',
+  DoorbellEnabled: 'none',
+  DoorbellDisabled: 'none',
+  SensorEnabled: 'none',
+  SensorFlipped: 'none',
+  SensorDisabled: 'none',
+  RelayTrigger: 'key',
+  SecondaryRelayTrigger: 'key',
+  Connected: 'key',
+  LeftOpen: 'leftopen',
+  KeyManagement: 'keymanagement'
+};
+
+function isFields(value: unknown): value is Fields {
+  return typeof value == 'object' && value != null && !Array.isArray(value);
+}
+
+function isOneOf<T extends string>(values: { [V in T]: unknown }, value: unknown): value is T {
+  return typeof value == 'string' && Object.prototype.hasOwnProperty.call(values, value);
+}
+
+/**
+ * Checks the type of the listed fields of an object
+ * @param {Object} fields - the object
+ * @param {string} name - the name of the object used in the problem description
+ * @param {Object} expected - the expected type of every field: 'string', 'number', 'boolean' or the list of the allowed values
+ */
+function checkFields(
+  fields: Fields,
+  name: string,
+  expected: { [field: string]: string | { [value: string]: unknown } }
+): string | undefined {
+  for (const field of Object.keys(expected)) {
+    const expectedType = expected[field];
+    const value = fields[field];
+    if (typeof expectedType == 'string') {
+      if (typeof value != expectedType) {
+        return name + '.' + field + ' must be a ' + expectedType;
+      }
+    } else if (!isOneOf(expectedType, value)) {
+      return name + '.' + field + ' has an unknown value: ' + JSON.stringify(value);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Validates a frame received from the Remootio device (ERROR, PONG, SERVER_HELLO or ENCRYPTED)
+ * @param {Object} frame - the parsed JSON frame
+ * @returns {string} - the description of the problem, undefined if the frame is valid
+ */
+export function validateReceivedFrame(frame: unknown): string | undefined {
+  if (!isFields(frame)) {
+    return 'The frame must be an object';
+  }
+  switch (frame.type) {
+    case 'ERROR':
+      return checkFields(frame, 'frame', { errorMessage: errorMessages });
+    case 'PONG':
+      return undefined;
+    case 'SERVER_HELLO':
+      if (frame.apiVersion == 1) {
+        return checkFields(frame, 'frame', { message: 'string' });
+      } else if (frame.apiVersion == 2) {
+        return checkFields(frame, 'frame', {
+          message: 'string',
+          serialNumber: 'string',
+          remootioVersion: { 'remootio-1': true, 'remootio-2': true }
+        });
+      }
+      return 'frame.apiVersion has an unknown value: ' + JSON.stringify(frame.apiVersion);
+    case 'ENCRYPTED':
+      if (!isFields(frame.data)) {
+        return 'frame.data must be an object';
+      }
+      return (
+        checkFields(frame.data, 'frame.data', { iv: 'string', payload: 'string' }) ??
+        checkFields(frame, 'frame', { mac: 'string' })
+      );
+    default:
+      return 'Unknown frame type: ' + JSON.stringify(frame.type);
+  }
+}
+
+/**
+ * Validates the decrypted payload of an ENCRYPTED frame (a challenge, an action response or an event)
+ * @param {Object} payload - the decrypted payload
+ * @returns {string} - the description of the problem, undefined if the payload is valid
+ */
+export function validateEncryptedFrameContent(payload: unknown): string | undefined {
+  if (!isFields(payload)) {
+    return 'The payload must be an object';
+  }
+  if ('challenge' in payload) {
+    if (!isFields(payload.challenge)) {
+      return 'challenge must be an object';
+    }
+    return checkFields(payload.challenge, 'challenge', { sessionKey: 'string', initialActionId: 'number' });
+  }
+  if ('response' in payload) {
+    if (!isFields(payload.response)) {
+      return 'response must be an object';
+    }
+    return checkFields(payload.response, 'response', {
+      type: actionTypes,
+      id: 'number',
+      success: 'boolean',
+      state: sensorStates,
+      t100ms: 'number',
+      relayTriggered: 'boolean',
+      errorCode: 'string'
+    });
+  }
+  if ('event' in payload) {
+    return validateEvent(payload.event);
+  }
+  return 'Unknown payload: it contains no challenge, response or event';
+}
+
+function validateEvent(event: unknown): string | undefined {
+  if (!isFields(event)) {
+    return 'event must be an object';
+  }
+  if (!isOneOf(eventTypes, event.type)) {
+    return 'Unknown event type: ' + JSON.stringify(event.type);
+  }
+  const problem = checkFields(event, 'event', { cnt: 'number', state: sensorStates, t100ms: 'number' });
+  const expectedData = eventTypes[event.type];
+  if (problem != undefined || expectedData == 'none') {
+    return problem;
+  }
+  if (!isFields(event.data)) {
+    return 'event.data must be an object';
+  }
+  switch (expectedData) {
+    case 'key':
+      return checkFields(event.data, 'event.data', { keyNr: 'number', keyType: keyTypes, via: connectionTypes });
+    case 'leftopen':
+      return checkFields(event.data, 'event.data', { timeOpen100ms: 'number' });
+    case 'keymanagement':
+      return checkFields(event.data, 'event.data', {
+        keyNr: 'number',
+        keyType: keyTypes,
+        bluetooth: 'boolean',
+        wifi: 'boolean',
+        internet: 'boolean',
+        notification: 'boolean',
+        isRemoved: 'boolean'
+      });
+  }
+}
+
+/**
+ * Converts an event of a type not known by this version of the API client to an UnknownEvent
+ * @param {Object} payload - the decrypted payload
+ * @returns {Object} - the UnknownEvent, undefined if the payload is not an event or its type is known
+ */
+export function asUnknownEvent(payload: unknown): UnknownEvent | undefined {
+  if (
+    !isFields(payload) ||
+    !isFields(payload.event) ||
+    typeof payload.event.type != 'string' ||
+    isOneOf(eventTypes, payload.event.type)
+  ) {
+    return undefined;
+  }
+  return { unknownEvent: { ...payload.event, type: payload.event.type } };
+}
+
+export function isReceivedFrame(frame: unknown): frame is ReceivedFrames {
+  return validateReceivedFrame(frame) == undefined;
+}
+
+export function isErrorFrame(frame: unknown): frame is ErrorFrame {
+  return isFields(frame) && frame.type == 'ERROR' && isReceivedFrame(frame);
+}
+
+export function isPongFrame(frame: unknown): frame is PongFrame {
+  return isFields(frame) && frame.type == 'PONG';
+}
+
+export function isServerHelloFrame(frame: unknown): frame is ServerHelloFrame {
+  return isFields(frame) && frame.type == 'SERVER_HELLO' && isReceivedFrame(frame);
+}
+
+export function isEncryptedFrame(frame: unknown): frame is EncryptedFrame {
+  return isFields(frame) && frame.type == 'ENCRYPTED' && isReceivedFrame(frame);
+}
+
+export function isEncryptedFrameContent(payload: unknown): payload is ReceivedEncryptedFrameContent {
+  return validateEncryptedFrameContent(payload) == undefined;
+}
+
+export function isChallengeFrame(payload: unknown): payload is ChallengeFrame {
+  return isFields(payload) && 'challenge' in payload && isEncryptedFrameContent(payload);
+}
+
+export function isRemootioActionResponse(payload: unknown): payload is RemootioActionResponse {
+  return isFields(payload) && 'response' in payload && isEncryptedFrameContent(payload);
+}
+
+export function isRemootioEvent(payload: unknown): payload is EventTypes {
+  return isFields(payload) && 'event' in payload && isEncryptedFrameContent(payload);
+}
@@ -0,0 +1,468 @@
+import * as http from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import { AddressInfo } from 'net';
+import { URL } from 'url';
+import { ActionOptions } from './actionqueue';
+import { ActionFailedError, ActionThrottledError, PolicyViolationError, RemootioError } from './errors';
+import { RemootioFleet } from './fleet';
+import { ReceivedEncryptedFrameContent, ReceivedFrames, RemootioActionResponse } from './frames';
+import { Logger, noopLogger } from './logger';
+import {
+  createOpenApiDocument,
+  errorStatuses,
+  GatewayAction,
+  gatewayActions,
+  OpenApiDocument,
+  OpenApiDocumentOptions,
+  RemootioHttpErrorCode
+} from './openapi';
+import { RemootioDevice } from './remootiodevice';
+
+/**
+ * RemootioHttpGateway class exposes RemootioDevice instances (or the devices of a RemootioFleet) over a local HTTP API,
+ * so services not written in Node.js can control the gates. It uses the http module of Node.js, there are no other dependencies.
+ * The gateway doesn't connect the devices itself: connect them with autoReconnect and reauthenticateOnReconnect (or use a RemootioFleet).
+ * Every request needs an Authorization: Bearer <token> header with one of the tokens (except GET /openapi.json).
+ *
+ * *** Constructor ***
+ * @param {Object} options
+ * @param {string[]} options.tokens - the accepted bearer tokens (at least one)
+ * @param {RemootioFleet} [options.fleet] - the devices of the fleet are available by their id (in addition to the ones added with addDevice())
+ * @param {number} [options.keepAliveIntervalMs=15000] - a comment is sent on the event streams this often, so proxies don't close them
+ * @param {Object} [options.openApi] - the title, version and serverUrl of the OpenAPI document (see openapi.ts)
+ * @param {Object} [options.logger] - the requests refused and the errors are logged here (see logger.ts)
+ *
+ * *** Endpoints ***
+ * GET /devices - the state of every device
+ * GET /devices/:id/state - the connection state and the last known gate state of the device
+ * POST /devices/:id/actions/<open|close|trigger|trigger-secondary|restart> - sends the action, the optional JSON body is
+ * {"duration": minutes, "confirmationToken": token}: duration holds the output active (the hold*OutputActive methods), confirmationToken
+ * is passed to the action policy. Responds with the action response of the device
+ * GET /devices/:id/events - the decrypted events of the device as Server-Sent Events (the event name is the type of the event).
+ * The token can also be passed in the access_token query parameter, since EventSource cannot set headers
+ * GET /openapi.json - the OpenAPI document of the gateway
+ *
+ * The errors are JSON bodies: {"error": {"code", "message", "errorCode", "rule", "retryAfterMs"}}. The code is the code of the RemootioError
+ * (e.g. ACTION_FAILED with the errorCode of the device response) or one of the gateway: UNAUTHORIZED, NOT_FOUND, DEVICE_NOT_FOUND,
+ * METHOD_NOT_ALLOWED, INVALID_REQUEST, PAYLOAD_TOO_LARGE. The HTTP status is derived from the code (see errorStatuses in openapi.ts)
+ *
+ * *** Methods ***
+ * @method addDevice(id, device) - makes a device available at /devices/:id
+ * @method removeDevice(id) - removes a device, its event streams are ended
+ * @method listen(port, host) - starts an HTTP server, returns a Promise that resolves with the port (host defaults to 127.0.0.1)
+ * @method close() - ends the event streams and stops the server started by listen(), returns a Promise
+ * @method handleRequest(req, res) - handles a request, to mount the gateway on an existing HTTP server
+ */
+
+export interface RemootioHttpGatewayOptions {
+  tokens: string[];
+  fleet?: RemootioFleet;
+  keepAliveIntervalMs?: number;
+  openApi?: OpenApiDocumentOptions;
+  logger?: Logger;
+}
+
+export interface RemootioHttpErrorBody {
+  error: {
+    code: RemootioHttpErrorCode;
+    message: string;
+    errorCode?: string;
+    rule?: string;
+    retryAfterMs?: number;
+  };
+}
+
+interface EventStream {
+  deviceId: string;
+  end: () => void;
+}
+
+//The action methods of the device for the gateway actions, durationMins is undefined if the output is not held active
+const actionMethods: {
+  [A in GatewayAction]: (
+    device: RemootioDevice,
+    durationMins: number | undefined,
+    options: ActionOptions
+  ) => Promise<RemootioActionResponse>;
+} = {
+  open: (device, durationMins, options) =>
+    durationMins != undefined ? device.holdOpenOutputActive(durationMins, options) : device.sendOpen(options),
+  close: (device, durationMins, options) =>
+    durationMins != undefined ? device.holdCloseOutputActive(durationMins, options) : device.sendClose(options),
+  trigger: (device, durationMins, options) =>
+    durationMins != undefined ? device.holdTriggerOutputActive(durationMins, options) : device.sendTrigger(options),
+  'trigger-secondary': (device, durationMins, options) =>
+    durationMins != undefined
+      ? device.holdTriggerSecondaryOutputActive(durationMins, options)
+      : device.sendTriggerSecondary(options),
+  restart: (device, _durationMins, options) => device.sendRestart(options)
+};
+
+const maxBodyBytes = 16 * 1024;
+
+/**
+ * The body of a request is larger than maxBodyBytes, the request is answered with a 413 status
+ */
+class PayloadTooLargeError extends Error {
+  constructor() {
+    super('The body is too large (at most ' + maxBodyBytes + ' bytes)');
+    this.name = 'PayloadTooLargeError';
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class RemootioHttpGateway {
+  private tokenHashes: Buffer[];
+  private fleet?: RemootioFleet;
+  private keepAliveIntervalMs: number;
+  private logger: Logger;
+  private devices: Map<string, RemootioDevice>;
+  private eventStreams: Set<EventStream>;
+  private server?: http.Server;
+  private openApiDocument: OpenApiDocument;
+
+  constructor(options: RemootioHttpGatewayOptions) {
+    if (options.tokens == undefined || options.tokens.length == 0 || options.tokens.some((token) => !token)) {
+      throw new Error('At least one bearer token is required, and the tokens must not be empty');
+    }
+    this.tokenHashes = options.tokens.map((token) => createHash('sha256').update(token).digest());
+    this.fleet = options.fleet;
+    this.keepAliveIntervalMs = options.keepAliveIntervalMs ?? 15000;
+    this.logger = options.logger ?? noopLogger;
+    this.devices = new Map();
+    this.eventStreams = new Set();
+    this.openApiDocument = createOpenApiDocument(options.openApi);
+  }
+
+  /**
+   * Makes a device available at /devices/:id
+   * @param {string} id - the id of the device used in the URLs
+   * @param {RemootioDevice} device - the device
+   */
+  addDevice(id: string, device: RemootioDevice): void {
+    if (this.devices.has(id)) {
+      throw new Error('A device with id ' + id + ' is already added');
+    }
+    this.devices.set(id, device);
+  }
+
+  /**
+   * Removes a device, its event streams are ended
+   * @param {string} id - the id of the device
+   * @returns {boolean} - true if the device was added
+   */
+  removeDevice(id: string): boolean {
+    if (!this.devices.delete(id)) {
+      return false;
+    }
+    this.eventStreams.forEach((stream) => {
+      if (stream.deviceId == id) {
+        stream.end();
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Starts an HTTP server handling the requests
+   * @param {number} [port=0] - the port to listen on, 0 means a random free port
+   * @param {string} [host='127.0.0.1'] - the address to listen on
+   * @returns {Promise<number>} - resolves with the port when the server is listening
+   */
+  listen(port = 0, host = '127.0.0.1'): Promise<number> {
+    if (this.server != undefined) {
+      return Promise.reject(new Error('The gateway is already listening'));
+    }
+    const server = http.createServer((req, res) => this.handleRequest(req, res));
+    this.server = server;
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.removeListener('error', reject);
+        resolve((server.address() as AddressInfo).port);
+      });
+    });
+  }
+
+  /**
+   * Ends the event streams and stops the server started by listen() (the devices are not disconnected)
+   * @returns {Promise<void>} - resolves when the server is closed
+   */
+  close(): Promise<void> {
+    this.eventStreams.forEach((stream) => stream.end());
+    const server = this.server;
+    this.server = undefined;
+    if (server == undefined) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Handles a request (the request listener of the HTTP server)
+   * @param {http.IncomingMessage} req - the request
+   * @param {http.ServerResponse} res - the response
+   */
+  handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    let segments: string[];
+    try {
+      segments = url.pathname
+        .split('/')
+        .filter((segment) => segment != '')
+        .map(decodeURIComponent);
+    } catch (e) {
+      return this.sendError(res, 'INVALID_REQUEST', 'Invalid URL');
+    }
+    if (segments.length == 1 && segments[0] == 'openapi.json') {
+      if (req.method != 'GET') {
+        return this.sendError(res, 'METHOD_NOT_ALLOWED', 'Use GET');
+      }
+      return this.sendJson(res, 200, this.openApiDocument);
+    }
+    if (segments[0] != 'devices' || segments.length > 4) {
+      return this.sendError(res, 'NOT_FOUND', 'Not found: ' + url.pathname);
+    }
+
+    const isEventStream = segments.length == 3 && segments[2] == 'events';
+    if (!this.isAuthorized(req, isEventStream ? url.searchParams.get('access_token') : null)) {
+      this.logger.warn('HTTP request refused, invalid bearer token', { method: req.method, path: url.pathname });
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      return this.sendError(res, 'UNAUTHORIZED', 'The bearer token is missing or invalid');
+    }
+
+    if (segments.length == 1) {
+      if (req.method != 'GET') {
+        return this.sendError(res, 'METHOD_NOT_ALLOWED', 'Use GET');
+      }
+      return this.sendJson(
+        res,
+        200,
+        this.getDeviceIds().map((id) => this.deviceState(id, this.getDevice(id) as RemootioDevice))
+      );
+    }
+    const id = segments[1];
+    const device = this.getDevice(id);
+    if (device == undefined) {
+      return this.sendError(res, 'DEVICE_NOT_FOUND', 'There is no device with id ' + id);
+    }
+    if (segments.length == 3 && segments[2] == 'state') {
+      if (req.method != 'GET') {
+        return this.sendError(res, 'METHOD_NOT_ALLOWED', 'Use GET');
+      }
+      return this.sendJson(res, 200, this.deviceState(id, device));
+    }
+    if (isEventStream) {
+      if (req.method != 'GET') {
+        return this.sendError(res, 'METHOD_NOT_ALLOWED', 'Use GET');
+      }
+      return this.openEventStream(id, device, req, res);
+    }
+    if (segments.length == 4 && segments[2] == 'actions') {
+      const action = segments[3];
+      if (!Object.prototype.hasOwnProperty.call(gatewayActions, action)) {
+        return this.sendError(res, 'NOT_FOUND', 'Unknown action ' + action);
+      }
+      if (req.method != 'POST') {
+        return this.sendError(res, 'METHOD_NOT_ALLOWED', 'Use POST');
+      }
+      return this.handleAction(id, device, action as GatewayAction, req, res);
+    }
+    this.sendError(res, 'NOT_FOUND', 'Not found: ' + url.pathname);
+  }
+
+  private getDevice(id: string): RemootioDevice | undefined {
+    return this.devices.get(id) ?? this.fleet?.getDevice(id);
+  }
+
+  private getDeviceIds(): string[] {
+    const ids = Array.from(this.devices.keys());
+    return ids.concat((this.fleet?.getDeviceIds() ?? []).filter((id) => !this.devices.has(id)));
+  }
+
+  /**
+   * Checks the bearer token of the Authorization header (or the access_token query parameter) in constant time
+   * @param {http.IncomingMessage} req - the request
+   * @param {string|null} queryToken - the token of the access_token query parameter, if it is accepted
+   */
+  private isAuthorized(req: http.IncomingMessage, queryToken: string | null): boolean {
+    const match = /^Bearer\s+(\S+)\s*$/i.exec(req.headers.authorization ?? '');
+    const token = match != null ? match[1] : queryToken;
+    if (!token) {
+      return false;
+    }
+    const hash = createHash('sha256').update(token).digest();
+    //Every token is compared, so the time doesn't depend on which one matched
+    return this.tokenHashes.reduce<boolean>(
+      (authorized, tokenHash) => timingSafeEqual(hash, tokenHash) || authorized,
+      false
+    );
+  }
+
+  private deviceState(id: string, device: RemootioDevice) {
+    return {
+      id,
+      connectionState: device.connectionState,
+      isConnected: device.isConnected,
+      isAuthenticated: device.isAuthenticated,
+      gateState: device.gateState,
+      deviceUptime: device.deviceUptime
+    };
+  }
+
+  private handleAction(
+    id: string,
+    device: RemootioDevice,
+    action: GatewayAction,
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): void {
+    this.readJsonBody(req).then(
+      (body) => {
+        if (body == undefined) {
+          return this.sendError(res, 'INVALID_REQUEST', 'The body must be a JSON object');
+        }
+        const duration = body.duration;
+        if (
+          duration != undefined &&
+          (action == 'restart' || typeof duration != 'number' || !Number.isInteger(duration) || duration <= 0)
+        ) {
+          return this.sendError(
+            res,
+            'INVALID_REQUEST',
+            action == 'restart'
+              ? 'The restart action has no duration'
+              : 'The duration must be a positive integer (minutes)'
+          );
+        }
+        if (body.confirmationToken != undefined && typeof body.confirmationToken != 'string') {
+          return this.sendError(res, 'INVALID_REQUEST', 'The confirmationToken must be a string');
+        }
+        const options: ActionOptions = { confirmationToken: body.confirmationToken };
+        actionMethods[action](device, duration, options).then(
+          (response) => this.sendJson(res, 200, response),
+          (error) => {
+            this.logger.info('Action of an HTTP request failed', { deviceId: id, action, error });
+            this.sendActionError(res, error);
+          }
+        );
+      },
+      (error) => {
+        if (error instanceof PayloadTooLargeError) {
+          //The rest of the body is drained but not read, the connection is closed after the response
+          res.setHeader('Connection', 'close');
+          return this.sendError(res, 'PAYLOAD_TOO_LARGE', error.message);
+        }
+        this.sendError(res, 'INVALID_REQUEST', error.message);
+      }
+    );
+  }
+
+  /**
+   * Reads the JSON body of a request, resolves with undefined if the body is not a JSON object (an empty body is an empty object).
+   * Rejects with a PayloadTooLargeError as soon as the body is larger than maxBodyBytes, the rest of the body is discarded
+   * @param {http.IncomingMessage} req - the request
+   */
+  private readJsonBody(
+    req: http.IncomingMessage
+  ): Promise<{ duration?: number; confirmationToken?: string } | undefined> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const onData = (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBodyBytes) {
+          //Stop collecting the body, resume() keeps draining it so the client can read the response
+          req.removeListener('data', onData);
+          req.resume();
+          reject(new PayloadTooLargeError());
+          return;
+        }
+        chunks.push(chunk);
+      };
+      req.on('data', onData);
+      req.on('error', reject);
+      req.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf8').trim();
+        if (text == '') {
+          return resolve({});
+        }
+        try {
+          const body = JSON.parse(text);
+          resolve(typeof body == 'object' && body != null && !Array.isArray(body) ? body : undefined);
+        } catch (e) {
+          resolve(undefined);
+        }
+      });
+    });
+  }
+
+  private openEventStream(
+    id: string,
+    device: RemootioDevice,
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.write(': connected\n\n');
+    const listener = (_frame: ReceivedFrames, payload?: ReceivedEncryptedFrameContent, timestamp?: Date) => {
+      if (payload != undefined && 'event' in payload) {
+        res.write(
+          'event: ' + payload.event.type + '\ndata: ' + JSON.stringify({ ...payload.event, timestamp }) + '\n\n'
+        );
+      }
+    };
+    const keepAlive = setInterval(() => res.write(': keepalive\n\n'), this.keepAliveIntervalMs);
+    const stream: EventStream = {
+      deviceId: id,
+      end: () => {
+        if (!this.eventStreams.delete(stream)) {
+          return;
+        }
+        clearInterval(keepAlive);
+        device.removeListener('incomingmessage', listener);
+        res.end();
+      }
+    };
+    device.on('incomingmessage', listener);
+    this.eventStreams.add(stream);
+    req.on('close', stream.end);
+  }
+
+  private sendActionError(res: http.ServerResponse, error: unknown): void {
+    if (!(error instanceof RemootioError)) {
+      return this.sendError(res, 'UNEXPECTED_ERROR', error instanceof Error ? error.message : String(error));
+    }
+    if (error instanceof ActionFailedError) {
+      return this.sendError(res, error.code, error.message, { errorCode: error.errorCode });
+    }
+    if (error instanceof PolicyViolationError) {
+      return this.sendError(res, error.code, error.message, { rule: error.rule });
+    }
+    if (error instanceof ActionThrottledError) {
+      res.setHeader('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)));
+      return this.sendError(res, error.code, error.message, { retryAfterMs: error.retryAfterMs });
+    }
+    this.sendError(res, error.code, error.message);
+  }
+
+  private sendError(
+    res: http.ServerResponse,
+    code: RemootioHttpErrorCode,
+    message: string,
+    details?: { errorCode?: string; rule?: string; retryAfterMs?: number }
+  ): void {
+    const body: RemootioHttpErrorBody = { error: { code, message, ...details } };
+    this.sendJson(res, errorStatuses[code], body);
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    const json = JSON.stringify(body);
+    res.writeHead(status, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(json) });
+    res.end(json);
+  }
+}
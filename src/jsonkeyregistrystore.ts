@@ -0,0 +1,43 @@
+import { promises as fs } from 'fs';
+import { KeyEntry, KeyRegistryStore } from './keyregistry';
+
+/**
+ * JsonKeyRegistryStore class stores the keys of a key registry (see keyregistry.ts) in a JSON file.
+ * The file is written to <path>.tmp first and renamed, so a crash while saving doesn't corrupt it. A missing file is an empty registry.
+ *
+ * *** Constructor ***
+ * @param {string} path - the path of the file, e.g. 'gate3-keys.json'
+ */
+
+const isNotFound = (error: unknown) => (error as { code?: string })?.code == 'ENOENT';
+
+export class JsonKeyRegistryStore implements KeyRegistryStore {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(): Promise<KeyEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.path, 'utf8');
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+    const keys = JSON.parse(content);
+    if (!Array.isArray(keys)) {
+      throw new Error('Invalid key registry file ' + this.path + ', it must contain an array of keys');
+    }
+    return keys as KeyEntry[];
+  }
+
+  async save(keys: KeyEntry[]): Promise<void> {
+    const tmpPath = this.path + '.tmp';
+    await fs.writeFile(tmpPath, JSON.stringify(keys, undefined, 2) + '\n', 'utf8');
+    await fs.rename(tmpPath, this.path);
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * This module contains the key registry used by the RemootioDevice class (see the keyRegistry option) to resolve the keyNr of the events
+ * to the holder of the key. The RelayTrigger, SecondaryRelayTrigger and Connected events are emitted with the holder of the key
+ * (relaytrigger and keyconnected events), and the registry follows the KeyManagement events: the keys added and removed in the Remootio app,
+ * and the changes of their bluetooth, wifi, internet and notification permissions are emitted as keychange events.
+ * The names and metadata of the keys are supplied to the constructor or set with setKey(). With a KeyRegistryStore (e.g. JsonKeyRegistryStore)
+ * the registry is persisted after every change. Every device has its own keys, so use one registry per device.
+ */
+
+import { EventOfType, KeyTypes } from './frames';
+import { Logger, noopLogger } from './logger';
+
+export type KeyPermission = 'bluetooth' | 'wifi' | 'internet' | 'notification';
+
+export type KeyPermissions = { [P in KeyPermission]: boolean };
+
+/**
+ * A key of the registry. The keyType and the permissions are the ones reported by the last KeyManagement event of the key
+ */
+export interface KeyEntry {
+  keyNr: number;
+  keyType?: KeyTypes;
+  name?: string; //the holder of the key e.g. 'John Smith (flat 12)'
+  metadata?: { [field: string]: unknown };
+  permissions?: KeyPermissions;
+}
+
+/**
+ * The holder of a key, the events are emitted with it
+ */
+export interface KeyHolder {
+  keyNr: number;
+  keyType: KeyTypes; //as reported by the event
+  name?: string;
+  metadata?: { [field: string]: unknown };
+}
+
+/**
+ * A change of a key reported by a KeyManagement event (the keychange event of RemootioDevice). The key is added if the registry didn't know
+ * its permissions, and every permission that changed is in permissionChanges (for an added key from is undefined, for a removed key to is).
+ * The name and metadata are the ones of the key before the change
+ */
+export interface KeyChange {
+  change: 'added' | 'modified' | 'removed';
+  keyNr: number;
+  keyType: KeyTypes;
+  name?: string;
+  metadata?: { [field: string]: unknown };
+  permissionChanges: { permission: KeyPermission; from?: boolean; to?: boolean }[];
+  time?: Date; //the time of the KeyManagement event
+}
+
+export interface KeyRegistryStore {
+  /**
+   * Returns the keys saved, or an empty array if nothing is saved yet
+   */
+  load(): Promise<KeyEntry[]>;
+  /**
+   * Saves the keys (all of them, replacing the ones saved before)
+   * @param {Array} keys - the keys of the registry
+   */
+  save(keys: KeyEntry[]): Promise<void>;
+}
+
+export interface KeyRegistryOptions {
+  store?: KeyRegistryStore;
+  logger?: Logger;
+}
+
+const keyPermissions: KeyPermission[] = ['bluetooth', 'wifi', 'internet', 'notification'];
+
+/**
+ * KeyRegistry class maps the keyNr of the events to the holders of the keys
+ * @param {Array} [keys] - the keys e.g. [{ keyNr: 3, name: 'John Smith', metadata: { flat: 12 } }]
+ * @param {Object} [options]
+ * @param {Object} [options.store] - the registry is loaded from the store by load() and saved to it after every change
+ * @param {Object} [options.logger] - the logger (see logger.ts), the failed saves are logged
+ */
+export class KeyRegistry {
+  private keys: Map<number, KeyEntry>;
+  private store?: KeyRegistryStore;
+  private logger: Logger;
+  private saving: Promise<void>;
+
+  constructor(keys?: KeyEntry[], options?: KeyRegistryOptions) {
+    this.keys = new Map();
+    (keys ?? []).forEach((key) => this.keys.set(key.keyNr, { ...key }));
+    this.store = options?.store;
+    this.logger = options?.logger ?? noopLogger;
+    this.saving = Promise.resolve(); //the saves are chained, so the last one wins
+  }
+
+  /**
+   * Loads the keys of the store. The names and metadata supplied to the constructor or set with setKey() before are kept,
+   * the permissions and the keys unknown to the registry come from the store
+   */
+  async load(): Promise<void> {
+    if (this.store == undefined) {
+      return;
+    }
+    const saved = await this.store.load();
+    saved.forEach((savedKey) => {
+      const key = this.keys.get(savedKey.keyNr);
+      this.keys.set(savedKey.keyNr, {
+        ...savedKey,
+        ...(key?.name != undefined ? { name: key.name } : {}),
+        ...(key?.metadata != undefined ? { metadata: key.metadata } : {})
+      });
+    });
+  }
+
+  /**
+   * Sets the name and metadata of a key (the permissions reported by the device are kept)
+   * @param {number} keyNr - the number of the key
+   * @param {Object} holder - name and metadata
+   */
+  setKey(keyNr: number, holder: { name?: string; metadata?: { [field: string]: unknown } }): void {
+    this.keys.set(keyNr, { ...this.keys.get(keyNr), keyNr, name: holder.name, metadata: holder.metadata });
+    this.save();
+  }
+
+  /**
+   * Removes a key from the registry
+   * @param {number} keyNr - the number of the key
+   * @returns {boolean} - true if the key was in the registry
+   */
+  deleteKey(keyNr: number): boolean {
+    const deleted = this.keys.delete(keyNr);
+    if (deleted) {
+      this.save();
+    }
+    return deleted;
+  }
+
+  /**
+   * Returns a key of the registry
+   * @param {number} keyNr - the number of the key
+   */
+  getKey(keyNr: number): KeyEntry | undefined {
+    const key = this.keys.get(keyNr);
+    return key != undefined ? { ...key } : undefined;
+  }
+
+  /**
+   * Returns all the keys of the registry ordered by keyNr
+   */
+  getKeys(): KeyEntry[] {
+    return Array.from(this.keys.values())
+      .sort((a, b) => a.keyNr - b.keyNr)
+      .map((key) => ({ ...key }));
+  }
+
+  /**
+   * Returns the holder of the key of an event (the name and metadata are missing if the key is not in the registry)
+   * @param {number} keyNr - the keyNr of the event
+   * @param {string} keyType - the keyType of the event
+   */
+  resolve(keyNr: number, keyType: KeyTypes): KeyHolder {
+    const key = this.keys.get(keyNr);
+    const holder: KeyHolder = { keyNr, keyType };
+    if (key?.name != undefined) {
+      holder.name = key.name;
+    }
+    if (key?.metadata != undefined) {
+      holder.metadata = key.metadata;
+    }
+    return holder;
+  }
+
+  /**
+   * Updates the registry from a KeyManagement event, called by RemootioDevice
+   * @param {Object} event - the KeyManagement event
+   * @param {Date} [time] - the time of the event
+   * @returns {Object} - the change of the key, or undefined if nothing changed
+   */
+  applyKeyManagement(event: EventOfType<'KeyManagement'>, time?: Date): KeyChange | undefined {
+    const { keyNr, keyType, isRemoved } = event.data;
+    const key = this.keys.get(keyNr);
+    const from = key?.permissions;
+    const to: KeyPermissions | undefined = isRemoved
+      ? undefined
+      : {
+          bluetooth: event.data.bluetooth,
+          wifi: event.data.wifi,
+          internet: event.data.internet,
+          notification: event.data.notification
+        };
+    const permissionChanges = keyPermissions
+      .filter((permission) => from?.[permission] != to?.[permission])
+      .map((permission) => ({ permission, from: from?.[permission], to: to?.[permission] }));
+    if (!isRemoved && from != undefined && permissionChanges.length == 0 && key?.keyType == keyType) {
+      return undefined;
+    }
+    //The removed keys are deleted, the keyNr may be given to someone else later
+    if (isRemoved) {
+      this.keys.delete(keyNr);
+    } else {
+      this.keys.set(keyNr, { ...key, keyNr, keyType, permissions: to });
+    }
+    this.save();
+    const change: KeyChange = {
+      change: isRemoved ? 'removed' : from == undefined ? 'added' : 'modified',
+      keyNr,
+      keyType,
+      permissionChanges
+    };
+    if (key?.name != undefined) {
+      change.name = key.name;
+    }
+    if (key?.metadata != undefined) {
+      change.metadata = key.metadata;
+    }
+    if (time != undefined) {
+      change.time = time;
+    }
+    return change;
+  }
+
+  /**
+   * Returns a promise that resolves when the changes are saved to the store
+   */
+  flush(): Promise<void> {
+    return this.saving;
+  }
+
+  private save(): void {
+    const store = this.store;
+    if (store == undefined) {
+      return;
+    }
+    const keys = this.getKeys();
+    this.saving = this.saving
+      .then(() => store.save(keys))
+      .catch((error) => {
+        this.logger.error('Could not save the key registry', { error });
+      });
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * The RemootioDevice class and the crypto providers log through a Logger instead of writing to the console.
+ * Every log entry has a message and a structured context (e.g. deviceIp, frameType, actionId).
+ * Nothing is logged by default (noopLogger), a Logger can be set using the logger option of the RemootioDevice class.
+ * The adapters below turn pino and winston style loggers (or the console) into a Logger.
+ * The secret bearing fields of the context (keys, MACs, payloads) are redacted by the RemootioDevice class by default (see redactLogContext()).
+ */
+
+export interface LogContext {
+  [field: string]: unknown;
+}
+
+export interface Logger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+}
+
+export type LogLevel = keyof Logger;
+
+const logLevels: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+//The Logger that discards every log entry
+export const noopLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined
+};
+
+/**
+ * The fields of the context whose values are replaced with '[REDACTED]' (at any depth, the names are compared case insensitively)
+ */
+export const defaultRedactedFields = [
+  'apiSecretKey',
+  'apiAuthKey',
+  'apiSessionKey',
+  'sessionKey',
+  'mac',
+  'iv',
+  'payload',
+  'decryptedPayload',
+  'unencryptedPayload'
+];
+
+function isPlainObject(value: unknown): value is LogContext {
+  if (value == null || typeof value != 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype == Object.prototype || prototype == null;
+}
+
+/**
+ * Returns a copy of the context where the values of the redacted fields are replaced with '[REDACTED]'
+ * @param {Object} context - the context of a log entry
+ * @param {string[]} [redactedFields=defaultRedactedFields] - the names of the fields to redact
+ */
+export function redactLogContext(context: LogContext, redactedFields: string[] = defaultRedactedFields): LogContext {
+  const redacted = redactedFields.map((field) => field.toLowerCase());
+  const redactValue = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(redactValue);
+    }
+    //Only the plain objects are copied (Errors, Dates and so on are logged as they are)
+    if (isPlainObject(value)) {
+      const copy: LogContext = {};
+      for (const field of Object.keys(value)) {
+        copy[field] = redacted.indexOf(field.toLowerCase()) != -1 ? '[REDACTED]' : redactValue(value[field]);
+      }
+      return copy;
+    }
+    return value;
+  };
+  return redactValue(context) as LogContext;
+}
+
+function mapLogger(logger: Logger, map: (context?: LogContext) => LogContext | undefined): Logger {
+  const mapped = {} as Logger;
+  for (const level of logLevels) {
+    mapped[level] = (message, context) => logger[level](message, map(context));
+  }
+  return mapped;
+}
+
+/**
+ * Returns a Logger that redacts the context of every log entry before passing it to the logger
+ * @param {Object} logger - the Logger to pass the log entries to
+ * @param {string[]} [redactedFields=defaultRedactedFields] - the names of the fields to redact
+ */
+export function createRedactingLogger(logger: Logger, redactedFields: string[] = defaultRedactedFields): Logger {
+  return mapLogger(logger, (context) => (context == undefined ? undefined : redactLogContext(context, redactedFields)));
+}
+
+/**
+ * Returns a Logger that adds the fields of baseContext to the context of every log entry (e.g. the IP address of the device)
+ */
+export function withLogContext(logger: Logger, baseContext: LogContext): Logger {
+  return mapLogger(logger, (context) => ({ ...baseContext, ...context }));
+}
+
+/**
+ * A pino style logger: the context comes first, then the message e.g. logger.warn({ deviceIp }, 'message')
+ */
+export interface PinoStyleLogger {
+  debug(context: LogContext, message: string): unknown;
+  info(context: LogContext, message: string): unknown;
+  warn(context: LogContext, message: string): unknown;
+  error(context: LogContext, message: string): unknown;
+}
+
+/**
+ * A winston style logger: the message comes first, then the context e.g. logger.warn('message', { deviceIp }) - the console works like this too
+ */
+export interface WinstonStyleLogger {
+  debug(message: string, context?: LogContext): unknown;
+  info(message: string, context?: LogContext): unknown;
+  warn(message: string, context?: LogContext): unknown;
+  error(message: string, context?: LogContext): unknown;
+}
+
+export function fromPinoStyleLogger(logger: PinoStyleLogger): Logger {
+  const adapted = {} as Logger;
+  for (const level of logLevels) {
+    adapted[level] = (message, context) => {
+      logger[level](context ?? {}, message);
+    };
+  }
+  return adapted;
+}
+
+export function fromWinstonStyleLogger(logger: WinstonStyleLogger): Logger {
+  const adapted = {} as Logger;
+  for (const level of logLevels) {
+    adapted[level] = (message, context) => {
+      if (context == undefined) {
+        logger[level](message);
+      } else {
+        logger[level](message, context);
+      }
+    };
+  }
+  return adapted;
+}
@@ -0,0 +1,329 @@
+import { ActionFailedError } from './errors';
+import { EventOfType, RemootioActionResponse, SensorStates } from './frames';
+import { Logger, noopLogger } from './logger';
+import { RemootioDevice } from './remootiodevice';
+
+/**
+ * RemootioMqttBridge class connects RemootioDevice instances to an MQTT broker. It publishes the state, the events and the availability
+ * of every device added to retained topics, subscribes to its command topic, and publishes the Home Assistant MQTT discovery configs
+ * (a cover for the gate or garage door, a binary_sensor for the doorbell and a sensor for the last key used).
+ * The bridge doesn't connect the devices and the MQTT client itself: pass a connected client of the mqtt package (mqtt.connect(url)),
+ * and connect the devices with autoReconnect and reauthenticateOnReconnect (or use a RemootioFleet and add its devices).
+ *
+ * *** Constructor ***
+ * @param {Object} client - the MQTT client, e.g. mqtt.connect('mqtt://localhost') (anything with the publish, subscribe, unsubscribe, on and removeListener methods of the mqtt package)
+ * @param {Object} [options]
+ * @param {string} [options.baseTopic='remootio'] - the topics of a device are <baseTopic>/<device id>/...
+ * @param {string|false} [options.discoveryPrefix='homeassistant'] - the prefix of the Home Assistant discovery topics, false disables the discovery
+ * @param {string} [options.deviceClass='garage'] - the device class of the Home Assistant cover ('garage' or 'gate')
+ * @param {number} [options.doorbellOffDelaySecs=5] - the doorbell binary_sensor is turned off this many seconds after the doorbell was pushed
+ * @param {Object} [options.logger] - the invalid commands and the errors of the MQTT client are logged here (see logger.ts)
+ *
+ * *** Topics ***
+ * <baseTopic>/<id>/availability - 'online' if the session is authenticated, 'offline' otherwise (retained)
+ * <baseTopic>/<id>/connection - the connectionState of the device (retained)
+ * <baseTopic>/<id>/state - the state of the gate status sensor: 'open', 'closed' or 'no sensor' (retained)
+ * <baseTopic>/<id>/event/<statechange|relaytrigger|leftopen|doorbell> - the last event of the type as JSON (retained)
+ * <baseTopic>/<id>/doorbell - 'ON' when the doorbell is pushed (not retained)
+ * <baseTopic>/<id>/command - the commands: 'open', 'close', 'trigger', 'trigger_secondary', 'restart', 'query'
+ * or JSON e.g. {"command":"hold","output":"open","minutes":5} (output is 'trigger', 'trigger_secondary', 'open' or 'close')
+ * <baseTopic>/<id>/command/result - the outcome of every command as JSON: {command, success, errorCode, code} (not retained),
+ * errorCode is the errorCode of the device response if the action failed, code is the code of the error (see errors.ts) or INVALID_COMMAND
+ *
+ * *** Methods ***
+ * @method addDevice(id, device, name) - bridges a device, the id is used in the topics (letters, digits, '_' and '-'), the name is shown in Home Assistant
+ * @method removeDevice(id) - stops bridging a device, its availability is set to 'offline'
+ * @method close() - stops bridging all the devices
+ */
+
+export interface MqttClient {
+  publish(
+    topic: string,
+    message: string,
+    options: { retain?: boolean; qos?: 0 | 1 | 2 },
+    callback?: (error?: Error) => void
+  ): unknown;
+  subscribe(topic: string, callback?: (error?: Error) => void): unknown;
+  unsubscribe(topic: string, callback?: (error?: Error) => void): unknown;
+  on(event: 'message', listener: (topic: string, payload: { toString(): string }) => void): unknown;
+  removeListener(event: 'message', listener: (topic: string, payload: { toString(): string }) => void): unknown;
+}
+
+export interface RemootioMqttBridgeOptions {
+  baseTopic?: string;
+  discoveryPrefix?: string | false;
+  deviceClass?: 'garage' | 'gate';
+  doorbellOffDelaySecs?: number;
+  logger?: Logger;
+}
+
+export type RemootioMqttCommand = 'open' | 'close' | 'trigger' | 'trigger_secondary' | 'restart' | 'query' | 'hold';
+
+interface BridgedDevice {
+  device: RemootioDevice;
+  name: string;
+  listeners: { [event: string]: (...args: never[]) => void };
+}
+
+//The outputs of the hold command
+const holdCommands: {
+  [output: string]: (device: RemootioDevice, minutes: number) => Promise<RemootioActionResponse>;
+} = {
+  trigger: (device, minutes) => device.holdTriggerOutputActive(minutes),
+  trigger_secondary: (device, minutes) => device.holdTriggerSecondaryOutputActive(minutes),
+  open: (device, minutes) => device.holdOpenOutputActive(minutes),
+  close: (device, minutes) => device.holdCloseOutputActive(minutes)
+};
+
+export class RemootioMqttBridge {
+  private client: MqttClient;
+  private baseTopic: string;
+  private discoveryPrefix: string | false;
+  private deviceClass: 'garage' | 'gate';
+  private doorbellOffDelaySecs: number;
+  private logger: Logger;
+  private devices: Map<string, BridgedDevice>;
+  private messageListener: (topic: string, payload: { toString(): string }) => void;
+
+  constructor(client: MqttClient, options?: RemootioMqttBridgeOptions) {
+    this.client = client;
+    this.baseTopic = options?.baseTopic ?? 'remootio';
+    this.discoveryPrefix = options?.discoveryPrefix ?? 'homeassistant';
+    this.deviceClass = options?.deviceClass ?? 'garage';
+    this.doorbellOffDelaySecs = options?.doorbellOffDelaySecs ?? 5;
+    this.logger = options?.logger ?? noopLogger;
+    this.devices = new Map();
+    this.messageListener = (topic, payload) => this.handleMessage(topic, payload.toString());
+    this.client.on('message', this.messageListener);
+  }
+
+  /**
+   * Bridges a device: publishes its discovery configs, availability and state, and subscribes to its command topic
+   * @param {string} id - the id of the device used in the topics (letters, digits, '_' and '-')
+   * @param {RemootioDevice} device - the device
+   * @param {string} [name=id] - the name of the device shown in Home Assistant
+   */
+  addDevice(id: string, device: RemootioDevice, name = id): void {
+    if (!/^[A-Za-z0-9_-]+$/.test(id)) {
+      throw new Error('Invalid device id ' + id + ', only letters, digits, _ and - are allowed');
+    }
+    if (this.devices.has(id)) {
+      throw new Error('A device with id ' + id + ' is already bridged');
+    }
+    const publishEvent = (type: string, event: object, timestamp?: Date) =>
+      this.publish(this.deviceTopic(id, 'event/' + type), JSON.stringify({ ...event, timestamp }), true);
+    const listeners = {
+      statechange: () => this.publishAvailability(id, device),
+      actionresponse: (response: RemootioActionResponse['response']) => this.publishState(id, response.state),
+      gatestatechange: (event: EventOfType<'StateChange'>, timestamp?: Date) => {
+        this.publishState(id, event.state);
+        publishEvent('statechange', { state: event.state, t100ms: event.t100ms }, timestamp);
+      },
+      relaytrigger: (event: EventOfType<'RelayTrigger' | 'SecondaryRelayTrigger'>, timestamp?: Date) => {
+        publishEvent('relaytrigger', { type: event.type, state: event.state, ...event.data }, timestamp);
+      },
+      leftopen: (event: EventOfType<'LeftOpen'>, timestamp?: Date) => {
+        publishEvent('leftopen', { state: event.state, timeOpen100ms: event.data.timeOpen100ms }, timestamp);
+      },
+      doorbell: (event: EventOfType<'DoorbellPushed' | 'DoorbellEnabled' | 'DoorbellDisabled'>, timestamp?: Date) => {
+        publishEvent('doorbell', { type: event.type }, timestamp);
+        if (event.type == 'DoorbellPushed') {
+          this.publish(this.deviceTopic(id, 'doorbell'), 'ON', false);
+        }
+      }
+    };
+    Object.keys(listeners).forEach((event) => {
+      device.on(event as keyof RemootioDevice.Events, listeners[event as keyof typeof listeners]);
+    });
+    this.devices.set(id, { device, name, listeners });
+
+    this.publishDiscovery(id, name);
+    this.publishAvailability(id, device);
+    if (device.gateState != undefined) {
+      this.publishState(id, device.gateState);
+    }
+    this.client.subscribe(this.deviceTopic(id, 'command'), (error) => {
+      if (error) {
+        this.logger.error('Could not subscribe to the command topic', { deviceId: id, error });
+      }
+    });
+  }
+
+  /**
+   * Stops bridging a device, its availability is set to 'offline' (the discovery configs are kept)
+   * @param {string} id - the id of the device
+   * @returns {boolean} - true if the device was bridged
+   */
+  removeDevice(id: string): boolean {
+    const bridged = this.devices.get(id);
+    if (bridged == undefined) {
+      return false;
+    }
+    this.devices.delete(id);
+    Object.keys(bridged.listeners).forEach((event) => {
+      bridged.device.removeListener(event, bridged.listeners[event] as (...args: unknown[]) => void);
+    });
+    this.client.unsubscribe(this.deviceTopic(id, 'command'));
+    this.publish(this.deviceTopic(id, 'availability'), 'offline', true);
+    return true;
+  }
+
+  /**
+   * Stops bridging all the devices (the MQTT client is not closed)
+   */
+  close(): void {
+    Array.from(this.devices.keys()).forEach((id) => this.removeDevice(id));
+    this.client.removeListener('message', this.messageListener);
+  }
+
+  private deviceTopic(id: string, topic: string): string {
+    return this.baseTopic + '/' + id + '/' + topic;
+  }
+
+  private publish(topic: string, message: string, retain: boolean): void {
+    this.client.publish(topic, message, { retain, qos: 1 }, (error) => {
+      if (error) {
+        this.logger.error('Could not publish the MQTT message', { topic, error });
+      }
+    });
+  }
+
+  private publishAvailability(id: string, device: RemootioDevice): void {
+    this.publish(this.deviceTopic(id, 'connection'), device.connectionState, true);
+    this.publish(this.deviceTopic(id, 'availability'), device.isAuthenticated ? 'online' : 'offline', true);
+  }
+
+  private publishState(id: string, state: SensorStates): void {
+    this.publish(this.deviceTopic(id, 'state'), state, true);
+  }
+
+  /**
+   * Publishes the Home Assistant MQTT discovery configs of a device
+   * @param {string} id - the id of the device
+   * @param {string} name - the name of the device
+   */
+  private publishDiscovery(id: string, name: string): void {
+    if (this.discoveryPrefix == false) {
+      return;
+    }
+    const nodeId = 'remootio_' + id;
+    const common = {
+      availability_topic: this.deviceTopic(id, 'availability'),
+      payload_available: 'online',
+      payload_not_available: 'offline',
+      device: { identifiers: [nodeId], name, manufacturer: 'Remootio' }
+    };
+    const configs: { [component: string]: { [field: string]: unknown } } = {
+      ['cover/' + nodeId + '/door']: {
+        ...common,
+        name,
+        unique_id: nodeId + '_door',
+        device_class: this.deviceClass,
+        command_topic: this.deviceTopic(id, 'command'),
+        state_topic: this.deviceTopic(id, 'state'),
+        payload_open: 'open',
+        payload_close: 'close',
+        payload_stop: null,
+        state_open: 'open',
+        state_closed: 'closed'
+      },
+      ['binary_sensor/' + nodeId + '/doorbell']: {
+        ...common,
+        name: name + ' doorbell',
+        unique_id: nodeId + '_doorbell',
+        state_topic: this.deviceTopic(id, 'doorbell'),
+        payload_on: 'ON',
+        off_delay: this.doorbellOffDelaySecs
+      },
+      ['sensor/' + nodeId + '/last_key']: {
+        ...common,
+        name: name + ' last key used',
+        unique_id: nodeId + '_last_key',
+        icon: 'mdi:key',
+        state_topic: this.deviceTopic(id, 'event/relaytrigger'),
+        value_template: '{{ value_json.keyType }} {{ value_json.keyNr }}',
+        json_attributes_topic: this.deviceTopic(id, 'event/relaytrigger')
+      }
+    };
+    Object.keys(configs).forEach((topic) => {
+      this.publish(this.discoveryPrefix + '/' + topic + '/config', JSON.stringify(configs[topic]), true);
+    });
+  }
+
+  /**
+   * Handles a message received on a command topic
+   * @param {string} topic - the topic of the message
+   * @param {string} payload - the command
+   */
+  private handleMessage(topic: string, payload: string): void {
+    const match = /^(.+)\/([^/]+)\/command$/.exec(topic);
+    if (match == null || match[1] != this.baseTopic) {
+      return;
+    }
+    const id = match[2];
+    const bridged = this.devices.get(id);
+    if (bridged == undefined) {
+      return;
+    }
+    let command: { command?: RemootioMqttCommand; output?: string; minutes?: number };
+    try {
+      command = payload.trim().charAt(0) == '{' ? JSON.parse(payload) : { command: payload.trim() };
+    } catch (e) {
+      command = {};
+    }
+    const action = this.sendCommand(bridged.device, command);
+    if (action == undefined) {
+      this.logger.warn('Invalid command received', { deviceId: id, topic, payload });
+      this.publishResult(id, { command: payload, success: false, code: 'INVALID_COMMAND' });
+      return;
+    }
+    action.then(
+      () => this.publishResult(id, { command: command.command, success: true }),
+      (error) =>
+        this.publishResult(id, {
+          command: command.command,
+          success: false,
+          errorCode: error instanceof ActionFailedError ? error.errorCode : undefined,
+          code: error?.code
+        })
+    );
+  }
+
+  private sendCommand(
+    device: RemootioDevice,
+    command: { command?: RemootioMqttCommand; output?: string; minutes?: number }
+  ): Promise<RemootioActionResponse> | undefined {
+    switch (command.command) {
+      case 'open':
+        return device.sendOpen();
+      case 'close':
+        return device.sendClose();
+      case 'trigger':
+        return device.sendTrigger();
+      case 'trigger_secondary':
+        return device.sendTriggerSecondary();
+      case 'restart':
+        return device.sendRestart();
+      case 'query':
+        return device.sendQuery();
+      case 'hold':
+        if (
+          typeof command.minutes != 'number' ||
+          typeof command.output != 'string' ||
+          !Object.prototype.hasOwnProperty.call(holdCommands, command.output)
+        ) {
+          return undefined;
+        }
+        return holdCommands[command.output](device, command.minutes);
+      default:
+        return undefined;
+    }
+  }
+
+  private publishResult(
+    id: string,
+    result: { command?: string; success: boolean; errorCode?: string; code?: string }
+  ): void {
+    this.publish(this.deviceTopic(id, 'command/result'), JSON.stringify(result), false);
+  }
+}
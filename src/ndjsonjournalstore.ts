@@ -0,0 +1,138 @@
+import { promises as fs } from 'fs';
+import {
+  applyJournalQuery,
+  journalRecordFromJson,
+  journalRecordToJson,
+  JournalQuery,
+  JournalRecord,
+  JournalStore
+} from './eventjournal';
+
+/**
+ * NdjsonJournalStore class stores the records of the event journal (see eventjournal.ts) in an append-only file, one JSON object per line.
+ * When the file would grow above maxBytes it is rotated: <path> is renamed to <path>.1, <path>.1 to <path>.2 and so on,
+ * the files above maxFiles are deleted. The queries read all the files (a line that is not valid JSON, e.g. the last line written
+ * before a crash, is skipped, the next record starts a new line).
+ *
+ * *** Constructor ***
+ * @param {string} path - the path of the file, e.g. 'remootio-journal.ndjson'
+ * @param {Object} [options]
+ * @param {number} [options.maxBytes=10485760] - the file is rotated before it grows above maxBytes (10 MiB by default)
+ * @param {number} [options.maxFiles=5] - the number of the rotated files kept (<path>.1 ... <path>.<maxFiles>)
+ */
+
+export interface NdjsonJournalStoreOptions {
+  maxBytes?: number;
+  maxFiles?: number;
+}
+
+const isNotFound = (error: unknown) => (error as { code?: string })?.code == 'ENOENT';
+
+export class NdjsonJournalStore implements JournalStore {
+  private path: string;
+  private maxBytes: number;
+  private maxFiles: number;
+  private size?: number; //the size of the current file, read when the first record is appended
+
+  constructor(path: string, options?: NdjsonJournalStoreOptions) {
+    this.path = path;
+    this.maxBytes = options?.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options?.maxFiles ?? 5;
+  }
+
+  async append(record: JournalRecord): Promise<void> {
+    let line = JSON.stringify(journalRecordToJson(record)) + '\n';
+    if (this.size == undefined) {
+      this.size = await this.currentSize();
+      if (this.size > 0 && !(await this.endsWithNewline())) {
+        line = '\n' + line; //the last line was not finished (e.g. the process crashed), the record starts a new line
+      }
+    }
+    const lineBytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + lineBytes > this.maxBytes) {
+      await this.rotate();
+      this.size = 0;
+    }
+    await fs.appendFile(this.path, line, 'utf8');
+    this.size += lineBytes;
+  }
+
+  async query(query: JournalQuery): Promise<JournalRecord[]> {
+    const records: JournalRecord[] = [];
+    //From the oldest file to the current one, so the records are in the order they were appended
+    for (const path of this.files().reverse()) {
+      let content: string;
+      try {
+        content = await fs.readFile(path, 'utf8');
+      } catch (error) {
+        if (isNotFound(error)) {
+          continue;
+        }
+        throw error;
+      }
+      content.split('\n').forEach((line) => {
+        if (line.trim() == '') {
+          return;
+        }
+        try {
+          records.push(journalRecordFromJson(JSON.parse(line)));
+        } catch (e) {
+          //skipped, see the description of the class
+        }
+      });
+    }
+    return applyJournalQuery(records, query);
+  }
+
+  close(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  private currentSize(): Promise<number> {
+    return fs.stat(this.path).then(
+      (stats) => stats.size,
+      (error) => {
+        if (isNotFound(error)) {
+          return 0;
+        }
+        throw error;
+      }
+    );
+  }
+
+  private async endsWithNewline(): Promise<boolean> {
+    const file = await fs.open(this.path, 'r');
+    try {
+      const lastByte = Buffer.alloc(1);
+      const { bytesRead } = await file.read(lastByte, 0, 1, (await file.stat()).size - 1);
+      return bytesRead == 1 && lastByte[0] == 0x0a;
+    } finally {
+      await file.close();
+    }
+  }
+
+  //The current file and the rotated ones, the newest first
+  private files(): string[] {
+    const files = [this.path];
+    for (let i = 1; i <= this.maxFiles; i++) {
+      files.push(this.path + '.' + i);
+    }
+    return files;
+  }
+
+  private async rotate(): Promise<void> {
+    const files = this.files();
+    await fs.unlink(files[files.length - 1]).catch((error) => {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    });
+    for (let i = files.length - 2; i >= 0; i--) {
+      await fs.rename(files[i], files[i + 1]).catch((error) => {
+        if (!isNotFound(error)) {
+          throw error;
+        }
+      });
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { remootioApiConstructEncrypedFrame, remootioApiDecryptEncrypedFrame } from './apicrypto';
+import { CryptoProvider } from './cryptoprovider';
+import { EncryptedFrame, ReceivedEncryptedFrameContent } from './frames';
+import { Logger, noopLogger } from './logger';
+
+/**
+ * The CryptoProvider using the crypto node module (the functions of apicrypto.ts)
+ *
+ * *** Constructor ***
+ * @param {Object} [logger] - the reason of a failed decryption is logged here (see logger.ts), nothing is logged by default
+ */
+export class NodeCryptoProvider implements CryptoProvider {
+  private logger: Logger;
+
+  constructor(logger: Logger = noopLogger) {
+    this.logger = logger;
+  }
+
+  decryptFrame(
+    frame: EncryptedFrame,
+    apiSecretKey: string,
+    apiAuthKey: string,
+    apiSessionKey?: string
+  ): Promise<ReceivedEncryptedFrameContent | undefined> {
+    return Promise.resolve(
+      remootioApiDecryptEncrypedFrame(frame, apiSecretKey, apiAuthKey, apiSessionKey, this.logger)
+    );
+  }
+
+  encryptFrame(
+    unencryptedPayload: string,
+    apiSecretKey: string,
+    apiAuthKey: string,
+    apiSessionKey?: string
+  ): Promise<EncryptedFrame | undefined> {
+    return Promise.resolve(
+      remootioApiConstructEncrypedFrame(unencryptedPayload, apiSecretKey, apiAuthKey, apiSessionKey)
+    );
+  }
+}
@@ -0,0 +1,334 @@
+import { connectionStates } from './connectionstate';
+import { RemootioErrorCode } from './errors';
+import { EventOfType, EventTypes, RemootioActionResponse } from './frames';
+import { actionTypes, connectionTypes, eventTypes, keyTypes, sensorStates } from './framevalidation';
+
+/**
+ * This module generates the OpenAPI 3.0 document of the HTTP gateway (see httpgateway.ts).
+ * The schemas of the action responses and the events are generated from the types of frames.ts: the enums come from the
+ * lists of framevalidation.ts, and the properties are typed with the fields of the frames, so the compiler makes sure they are complete.
+ * The error responses are generated from the HTTP statuses of the error codes of the gateway the same way.
+ */
+
+export interface SchemaObject {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  format?: string;
+  description?: string;
+  enum?: string[];
+  properties?: { [property: string]: SchemaObject };
+  required?: string[];
+  additionalProperties?: boolean | SchemaObject;
+  items?: SchemaObject;
+  oneOf?: SchemaObject[];
+  $ref?: string;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string }[];
+  paths: { [path: string]: unknown };
+  components: { schemas: { [name: string]: SchemaObject }; securitySchemes: { [name: string]: unknown } };
+  security: { [name: string]: string[] }[];
+}
+
+export interface OpenApiDocumentOptions {
+  title?: string;
+  version?: string;
+  serverUrl?: string;
+}
+
+//The actions of POST /devices/{id}/actions/{action} and the type of the action sent to the device
+export const gatewayActions = {
+  open: 'OPEN',
+  close: 'CLOSE',
+  trigger: 'TRIGGER',
+  'trigger-secondary': 'TRIGGER_SECONDARY',
+  restart: 'RESTART'
+} as const;
+
+export type GatewayAction = keyof typeof gatewayActions;
+
+//The error codes of the gateway: the codes of the RemootioErrors and the codes of the gateway itself
+export type RemootioHttpErrorCode =
+  | RemootioErrorCode
+  | 'UNAUTHORIZED'
+  | 'NOT_FOUND'
+  | 'DEVICE_NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'INVALID_REQUEST'
+  | 'PAYLOAD_TOO_LARGE';
+
+type ErrorStatus = 400 | 401 | 403 | 404 | 405 | 409 | 413 | 429 | 500 | 502 | 503 | 504;
+
+//The HTTP status of the errors - the compiler makes sure every error code is mapped
+export const errorStatuses: { [C in RemootioHttpErrorCode]: ErrorStatus } = {
+  UNAUTHORIZED: 401,
+  NOT_FOUND: 404,
+  DEVICE_NOT_FOUND: 404,
+  METHOD_NOT_ALLOWED: 405,
+  INVALID_REQUEST: 400,
+  PAYLOAD_TOO_LARGE: 413,
+  POLICY_VIOLATION: 403,
+  ACTION_FAILED: 409,
+  ACTION_THROTTLED: 429,
+  UNEXPECTED_ERROR: 500,
+  PROTOCOL_ERROR: 502,
+  DECRYPTION_FAILED: 502,
+  SERVER_ERROR: 502,
+  AUTHENTICATION_FAILED: 502,
+  CONNECTION_ERROR: 503,
+  PING_TIMEOUT: 503,
+  NOT_AUTHENTICATED: 503,
+  INVALID_STATE: 503,
+  ACTION_EXPIRED: 503,
+  ACTION_TIMEOUT: 504
+};
+
+//The descriptions of the error responses, the codes answered with the status are appended
+const errorStatusDescriptions: { [S in ErrorStatus]: string } = {
+  400: 'The request is invalid',
+  401: 'The bearer token is missing or invalid',
+  403: 'The action was refused by the action policy',
+  404: 'There is no device with this id, or the action is unknown',
+  405: 'The method is not allowed',
+  409: 'The device responded with an error (see errorCode)',
+  413: 'The body is too large',
+  429: 'The action was throttled (see the Retry-After header)',
+  500: 'An unexpected error occurred',
+  502: 'The device sent an invalid frame or an ERROR frame, or the authentication failed',
+  503: 'The device is not connected or the session is not authenticated',
+  504: 'The device did not respond in time'
+};
+
+const ref = (schema: string): SchemaObject => ({ $ref: '#/components/schemas/' + schema });
+
+const objectSchema = (properties: { [property: string]: SchemaObject }): SchemaObject => ({
+  type: 'object',
+  properties,
+  required: Object.keys(properties)
+});
+
+const actionResponseFields: { [F in keyof RemootioActionResponse['response']]: SchemaObject } = {
+  type: ref('ActionType'),
+  id: { type: 'integer' },
+  success: { type: 'boolean' },
+  state: ref('SensorState'),
+  t100ms: { type: 'integer', description: 'The uptime of the device in 100 ms units' },
+  relayTriggered: { type: 'boolean' },
+  errorCode: { type: 'string', description: "The reason of the failure, e.g. 'no sensor' (empty on success)" }
+};
+
+//The fields common to every event type
+const eventFields: { [F in keyof EventTypes['event']]: SchemaObject } = {
+  cnt: { type: 'integer', description: 'The event counter of the device' },
+  type: ref('EventType'),
+  state: ref('SensorState'),
+  t100ms: { type: 'integer', description: 'The uptime of the device in 100 ms units' }
+};
+
+const keyDataFields: { [F in keyof EventOfType<'RelayTrigger'>['data']]: SchemaObject } = {
+  keyNr: { type: 'integer' },
+  keyType: ref('KeyType'),
+  via: ref('ConnectionType')
+};
+
+const leftOpenDataFields: { [F in keyof EventOfType<'LeftOpen'>['data']]: SchemaObject } = {
+  timeOpen100ms: { type: 'integer' }
+};
+
+const keyManagementDataFields: { [F in keyof EventOfType<'KeyManagement'>['data']]: SchemaObject } = {
+  keyNr: { type: 'integer' },
+  keyType: ref('KeyType'),
+  bluetooth: { type: 'boolean' },
+  wifi: { type: 'boolean' },
+  internet: { type: 'boolean' },
+  notification: { type: 'boolean' },
+  isRemoved: { type: 'boolean' }
+};
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref('Error') } }
+});
+
+//The error responses of every status in errorStatuses, e.g. { '503': { description: '... (CONNECTION_ERROR, PING_TIMEOUT, ...)' } }
+const errorResponses = () => {
+  const codesByStatus: { [status: string]: RemootioHttpErrorCode[] } = {};
+  (Object.keys(errorStatuses) as RemootioHttpErrorCode[]).forEach((code) => {
+    const status = String(errorStatuses[code]);
+    codesByStatus[status] = (codesByStatus[status] ?? []).concat(code);
+  });
+  const responses: { [status: string]: ReturnType<typeof errorResponse> } = {};
+  Object.keys(codesByStatus)
+    .sort()
+    .forEach((status) => {
+      const description = errorStatusDescriptions[Number(status) as ErrorStatus];
+      responses[status] = errorResponse(description + ' (' + codesByStatus[status].join(', ') + ')');
+    });
+  return responses;
+};
+
+const deviceIdParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: { type: 'string' }
+};
+
+/**
+ * Generates the OpenAPI document of the HTTP gateway
+ * @param {Object} [options]
+ * @param {string} [options.title='Remootio HTTP gateway'] - the title of the API
+ * @param {string} [options.version='1.0.0'] - the version of the API
+ * @param {string} [options.serverUrl] - the URL the gateway is reachable at
+ */
+export function createOpenApiDocument(options?: OpenApiDocumentOptions): OpenApiDocument {
+  const eventTypesByData = (data: string) =>
+    (Object.keys(eventTypes) as (keyof typeof eventTypes)[]).filter((type) => eventTypes[type] == data);
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: options?.title ?? 'Remootio HTTP gateway',
+      version: options?.version ?? '1.0.0',
+      description: 'Controls Remootio devices and streams their events'
+    },
+    servers: options?.serverUrl != undefined ? [{ url: options.serverUrl }] : undefined,
+    paths: {
+      '/devices': {
+        get: {
+          summary: 'Lists the devices',
+          responses: {
+            '200': {
+              description: 'The state of every device',
+              content: { 'application/json': { schema: { type: 'array', items: ref('DeviceState') } } }
+            },
+            '401': errorResponse('The bearer token is missing or invalid')
+          }
+        }
+      },
+      '/devices/{id}/state': {
+        get: {
+          summary: 'Returns the connection state and the last known gate state of a device',
+          parameters: [deviceIdParameter],
+          responses: {
+            '200': { description: 'The state', content: { 'application/json': { schema: ref('DeviceState') } } },
+            '401': errorResponse('The bearer token is missing or invalid'),
+            '404': errorResponse('There is no device with this id')
+          }
+        }
+      },
+      '/devices/{id}/actions/{action}': {
+        post: {
+          summary: 'Sends an action to a device',
+          description: 'If duration is set the output is held active for duration minutes (not for restart)',
+          parameters: [
+            deviceIdParameter,
+            {
+              name: 'action',
+              in: 'path',
+              required: true,
+              schema: { type: 'string', enum: Object.keys(gatewayActions) }
+            }
+          ],
+          requestBody: {
+            required: false,
+            content: { 'application/json': { schema: ref('ActionRequest') } }
+          },
+          responses: {
+            '200': {
+              description: 'The response of the device',
+              content: { 'application/json': { schema: ref('ActionResponse') } }
+            },
+            ...errorResponses()
+          }
+        }
+      },
+      '/devices/{id}/events': {
+        get: {
+          summary: 'Streams the events of a device as Server-Sent Events',
+          description:
+            'The name of every server-sent event is the type of the event, the data is the Event as JSON. ' +
+            'The bearer token can also be passed in the access_token query parameter (EventSource cannot set headers)',
+          parameters: [deviceIdParameter],
+          responses: {
+            '200': {
+              description: 'The event stream',
+              content: { 'text/event-stream': { schema: ref('Event') } }
+            },
+            '401': errorResponse('The bearer token is missing or invalid'),
+            '404': errorResponse('There is no device with this id')
+          }
+        }
+      }
+    },
+    components: {
+      schemas: {
+        ActionType: { type: 'string', enum: Object.keys(actionTypes) },
+        SensorState: { type: 'string', enum: Object.keys(sensorStates) },
+        KeyType: { type: 'string', enum: Object.keys(keyTypes) },
+        ConnectionType: { type: 'string', enum: Object.keys(connectionTypes) },
+        EventType: { type: 'string', enum: Object.keys(eventTypes) },
+        ActionRequest: {
+          type: 'object',
+          properties: {
+            duration: { type: 'integer', description: 'Hold the output active for this many minutes' },
+            confirmationToken: { type: 'string', description: 'The confirmation token required by the action policy' }
+          }
+        },
+        ActionResponse: objectSchema({ response: objectSchema(actionResponseFields) }),
+        Event: {
+          ...objectSchema(eventFields),
+          properties: {
+            ...eventFields,
+            data: {
+              description:
+                'Only for the event types with data: ' +
+                [eventTypesByData('key'), eventTypesByData('leftopen'), eventTypesByData('keymanagement')]
+                  .map((types) => types.join(', '))
+                  .join('; ') +
+                ' respectively',
+              oneOf: [
+                objectSchema(keyDataFields),
+                objectSchema(leftOpenDataFields),
+                objectSchema(keyManagementDataFields)
+              ]
+            },
+            timestamp: { type: 'string', format: 'date-time', description: 'The time the event was received' }
+          }
+        },
+        DeviceState: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            connectionState: { type: 'string', enum: connectionStates },
+            isConnected: { type: 'boolean' },
+            isAuthenticated: { type: 'boolean' },
+            gateState: ref('SensorState'),
+            deviceUptime: { type: 'integer', description: 'The uptime of the device in 100 ms units' }
+          },
+          required: ['id', 'connectionState', 'isConnected', 'isAuthenticated']
+        },
+        Error: objectSchema({
+          error: {
+            type: 'object',
+            properties: {
+              code: {
+                type: 'string',
+                enum: Object.keys(errorStatuses),
+                description: 'The code of the error, e.g. ACTION_FAILED or DEVICE_NOT_FOUND'
+              },
+              message: { type: 'string' },
+              errorCode: { type: 'string', description: 'The errorCode of the device response (ACTION_FAILED only)' },
+              rule: { type: 'string', description: 'The rule of the action policy (POLICY_VIOLATION only)' },
+              retryAfterMs: { type: 'integer', description: 'ACTION_THROTTLED only' }
+            },
+            required: ['code', 'message']
+          }
+        })
+      },
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } }
+    },
+    security: [{ bearerAuth: [] }]
+  };
+}
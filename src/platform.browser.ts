@@ -0,0 +1,15 @@
+/**
+ * The defaults of the RemootioDevice class in browsers and React Native: the global WebSocket is used for the connection and WebCrypto for the ENCRYPTED frames.
+ * React Native has no WebCrypto, a cryptoProvider must be passed in the options there (e.g. a WebCryptoProvider using a WebCrypto polyfill).
+ */
+
+import { CryptoProvider } from './cryptoprovider';
+import { Logger } from './logger';
+import { createBrowserTransport, TransportFactory } from './transport';
+import { WebCryptoProvider } from './webcryptoprovider';
+
+export const defaultTransportFactory: TransportFactory = createBrowserTransport;
+
+export function createDefaultCryptoProvider(logger: Logger): CryptoProvider {
+  return new WebCryptoProvider(undefined, logger);
+}
@@ -0,0 +1,16 @@
+/**
+ * The defaults of the RemootioDevice class in node: the ws module is used for the connection and the crypto node module for the ENCRYPTED frames.
+ * Bundlers replace this module with platform.browser.ts in browsers and React Native (see the browser and react-native fields of package.json).
+ */
+
+import { CryptoProvider } from './cryptoprovider';
+import { NodeCryptoProvider } from './nodecryptoprovider';
+import { Logger } from './logger';
+import { TransportFactory } from './transport';
+import { createWsTransport } from './wstransport';
+
+export const defaultTransportFactory: TransportFactory = createWsTransport;
+
+export function createDefaultCryptoProvider(logger: Logger): CryptoProvider {
+  return new NodeCryptoProvider(logger);
+}
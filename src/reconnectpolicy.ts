@@ -0,0 +1,71 @@
+/**
+ * This module contains the reconnect policies used by the RemootioDevice class to decide how long to wait before reconnecting
+ * to the Remootio device after the connection is lost (if autoReconnect is enabled), and when to give up reconnecting.
+ * You can use your own policy by implementing the ReconnectPolicy interface.
+ */
+
+export interface ReconnectPolicy {
+  /**
+   * Returns the delay in milliseconds before the given reconnect attempt, or undefined to give up reconnecting
+   * @param {number} attempt - the number of the reconnect attempt (starting from 1, reset once the connection is established)
+   */
+  nextDelay(attempt: number): number | undefined;
+  /**
+   * Called when the API client gives up reconnecting
+   * @param {number} attempts - the number of failed reconnect attempts
+   */
+  onGiveUp?(attempts: number): void;
+}
+
+export interface ExponentialBackoffOptions {
+  initialDelayMs?: number;
+  multiplier?: number;
+  maxDelayMs?: number;
+  jitter?: number;
+  maxAttempts?: number;
+  onGiveUp?: (attempts: number) => void;
+}
+
+/**
+ * Reconnect policy with exponentially growing delays: initialDelayMs * multiplier^(attempt-1) capped at maxDelayMs.
+ * The delay is randomized by +-jitter (a fraction of the delay) so several clients don't reconnect at the same time.
+ * @param {Object} [options]
+ * @param {number} [options.initialDelayMs=1000] - the delay before the first reconnect attempt
+ * @param {number} [options.multiplier=2] - the delay is multiplied by this value after every failed attempt
+ * @param {number} [options.maxDelayMs=60000] - the maximum delay between two attempts
+ * @param {number} [options.jitter=0.2] - the delay is randomized by +-(jitter*delay), must be between 0 and 1
+ * @param {number} [options.maxAttempts=Infinity] - the API client gives up reconnecting after maxAttempts failed attempts
+ * @param {Function} [options.onGiveUp] - called with the number of attempts when the API client gives up reconnecting
+ */
+export class ExponentialBackoffReconnectPolicy implements ReconnectPolicy {
+  private initialDelayMs: number;
+  private multiplier: number;
+  private maxDelayMs: number;
+  private jitter: number;
+  private maxAttempts: number;
+  private giveUpCallback?: (attempts: number) => void;
+
+  constructor(options?: ExponentialBackoffOptions) {
+    this.initialDelayMs = options?.initialDelayMs ?? 1000;
+    this.multiplier = options?.multiplier ?? 2;
+    this.maxDelayMs = options?.maxDelayMs ?? 60000;
+    this.jitter = Math.min(Math.max(options?.jitter ?? 0.2, 0), 1);
+    this.maxAttempts = options?.maxAttempts ?? Infinity;
+    this.giveUpCallback = options?.onGiveUp;
+  }
+
+  nextDelay(attempt: number): number | undefined {
+    if (attempt > this.maxAttempts) {
+      return undefined;
+    }
+    const delay = Math.min(this.initialDelayMs * Math.pow(this.multiplier, attempt - 1), this.maxDelayMs);
+    //Random value between delay*(1-jitter) and delay*(1+jitter)
+    return Math.round(delay * (1 + this.jitter * (2 * Math.random() - 1)));
+  }
+
+  onGiveUp(attempts: number): void {
+    if (this.giveUpCallback != undefined) {
+      this.giveUpCallback(attempts);
+    }
+  }
+}
@@ -0,0 +1,1424 @@
+import { EventEmitter } from './eventemitter';
+import { CryptoProvider } from './cryptoprovider';
+import { createDefaultCryptoProvider, defaultTransportFactory } from './platform';
+import { createRedactingLogger, Logger, noopLogger, withLogContext } from './logger';
+import { Transport, TransportFactory } from './transport';
+import { ConnectionState, isAllowedTransition } from './connectionstate';
+import { ExponentialBackoffReconnectPolicy, ReconnectPolicy } from './reconnectpolicy';
+import { DeviceClock } from './deviceclock';
+import { EventSequence } from './eventsequence';
+import { ActionOptions, ActionQueue, OfflineQueueOptions } from './actionqueue';
+import { ActionPolicy } from './actionpolicy';
+import { ActionThrottle, ActionThrottleOptions, ThrottleState } from './actionthrottle';
+import { KeyChange, KeyHolder, KeyRegistry } from './keyregistry';
+import { asUnknownEvent, validateEncryptedFrameContent, validateReceivedFrame } from './framevalidation';
+import {
+  ActionExpiredError,
+  ActionFailedError,
+  ActionThrottledError,
+  ActionTimeoutError,
+  AuthenticationError,
+  ConnectionError,
+  DecryptionError,
+  InvalidStateError,
+  NotAuthenticatedError,
+  PingTimeoutError,
+  PolicyViolationError,
+  ProtocolError,
+  RemootioError,
+  RemootioErrorDetails,
+  ServerError
+} from './errors';
+import {
+  ActionTypes,
+  ErrorFrame,
+  EventOfType,
+  EventTypes,
+  ReceivedEncryptedFrameContent,
+  ReceivedFrames,
+  RemootioAction,
+  RemootioActionResponse,
+  SensorStates,
+  SentEcryptedFrameContent,
+  SentFrames,
+  UnknownEvent
+} from './frames';
+
+/**
+ * RemootioDevice class implements an API client for a signle device. You should create one instance per Remootio device you have.
+ * The class takes care of keeping the connection alive by sending a PING message every sendPingMessageEveryXMs milliseconds to the Remootio device.
+ * If no response is received within pingReplyTimeoutXMs=(sendPingMessageEveryXMs/2) time after a PING message, the connection is assumed to be broken.
+ *
+ * *** Constructor ***
+ * The constructor takes 3 parameters: DeviceIp, ApiSecretKey, ApiAuthKey (all of them are available in the Remootio app)
+ * @param {string} DeviceIp - the IP address of the Remootio device (this info is available in the Remootio app)
+ * @param {string} ApiSecretKey - the API Secret Key of the Remootio device (this info is available in the Remootio app)
+ * @param {string} ApiAuthKey - the API Auth Key of the Remootio device (this info is available in the Remootio app)
+ * @param {string} [sendPingMessageEveryXMs=60000] - the API client sends a ping frame to the Remootio device every sendPingMessageEveryXMs milliseconds to keep the connection alive. Remootio closes the connection if no message is received for 120 seconds. If no message is received from Remootio within (sendPingMessageEveryXMs/2) milliseconds after PING frame is sent the API client considers the connection to be broken and closes it. It's not recommended to set sendPingMessageEveryXMs below 10000 (10 seconds).
+ * @param {Object} [options] - additional options
+ * @param {number} [options.port=8080] - the port of the Remootio device's websocket API
+ * @param {number} [options.actionTimeoutMs=10000] - the promises returned by the action methods are rejected with an ActionTimeoutError if no response arrives within actionTimeoutMs milliseconds
+ * @param {Object} [options.reconnectPolicy] - decides how long to wait before reconnecting and when to give up (see reconnectpolicy.ts), defaults to an ExponentialBackoffReconnectPolicy with its default settings
+ * @param {boolean} [options.reauthenticateOnReconnect=false] - authenticate the session automatically after a successful reconnect
+ * @param {boolean} [options.resyncOnEventGap=false] - send a QUERY action to get the current state of the device if events were missed (see the eventgap event)
+ * @param {string} [options.frameValidation='lenient'] - every frame received is validated (see framevalidation.ts), invalid frames are dropped and reported by the protocolerror event.
+ * In 'strict' mode events of unknown types are invalid too, in 'lenient' mode they are passed through as UnknownEvent ({unknownEvent: {type, cnt, ...}})
+ * @param {Object} [options.cryptoProvider] - the implementation of the crypto used for the ENCRYPTED frames (see cryptoprovider.ts), defaults to a NodeCryptoProvider in node and a WebCryptoProvider in browsers
+ * @param {Function} [options.transportFactory] - creates the websocket connection to the device (see transport.ts), defaults to using the ws module in node and the global WebSocket in browsers and React Native
+ * @param {Object} [options.logger] - the log entries of the client are written here (see logger.ts) with the deviceIp and other fields like frameType and actionId as context, nothing is logged by default
+ * @param {boolean} [options.redactLogs=true] - replace the secret bearing fields of the log context (keys, MACs, payloads) with '[REDACTED]'
+ * @param {Object} [options.offlineQueue] - if it's set the actions sent while the session is not authenticated are queued and sent once the 'authenticated' event fires again
+ * (see actionqueue.ts): ttlMs (how long an action may wait, defaults to 30000) and excludedActions (the actions that are never queued, defaults to TRIGGER and TRIGGER_SECONDARY)
+ * @param {Object} [options.actionPolicy] - checks every action before it is sent (see actionpolicy.ts e.g. SafetyPolicy), the refused actions are rejected with a PolicyViolationError
+ * @param {Object} [options.actionThrottle] - rate limiting and debouncing per action type (see actionthrottle.ts) e.g. { QUERY: { coalesceWithinMs: 500 }, TRIGGER: { minIntervalMs: 3000 } }
+ * @param {Object} [options.keyRegistry] - resolves the keyNr of the events to the holder of the key (see keyregistry.ts), the relaytrigger and keyconnected events
+ * get the holder as their third parameter, and the registry is updated by the KeyManagement events (see the keychange event)
+ *
+ * *** Properties ***
+ * @property connectionState - the state of the connection: 'disconnected', 'connecting', 'connected', 'authenticating', 'authenticated', 'reconnecting' or 'closed' (see connectionstate.ts)
+ * @property isConnected - shows if the API client is connected to the Remootio device's websocket API or not
+ * @property isAuthenticated - shows if the session is authenticated or not
+ * @property deviceUptime - the estimated uptime of the Remootio device in milliseconds (undefined until the first action response or event is received)
+ * @property deviceBootTime - the estimated time the Remootio device was started at
+ * @property gateState - the last state of the gate status sensor ('open', 'closed' or 'no sensor') reported by an action response or event (undefined until the first one is received)
+ * @property throttleState - the state of the throttle per action type (the rule, the time the last action was sent at, and the number of actions sent, coalesced and rejected)
+ * @property lastEventCnt - the cnt counter of the last event received in order (kept between sessions, it starts over when the device is restarted)
+ * @property theLastActionId - gets the id of the last action sent to the Remootio API (lastActionId), any new action sent should contain the incremented value of the the last action id modulo 0x7FFFFFFF. Incrementing this value is handled automatically by the RamootioDevice class. The only time you need this property if you want to send an arbitrary ENCRYPED frame using sendEncryptedFrame()
+ *
+ * *** Methods ****
+ * @method connect(autoReconnect) - connect the API client to the Remootio device (via websocket). Throws an InvalidStateError if the client is already connected or connecting
+ * @param {boolean} autoReconnect - the API client will try to reconnect to the Remootio device when the connection is lost
+ *
+ * @method disconnect() - disconnect the API client from the Remootio device
+ *
+ * @method authenticate() - authenticates the client with the Remootio API by first sending an AUTH frame, and then sending a QUERY action as a response to the authentication challenge from the server.
+ * Returns a Promise that resolves when the session is authenticated. It is rejected with an InvalidStateError if the client is not in the connected state,
+ * with an AuthenticationError if the authentication fails, and with a ConnectionError if the connection is lost during the authentication
+ *
+ * @method connectAndAuthenticate(autoReconnect) - connects to the Remootio device and authenticates the session. Returns a Promise that resolves when the session is authenticated
+ *
+ * @method sendPing() - send a PING frame
+ *
+ * @method sendHello() - send a HELLO frame
+ *
+ * The action methods below return a Promise that resolves with the RemootioActionResponse to the action (matched by the action id).
+ * The Promise is rejected with a NotAuthenticatedError if the session is not authenticated, with an ActionFailedError if the response has success: false,
+ * with an ActionTimeoutError if no response arrives in time, and with a ConnectionError if the connection is lost before the response arrives (see errors.ts)
+ * If the offlineQueue option is set the actions sent while the session is not authenticated are queued instead, and their Promise is rejected
+ * with an ActionExpiredError if the session is not authenticated within their time to live. The last parameter of the action methods is an optional
+ * ActionOptions object: queue (set it to false to reject the action right away instead of queueing it) and ttlMs (the time to live of the action in the queue),
+ * confirmationToken and desiredState (checked by the action policy). If the action policy refuses the action its Promise is rejected with a PolicyViolationError
+ * and onThrottleDecision (called with 'sent', 'coalesced' or 'rejected'). An action rejected by the throttle is rejected with an ActionThrottledError,
+ * a coalesced action gets the result of the previous action of the same type
+ *
+ * @method sendQuery() - send a QUERY action //needs authentication
+ *
+ * @method sendTrigger() - send a TRIGGER action //needs authentication
+ *
+ * @method sendTriggerSecondary() - send a TRIGGER_SECONDARY action //needs authentication
+ *
+ * @method sendOpen() - send a OPEN action //needs authentication
+ *
+ * @method sendClose() - send a CLOSE action //needs authentication
+ *
+ * @method holdTriggerOutputActive(durationMins) Holds the output triggered by the sendTrigger command active for durationMins
+ *
+ * @method holdTriggerSecondaryOutputActive(durationMins) Holds the secondary output triggered by the sendTriggerSecondary command active for durationMins
+ *
+ * @method holdOpenOutputActive(durationMins) Holds the output triggered by the sendOpen command active for durationMins
+ *
+ * @method holdCloseOutputActive(durationMins) Holds the output triggered by the sendClose command active for durationMins
+ *
+ * @method sendRestart() - send a RESTART action //needs authentication
+ *
+ * @method deviceTimeToDate(t100ms) - converts a time reported by the device in 100 ms units since it was started (e.g. the t100ms field of the events) to a Date
+ * For example the time a LeftOpen event's gate was opened at is deviceTimeToDate(event.t100ms - event.data.timeOpen100ms)
+ *
+ * @method sendFrame(frame) - send a normal frame the sendPing and sendHello and authenticate functions above use this
+ *
+ * @method sendEncryptedFrame(unencryptedPayload) - send an encrypted frame the sendQuery, sendTrigger, sendOpen, sendClose, sendRestart functions use this
+ *
+ * *** Events ***
+ * The class emits the following events:
+ * @event connecting - when it tries to connect
+ *
+ * @event connected - when it is connected
+ *
+ * @event authenticated - when the authentication flow is finished (the client receives a response to his first QUERY action after the AUTH message)
+ *
+ * @event disconnect - when the connection is lost
+ *
+ * @event reconnecting - when the API client is going to reconnect after the connection is lost (autoReconnect is enabled) with the following two parameters
+ * @param {number} attempt - the number of the reconnect attempt (starting from 1)
+ * @param {number} nextDelayMs - the delay in milliseconds before the attempt
+ *
+ * @event reconnectfailed - when the API client gives up reconnecting (the reconnect policy returned no more delays) with the number of failed attempts as parameter
+ *
+ * @event statechange - when the state of the connection changes with the following two parameters
+ * @param {string} previousState - the state before the change
+ * @param {string} nextState - the state after the change
+ *
+ * @event devicerestart - when the Remootio device was restarted (t100ms went backwards, or a Restart event was received), once per restart with the estimated boot time as parameter
+ *
+ * @event eventgap - when events were missed (the cnt counter of an event jumped, e.g. events were generated while the connection was broken) with the following two parameters
+ * @param {number} missingFromCnt - the cnt of the first event missed
+ * @param {number} missingToCnt - the cnt of the last event missed
+ *
+ * @event eventduplicate - when an event with the same cnt as the previous one is received, with the event as parameter
+ *
+ * @event eventoutoforder - when an event older than the previous one is received, with the event as parameter
+ *
+ * @event protocolerror - when an invalid frame is received (it is dropped) with the following three parameters
+ * @param {string} problem - the description of the problem
+ * @param {Object} frame - the frame received (or its decrypted payload if the payload is invalid)
+ * @param {ProtocolError} error - the ProtocolError describing the problem (see errors.ts)
+ *
+ * @event policyviolation - when an action is refused by the action policy (it is not sent), with the PolicyViolationError as parameter
+ *
+ * @event error - if there is any error, with a RemootioError as parameter (see errors.ts): a PingTimeoutError if there was no reply to a PING frame,
+ * a DecryptionError if an ENCRYPTED frame could not be decrypted, an AuthenticationError if the automatic authentication after a reconnect failed,
+ * and a RemootioError with the UNEXPECTED_ERROR code (the exception is in its cause property) for any other problem
+ *
+ * @event outgoingmessage - the event is emitted whenever a message is sent to the API with the following two parameters
+ * @param {Object} frame - contains the javascript object of the JSON frame
+ * @param {Object} unencryptedPayload - contains the javascript object of the unencrypted payload (frame.data.payload) if it's an ENCRYPTED frame
+ *
+ * @event incomingmessage - the event is emitted whenever a message is received from the Remootio device with the following three parameters
+ * @param {Object} frame - contains the javascript object of the JSON frame received
+ * @param {Object} decryptedPayload - contains the javascript object of the decrypted payload (frame.data.payload) if it's an ENCRYPTED frame
+ * @param {Date} timestamp - the wall clock time the action response or event was created at by the device (computed from its t100ms field)
+ *
+ * The action responses, events and ERROR frames are also emitted as the typed events below (after the incomingmessage event).
+ * The listeners get the response or event object (decryptedPayload.response or decryptedPayload.event) and the timestamp as parameters.
+ * @event actionresponse - the response to any action (RemootioActionResponse.response)
+ * @event gatestatechange - StateChange event, the gate status sensor reports a new state (not to be confused with the statechange event of the connection)
+ * @event relaytrigger - RelayTrigger and SecondaryRelayTrigger events, the output was triggered (event.data contains keyNr, keyType and via).
+ * If there is a key registry the holder of the key is the third parameter
+ * @event keyconnected - Connected event, a key connected to the device (event.data contains keyNr, keyType and via). If there is a key registry the holder of the key is the third parameter
+ * @event leftopen - LeftOpen event, the gate was left open (event.data contains timeOpen100ms)
+ * @event keymanagement - KeyManagement event, a key was added, modified or removed
+ * @event keychange - if there is a key registry, when a KeyManagement event added or removed a key or changed its permissions, with the change as parameter
+ * (see KeyChange in keyregistry.ts, it is emitted after the keymanagement event)
+ * @event doorbell - DoorbellPushed, DoorbellEnabled and DoorbellDisabled events
+ * @event manualbutton - ManualButtonPushed, ManualButtonEnabled and ManualButtonDisabled events
+ * @event sensorchange - SensorEnabled, SensorFlipped and SensorDisabled events
+ * @event restart - Restart event, the device was restarted
+ * @event servererror - an ERROR frame was received with its errorMessage and a ServerError (see errors.ts) as parameters
+ *
+ */
+
+interface RemootioDeviceEvents {
+  connecting: () => void;
+  connected: () => void;
+  authenticated: () => void;
+  disconnect: () => void;
+  reconnecting: (attempt: number, nextDelayMs: number) => void;
+  reconnectfailed: (attempts: number) => void;
+  statechange: (previousState: ConnectionState, nextState: ConnectionState) => void;
+  devicerestart: (bootTime?: Date) => void;
+  eventgap: (missingFromCnt: number, missingToCnt: number) => void;
+  eventduplicate: (event: EventTypes | UnknownEvent) => void;
+  eventoutoforder: (event: EventTypes | UnknownEvent) => void;
+  protocolerror: (problem: string, frame: unknown, error: ProtocolError) => void;
+  actionresponse: (response: RemootioActionResponse['response'], timestamp?: Date) => void;
+  gatestatechange: (event: EventOfType<'StateChange'>, timestamp?: Date) => void;
+  relaytrigger: (
+    event: EventOfType<'RelayTrigger' | 'SecondaryRelayTrigger'>,
+    timestamp?: Date,
+    keyHolder?: KeyHolder
+  ) => void;
+  keyconnected: (event: EventOfType<'Connected'>, timestamp?: Date, keyHolder?: KeyHolder) => void;
+  leftopen: (event: EventOfType<'LeftOpen'>, timestamp?: Date) => void;
+  keymanagement: (event: EventOfType<'KeyManagement'>, timestamp?: Date) => void;
+  keychange: (change: KeyChange) => void;
+  doorbell: (event: EventOfType<'DoorbellPushed' | 'DoorbellEnabled' | 'DoorbellDisabled'>, timestamp?: Date) => void;
+  manualbutton: (
+    event: EventOfType<'ManualButtonPushed' | 'ManualButtonEnabled' | 'ManualButtonDisabled'>,
+    timestamp?: Date
+  ) => void;
+  sensorchange: (event: EventOfType<'SensorEnabled' | 'SensorFlipped' | 'SensorDisabled'>, timestamp?: Date) => void;
+  restart: (event: EventOfType<'Restart'>, timestamp?: Date) => void;
+  servererror: (errorMessage: ErrorFrame['errorMessage'], error: ServerError) => void;
+  policyviolation: (error: PolicyViolationError) => void;
+  error: (error: RemootioError) => void;
+  outgoingmessage: (frame?: SentFrames, unencryptedPayload?: SentEcryptedFrameContent) => void;
+  incomingmessage: (frame: ReceivedFrames, decryptedPayload?: ReceivedEncryptedFrameContent, timestamp?: Date) => void;
+}
+
+interface RemootioDeviceOptions {
+  port?: number;
+  actionTimeoutMs?: number;
+  reconnectPolicy?: ReconnectPolicy;
+  reauthenticateOnReconnect?: boolean;
+  resyncOnEventGap?: boolean;
+  frameValidation?: 'strict' | 'lenient';
+  cryptoProvider?: CryptoProvider;
+  transportFactory?: TransportFactory;
+  logger?: Logger;
+  redactLogs?: boolean;
+  offlineQueue?: OfflineQueueOptions;
+  actionPolicy?: ActionPolicy;
+  actionThrottle?: ActionThrottleOptions;
+  keyRegistry?: KeyRegistry;
+}
+
+interface PendingAction {
+  type: ActionTypes;
+  resolve: (response: RemootioActionResponse) => void;
+  reject: (error: Error) => void;
+  timeoutHandle: ReturnType<typeof setTimeout>;
+}
+
+interface QueuedActionItem {
+  durationMins?: number;
+  resolve: (response: RemootioActionResponse) => void;
+  reject: (error: Error) => void;
+}
+
+interface PendingAuthentication {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+export declare interface RemootioDevice {
+  on<E extends keyof RemootioDeviceEvents>(event: E, listener: RemootioDeviceEvents[E]): this;
+  emit<E extends keyof RemootioDeviceEvents>(event: E, ...args: Parameters<RemootioDeviceEvents[E]>): boolean;
+}
+
+export class RemootioDevice extends EventEmitter {
+  private apiSecretKey: string;
+  private apiAuthKey: string;
+  private state: ConnectionState;
+  private pendingAuthentication?: PendingAuthentication;
+  private deviceIp: string;
+  private port: number;
+  private websocketClient?: Transport;
+  private transportFactory: TransportFactory;
+  private logger: Logger;
+  private apiSessionKey?: string;
+  private lastActionId?: number;
+  private lastSentActionId?: number;
+  private pendingActions: Map<number, PendingAction>;
+  private actionQueue?: ActionQueue<QueuedActionItem>;
+  private actionPolicy?: ActionPolicy;
+  private actionThrottle?: ActionThrottle<Promise<RemootioActionResponse>>;
+  private keyRegistry?: KeyRegistry;
+  private lastGateState?: SensorStates;
+  private deviceClock: DeviceClock;
+  private eventSequence: EventSequence;
+  private resyncOnEventGap: boolean;
+  private frameValidation: 'strict' | 'lenient';
+  private cryptoProvider: CryptoProvider;
+  private incomingFrames: Promise<void>;
+  private outgoingFrames: Promise<void>;
+  private actionTimeoutMs: number;
+  private autoReconnect: boolean;
+  private reconnectPolicy: ReconnectPolicy;
+  private reauthenticateOnReconnect: boolean;
+  private reconnectAttempt: number;
+  private reconnectTimeoutHandle?: ReturnType<typeof setTimeout>;
+  private sendPingMessageEveryXMs: number;
+  private sendPingMessageIntervalHandle?: ReturnType<typeof setInterval>;
+  private pingReplyTimeoutXMs: number;
+  private pingReplyTimeoutHandle?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Constructor to create a RemootioDevice instance. You should create one instance per Remootio device you have.
+   * @param {string} DeviceIp - ip address of the device (as seen in the Remootio app) e.g. "192.168.1.155"
+   * @param {string} ApiSecretKey - API Secret Key of the device (as seen in the Remootio app). It is a hexstring representing a 256 bit long value e.g. "12b3f03211c384736b8a1906635f4abc90074e680138a689caf03485a971efb3"
+   * @param {string} ApiAuthKey - API Auth Key of the device (as seen in the Remootio app). It is a hexstring representing a 256 bit long value e.g. "74ca13b56b3c898670a67e8f36f8b8a61340738c82617ba1398ae7ca62f1670a"
+   * @param {number} [sendPingMessageEveryXMs=60000] - the API client sends a ping frame to the Remootio device every sendPingMessageEveryXMs milliseconds to keep the connection alive. Remootio closes the connection if no message is received for 120 seconds. If no message is received from Remootio within (sendPingMessageEveryXMs/2) milliseconds after PING frame is sent the API client considers the connection to be broken and closes it. It's not recommended to set sendPingMessageEveryXMs below 10000 (10 seconds).
+   * @param {Object} [options] - additional options: port (the port of the websocket API, defaults to 8080), actionTimeoutMs (how long to wait for the response to an action, defaults to 10000)
+   */
+  constructor(
+    DeviceIp: string,
+    ApiSecretKey: string,
+    ApiAuthKey: string,
+    sendPingMessageEveryXMs?: number,
+    options?: RemootioDeviceOptions
+  ) {
+    super();
+    //Every log entry gets the IP address of the device as context, the secrets are redacted unless it's disabled
+    const logger = options?.logger ?? noopLogger;
+    this.logger = withLogContext(options?.redactLogs == false ? logger : createRedactingLogger(logger), {
+      deviceIp: DeviceIp
+    });
+    //Input check
+    let hexstringRe = /[0-9A-Fa-f]{64}/g;
+    if (!hexstringRe.test(ApiSecretKey)) {
+      this.logger.error('ApiSecretKey must be a hexstring representing a 256bit long byteArray');
+    }
+    hexstringRe = /[0-9A-Fa-f]{64}/g;
+    if (!hexstringRe.test(ApiAuthKey)) {
+      this.logger.error('ApiAuthKey must be a hexstring representing a 256bit long byteArray');
+    }
+    //Set config
+    this.apiSecretKey = ApiSecretKey;
+    this.apiAuthKey = ApiAuthKey;
+    this.deviceIp = DeviceIp;
+    this.port = options?.port ?? 8080;
+    this.websocketClient = undefined;
+    this.state = 'disconnected';
+    this.pendingAuthentication = undefined; //the promise returned by authenticate() waiting for the end of the authentication flow
+    //Session related data - will be filled out by the code
+    this.apiSessionKey = undefined; //base64 encoded
+    this.lastActionId = undefined;
+    this.lastSentActionId = undefined;
+    this.pendingActions = new Map(); //actions waiting for their response, keyed by action id
+    this.actionTimeoutMs = options?.actionTimeoutMs ?? 10000;
+    //actions sent while the session is not authenticated, only if the offline queue is enabled
+    this.actionQueue = options?.offlineQueue != undefined ? new ActionQueue(options.offlineQueue) : undefined;
+    this.actionPolicy = options?.actionPolicy; //every action is allowed if there is no policy
+    this.actionThrottle = options?.actionThrottle != undefined ? new ActionThrottle(options.actionThrottle) : undefined;
+    this.keyRegistry = options?.keyRegistry; //the events are emitted without the key holders if there is no registry
+    this.lastGateState = undefined; //the last state of the gate status sensor reported by the device, kept between sessions
+    this.deviceClock = new DeviceClock(); //correlates the uptime of the device (t100ms) to the wall clock
+    this.eventSequence = new EventSequence(); //checks the cnt counter of the events to detect missed events
+    this.resyncOnEventGap = options?.resyncOnEventGap ?? false;
+    this.frameValidation = options?.frameValidation ?? 'lenient';
+    this.cryptoProvider = options?.cryptoProvider ?? createDefaultCryptoProvider(this.logger);
+    this.transportFactory = options?.transportFactory ?? defaultTransportFactory;
+    this.incomingFrames = Promise.resolve(); //the frames received are processed in order through this promise chain
+    this.outgoingFrames = Promise.resolve(); //the ENCRYPTED frames are encrypted and sent in order through this promise chain
+
+    this.autoReconnect = false; //Reconnect automatically if connection is lost
+    this.reconnectPolicy = options?.reconnectPolicy ?? new ExponentialBackoffReconnectPolicy();
+    this.reauthenticateOnReconnect = options?.reauthenticateOnReconnect ?? false;
+    this.reconnectAttempt = 0; //the number of reconnect attempts since the connection was lost, reset once it's established again
+    this.reconnectTimeoutHandle = undefined;
+
+    if (sendPingMessageEveryXMs) {
+      this.sendPingMessageEveryXMs = sendPingMessageEveryXMs; //in ms , send a ping message every PingMessagePeriodicity time, a PONG reply is expected
+    } else {
+      this.sendPingMessageEveryXMs = 60000;
+    }
+
+    this.sendPingMessageIntervalHandle = undefined; //we fire up a setInterval upon connection to the device to send ping messages every x seconds
+    this.pingReplyTimeoutXMs = this.sendPingMessageEveryXMs / 2; //in ms, if a PONG frame (or any other frame) doesn't arrive pingReplyTimeoutXMs milliseconds after we send a PING frame, we assume the connection is broken
+    this.pingReplyTimeoutHandle = undefined; //We check for pong response for all our ping messages, if they don't arrive we assume the connection is broken and close it
+  }
+
+  /**
+   * Connect to the Remootio device's websocket API
+   * It can only be called in the disconnected or closed state, otherwise an InvalidStateError is thrown.
+   * @param {boolean} autoReconnect - If autoReconnect is true, the API client will try to reconnect to the device everytime the connection is lost (recommended)
+   */
+  public connect(autoReconnect: boolean): void {
+    if (!isAllowedTransition(this.state, 'connecting')) {
+      throw new InvalidStateError('connect', this.state, this.errorDetails());
+    }
+    if (this.reconnectTimeoutHandle != undefined) {
+      clearTimeout(this.reconnectTimeoutHandle);
+      this.reconnectTimeoutHandle = undefined;
+    }
+    if (autoReconnect == true) {
+      this.autoReconnect = true;
+    }
+
+    //Set session data to NULL
+    this.apiSessionKey = undefined;
+    this.lastActionId = undefined;
+    this.lastSentActionId = undefined;
+    this.deviceClock.reset();
+
+    //We connect to the API
+    const url = 'ws://' + this.deviceIp + ':' + this.port + '/';
+    this.logger.info('Connecting to the Remootio device', { url });
+    const websocketClient = this.transportFactory(url, {
+      onOpen: () => this.handleOpen(websocketClient),
+      onMessage: (data) => this.handleMessage(websocketClient, data),
+      onClose: () => this.handleClose(websocketClient)
+    });
+    this.websocketClient = websocketClient;
+    this.setState('connecting');
+    this.emit('connecting');
+  }
+
+  /**
+   * Handles the connection being established
+   * @param {Object} websocketClient - the connection that was opened
+   */
+  private handleOpen(websocketClient: Transport): void {
+    if (this.websocketClient !== websocketClient || this.state != 'connecting') {
+      return; //disconnect() was called while connecting
+    }
+    const isReconnect = this.reconnectAttempt > 0;
+    this.reconnectAttempt = 0;
+    this.logger.info('Connected to the Remootio device');
+    this.setState('connected');
+    this.emit('connected');
+
+    //Authenticate automatically after a reconnect if it's enabled (and the 'connected' event handler didn't do it already)
+    if (isReconnect && this.reauthenticateOnReconnect && this.connectionState == 'connected') {
+      this.authenticate()
+        .catch((e) => {
+          //A frame that could not be decrypted was emitted as an error event already
+          if (!(e instanceof AuthenticationError && e.cause instanceof DecryptionError)) {
+            this.emit('error', this.toRemootioError(e));
+          }
+        })
+        .catch((e) => {
+          //There is no error listener (or it threw), the failure must not become an unhandled rejection
+          this.logger.error('The authentication after the reconnect failed', { error: e });
+        });
+    }
+
+    //We send a ping message every 60 seconds to keep the connection alive
+    //If the Remootio API gets no message for 120 seconds, it closes the connection
+    this.sendPingMessageIntervalHandle = setInterval(() => {
+      if (this.websocketClient?.isOpen) {
+        //Create a timeout that is cleared once a PONG message is received - if it doesn't arrive, we assume the connection is broken
+        this.pingReplyTimeoutHandle = setTimeout(() => {
+          this.logger.warn('No response for PING message, closing the connection', {
+            pingReplyTimeoutMs: this.pingReplyTimeoutXMs
+          });
+          this.emit('error', new PingTimeoutError(this.pingReplyTimeoutXMs, this.errorDetails()));
+          if (this.websocketClient) {
+            this.websocketClient.terminate();
+            this.pingReplyTimeoutHandle = undefined;
+          }
+        }, this.pingReplyTimeoutXMs);
+        this.sendPing();
+      }
+    }, this.sendPingMessageEveryXMs);
+  }
+
+  /**
+   * Handles a frame received from the Remootio device
+   * @param {Object} websocketClient - the connection the frame was received on
+   * @param {string} data - the frame received
+   */
+  private handleMessage(websocketClient: Transport, data: string): void {
+    //If we get any reply after our PING message (not only PONG) we clear the pingReplyTimeout
+    if (this.pingReplyTimeoutHandle != undefined) {
+      clearTimeout(this.pingReplyTimeoutHandle);
+      this.pingReplyTimeoutHandle = undefined;
+    }
+    //The frames are processed one after the other in the order they arrived (the decryption may be asynchronous)
+    //A listener throwing (or an error event without an error listener) must not break the chain, the next frames are still processed
+    this.incomingFrames = this.incomingFrames
+      .then(() => this.handleIncomingFrame(websocketClient, data))
+      .catch((e) => {
+        this.logger.error('Failed to process the frame received', { error: e });
+      });
+  }
+
+  /**
+   * Handles the connection being closed (or the connection attempt failing)
+   * @param {Object} websocketClient - the connection that was closed
+   */
+  private handleClose(websocketClient: Transport): void {
+    if (this.websocketClient !== websocketClient) {
+      return; //A new connection was already started, this one doesn't affect the state anymore
+    }
+
+    //Clear the ping message interval if the connection is lost
+    if (this.sendPingMessageIntervalHandle != undefined) {
+      clearInterval(this.sendPingMessageIntervalHandle);
+      this.sendPingMessageIntervalHandle = undefined;
+    }
+
+    this.logger.info('The connection to the Remootio device was closed', {
+      pendingActions: this.pendingActions.size
+    });
+
+    //The responses to the actions in flight will never arrive
+    this.rejectPendingActions(
+      new ConnectionError('The connection to the Remootio device was lost', this.errorDetails())
+    );
+    this.settlePendingAuthentication(
+      new ConnectionError('The connection to the Remootio device was lost', this.errorDetails())
+    );
+
+    if (this.state != 'closed') {
+      this.setState(this.autoReconnect == true ? 'reconnecting' : 'disconnected');
+    }
+
+    this.emit('disconnect');
+
+    if (this.state == 'reconnecting') {
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Disconnect from the Remootio device's websocket API
+   * it sents autoConnect to false, so even if you have enabled it in your connect method it will not reconnect automatically.
+   */
+  disconnect(): void {
+    this.rejectQueuedActions(new ConnectionError('The client was disconnected', this.errorDetails()));
+    if (this.websocketClient != undefined && this.state != 'disconnected' && this.state != 'closed') {
+      this.autoReconnect = false; //We disable autoreconnect if we disconnect due to user will
+      if (this.reconnectTimeoutHandle != undefined) {
+        clearTimeout(this.reconnectTimeoutHandle);
+        this.reconnectTimeoutHandle = undefined;
+      }
+      this.reconnectAttempt = 0;
+      this.setState('closed');
+      this.websocketClient.close();
+    }
+  }
+
+  /**
+   * Sends an arbitrary frame to the Remootio device's websocket API
+   * @param {Object} frameJson - Is a javascript object that will be stringified and sent to the Remootio API. A valid frameJson example for the HELLO frame is:
+   * {
+   *     type:"HELLO"
+   * }
+   */
+  sendFrame(frameJson: SentFrames): void {
+    if (this.websocketClient != undefined && this.websocketClient.isOpen) {
+      this.websocketClient.send(JSON.stringify(frameJson));
+      this.logger.debug('Frame sent', { frameType: frameJson.type });
+      this.emit('outgoingmessage', frameJson, undefined);
+    } else {
+      this.logger.warn('The websocket client is not connected', { frameType: frameJson.type });
+    }
+  }
+
+  /**
+   * Sends an ENCRYPTED frame with an arbitrary payload to the Remootio device's websocket API
+   * @param {Object} unencryptedPayload - Is a javascript object that will be encrypted and placed into the ENCRYPTED frame's frame.data.payload. An example for a QUERY action is:
+   * {
+   *     action:{
+   *         type:"QUERY",
+   *         lastActionId = 321
+   *     }
+   * } where lastActionId must be an increment modulo 0x7FFFFFFF of the last action id (you can get this using the lastActionId property of the RemootioDevice class)
+   */
+  sendEncryptedFrame(unencryptedPayload: RemootioAction): void {
+    if (this.websocketClient != undefined && this.websocketClient.isOpen) {
+      if (this.apiSessionKey != undefined) {
+        const websocketClient = this.websocketClient;
+        const apiSessionKey = this.apiSessionKey;
+        //The frames are sent in the order of the calls even if the encryption is asynchronous (the action ids must be sent in increasing order)
+        this.outgoingFrames = this.outgoingFrames
+          .then(() =>
+            this.cryptoProvider.encryptFrame(
+              JSON.stringify(unencryptedPayload),
+              this.apiSecretKey,
+              this.apiAuthKey,
+              apiSessionKey
+            )
+          )
+          .then((encryptedFrame) => {
+            if (encryptedFrame == undefined || !websocketClient.isOpen) {
+              return; //the connection was lost in the meantime
+            }
+            websocketClient.send(JSON.stringify(encryptedFrame));
+            this.logger.debug('Frame sent', {
+              frameType: encryptedFrame.type,
+              actionType: unencryptedPayload.action.type,
+              actionId: unencryptedPayload.action.id
+            });
+            this.emit('outgoingmessage', encryptedFrame, unencryptedPayload);
+          })
+          .catch((e) => {
+            this.emit('error', this.toRemootioError(e));
+          })
+          .catch((e) => {
+            //There is no error listener (or it threw), the next frames are still sent
+            this.logger.error('Failed to send the frame', { error: e });
+          });
+      } else {
+        this.logger.warn('Authenticate session first to send this message', {
+          frameType: 'ENCRYPTED',
+          actionType: unencryptedPayload.action.type,
+          actionId: unencryptedPayload.action.id
+        });
+      }
+    } else {
+      this.logger.warn('The websocket client is not connected', {
+        frameType: 'ENCRYPTED',
+        actionType: unencryptedPayload.action.type,
+        actionId: unencryptedPayload.action.id
+      });
+    }
+  }
+
+  /**
+   * Handles the authentication flow. It sends an AUTH frame, and then extracts the sessionKey and initialActionId from the response, then swaps the encryption keys
+   * to the sessionKey and performs a valid QUERY action to finish the authentication successfully.
+   * The returned Promise resolves when the session is authenticated. It is rejected with an InvalidStateError if the client is not in the connected state
+   * (e.g. the session is already authenticated), with an AuthenticationError if the Remootio device rejects the authentication, and with a ConnectionError if the connection is lost.
+   */
+  authenticate(): Promise<void> {
+    const promise = new Promise<void>((resolve, reject) => {
+      if (!isAllowedTransition(this.state, 'authenticating') || this.state == 'closed') {
+        reject(new InvalidStateError('authenticate', this.state, this.errorDetails()));
+        return;
+      }
+      this.setState('authenticating');
+      this.pendingAuthentication = { resolve, reject };
+      this.sendFrame({
+        type: 'AUTH'
+      });
+    });
+    //Callers that only listen to the 'authenticated' event may ignore the returned promise, so a rejection must not be reported as unhandled
+    promise.catch(() => {
+      //Handled by the caller (if it wants to)
+    });
+    return promise;
+  }
+
+  /**
+   * Connects to the Remootio device's websocket API and authenticates the session.
+   * The returned Promise resolves when the session is authenticated, and it is rejected if the connection can't be established or the authentication fails
+   * (see authenticate() for the possible errors).
+   * @param {boolean} [autoReconnect=false] - If autoReconnect is true, the API client will try to reconnect to the device everytime the connection is lost
+   */
+  connectAndAuthenticate(autoReconnect = false): Promise<void> {
+    const promise = new Promise<void>((resolve, reject) => {
+      const onStateChange = (_previousState: ConnectionState, nextState: ConnectionState) => {
+        if (nextState == 'connected') {
+          this.removeListener('statechange', onStateChange);
+          this.authenticate().then(resolve, reject);
+        } else if (nextState == 'disconnected' || nextState == 'reconnecting' || nextState == 'closed') {
+          this.removeListener('statechange', onStateChange);
+          reject(new ConnectionError('Could not connect to the Remootio device', this.errorDetails()));
+        }
+      };
+      this.on('statechange', onStateChange);
+      try {
+        this.connect(autoReconnect);
+      } catch (e) {
+        this.removeListener('statechange', onStateChange);
+        reject(e);
+      }
+    });
+    promise.catch(() => {
+      //Handled by the caller (if it wants to)
+    });
+    return promise;
+  }
+
+  /**
+   * Sends a HELLO frame to the Remootio device API. The expected response is a SERVER_HELLO frame
+   */
+  sendHello(): void {
+    this.sendFrame({
+      type: 'HELLO'
+    });
+  }
+
+  /**
+   * Sends a PING frame to the Remootio device API. The expected response is a PONG frame. The RemootioDevice class sends periodic PING frames automatically to keep the connection alive.
+   */
+  sendPing(): void {
+    this.sendFrame({
+      type: 'PING'
+    });
+  }
+
+  /**
+   * Sends a QUERY action in an ENCRYPTED frame to the Remootio device API.
+   * The response ENCRYPTED frame contains the gate status (open/closed)
+   */
+  sendQuery(options?: ActionOptions): Promise<RemootioActionResponse> {
+    return this.sendAction('QUERY', undefined, options);
+  }
+
+  /**
+   * Sends a TRIGGER action in an ENCRYPTED frame to the Remootio device API.
+   * This action triggers the output of the Remootio device. (so it opens/closes your gate or garage door depending on how your gate or garage door opener is set up)
+   */
+  sendTrigger(options?: ActionOptions): Promise<RemootioActionResponse> {
+    return this.sendAction('TRIGGER', undefined, options);
+  }
+
+  /**
+   * Sends a TRIGGER_SECONDARY action in an ENCRYPTED frame to the Remootio device API.
+   * The action requires you to have a Remootio 2 device with one control output configured to be a "free relay output"
+   * This action triggers the free relay output of the Remootio device.
+   * Only supported in API version 2 or above
+   */
+  sendTriggerSecondary(options?: ActionOptions): Promise<RemootioActionResponse> {
+    return this.sendAction('TRIGGER_SECONDARY', undefined, options);
+  }
+
+  /**
+   * Sends an OPEN action in an ENCRYPTED frame to the Remootio device API.
+   * This action triggers the output of the Remootio device to open the gate or garage door only if the gate or garage door is currently closed.
+   * This action returns an error response if there is no gate status sensor installed.
+   */
+  sendOpen(options?: ActionOptions): Promise<RemootioActionResponse> {
+    return this.sendAction('OPEN', undefined, options);
+  }
+
+  /**
+   * Sends an CLOSE action in an ENCRYPTED frame to the Remootio device API.
+   * This action triggers the output of the Remootio device to close the gate or garage door only if the gate or garage door is currently open.
+   * This action returns an error response if there is no gate status sensor installed.
+   */
+  sendClose(options?: ActionOptions): Promise<RemootioActionResponse> {
+    return this.sendAction('CLOSE', undefined, options);
+  }
+
+  /**
+   * Sends a TRIGGER action with hold active duration in an ENCRYPTED frame to the Remootio device API.
+   * This action triggers the output of the Remootio device and holds it active for the duration specified in minutes
+   */
+  holdTriggerOutputActive(durationMins: number, options?: ActionOptions): Promise<RemootioActionResponse> {
+    return this.sendAction('TRIGGER', durationMins, options);
+  }
+
+  /**
+   * Sends a TRIGGER_SECONDARY action with hold active duration in an ENCRYPTED frame to the Remootio device API.
+   * This action triggers the secondary output of the Remootio device and holds it active for the duration specified in minutes
+   */
+  holdTriggerSecondaryOutputActive(durationMins: number, options?: ActionOptions): Promise<RemootioActionResponse> {
+    return this.sendAction('TRIGGER_SECONDARY', durationMins, options);
+  }
+
+  /**
+   * Sends a OPEN action with hold active duration in an ENCRYPTED frame to the Remootio device API.
+   * This action triggers the open direction output of the Remootio device and holds it active for the duration specified in minutes
+   */
+  holdOpenOutputActive(durationMins: number, options?: ActionOptions): Promise<RemootioActionResponse> {
+    return this.sendAction('OPEN', durationMins, options);
+  }
+
+  /**
+   * Sends a CLOSE action with hold active duration in an ENCRYPTED frame to the Remootio device API.
+   * This action triggers the close direction output of the Remootio device and holds it active for the duration specified in minutes
+   */
+  holdCloseOutputActive(durationMins: number, options?: ActionOptions): Promise<RemootioActionResponse> {
+    return this.sendAction('CLOSE', durationMins, options);
+  }
+
+  /**
+   * Sends an RESTART action in an ENCRYPTED frame to the Remootio device API.
+   * This action triggers a restart of the Remootio device.
+   */
+  sendRestart(options?: ActionOptions): Promise<RemootioActionResponse> {
+    return this.sendAction('RESTART', undefined, options);
+  }
+
+  /**
+   * Converts a time reported by the Remootio device (in 100 ms units since the device was started) to wall clock time.
+   * Returns undefined if no action response or event was received in this session yet.
+   * @param {number} t100ms - e.g. the t100ms field of an event, or event.t100ms - event.data.timeOpen100ms for the time a LeftOpen event's gate was opened at
+   */
+  deviceTimeToDate(t100ms: number): Date | undefined {
+    return this.deviceClock.toDate(t100ms);
+  }
+
+  /**
+   * Sends an action with the next action id in an ENCRYPTED frame and returns a Promise that is settled when the response with the same id arrives.
+   * Several actions can be in flight at the same time, each of them gets its own action id.
+   * If the offline queue is enabled and the session is not authenticated the action is queued (unless it's excluded), it gets its action id when it's sent.
+   * @param {string} type - the type of the action
+   * @param {number} [durationMins] - the duration to hold the output active for (only for TRIGGER, TRIGGER_SECONDARY, OPEN and CLOSE actions)
+   * @param {Object} [options] - the options of the action (see ActionOptions)
+   * @param {boolean} [checkLimits=true] - check the action with the action policy and the throttle (the QUERY action of the authentication flow is not checked)
+   */
+  private sendAction(
+    type: ActionTypes,
+    durationMins?: number,
+    options?: ActionOptions,
+    checkLimits = true
+  ): Promise<RemootioActionResponse> {
+    const now = Date.now();
+    let isSent = false; //the action was sent or queued, the policy and the throttle have to know about it (the rejected actions don't count)
+    const policyRequest = { type, durationMins, options };
+    const policyContext = { now: new Date(now), gateState: this.lastGateState };
+    const promise = new Promise<RemootioActionResponse>((resolve, reject) => {
+      if (checkLimits && this.actionPolicy != undefined) {
+        const violation = this.actionPolicy.check(policyRequest, policyContext);
+        if (violation != undefined) {
+          const policyViolationError = new PolicyViolationError(type, violation, this.errorDetails());
+          this.logger.warn('The action was refused by the action policy', { actionType: type, rule: violation.rule });
+          reject(policyViolationError);
+          this.emit('policyviolation', policyViolationError);
+          return;
+        }
+      }
+      if (checkLimits && this.actionThrottle != undefined) {
+        const throttleCheck = this.actionThrottle.check(type, durationMins, now);
+        if (options?.onThrottleDecision != undefined) {
+          options.onThrottleDecision(throttleCheck.decision);
+        }
+        if (throttleCheck.decision == 'coalesced') {
+          this.logger.debug('The action was coalesced with the previous one', { actionType: type });
+          throttleCheck.result.then(resolve, reject);
+          return;
+        }
+        if (throttleCheck.decision == 'rejected') {
+          this.logger.info('The action was sent too recently', {
+            actionType: type,
+            retryAfterMs: throttleCheck.retryAfterMs
+          });
+          reject(new ActionThrottledError(type, throttleCheck.retryAfterMs, this.errorDetails()));
+          return;
+        }
+      }
+      if (
+        this.actionQueue != undefined &&
+        this.state != 'authenticated' &&
+        this.state != 'closed' &&
+        this.actionQueue.accepts(type, options)
+      ) {
+        const queuedAction = this.actionQueue.add(
+          type,
+          { durationMins, resolve, reject },
+          (expiredAction) => {
+            this.logger.warn('The queued action expired', { actionType: type, ttlMs: expiredAction.ttlMs });
+            reject(new ActionExpiredError(type, expiredAction.ttlMs, this.errorDetails()));
+          },
+          options
+        );
+        isSent = true;
+        this.logger.info('Action queued until the session is authenticated', {
+          actionType: type,
+          ttlMs: queuedAction.ttlMs
+        });
+        return;
+      }
+      if (this.websocketClient == undefined || !this.websocketClient.isOpen) {
+        reject(new ConnectionError('The websocket client is not connected', this.errorDetails()));
+        return;
+      }
+      if (this.apiSessionKey == undefined || this.lastActionId == undefined || this.lastSentActionId == undefined) {
+        reject(new NotAuthenticatedError(undefined, this.errorDetails()));
+        return;
+      }
+      isSent = true;
+      this.dispatchAction(type, durationMins, resolve, reject);
+    });
+    if (checkLimits && isSent && this.actionThrottle != undefined) {
+      this.actionThrottle.record(type, durationMins, now, promise);
+    }
+    if (checkLimits && isSent && this.actionPolicy?.record != undefined) {
+      this.actionPolicy.record(policyRequest, policyContext);
+    }
+    //Callers that are not interested in the result may ignore the returned promise, so a rejection must not be reported as unhandled
+    promise.catch(() => {
+      //Handled by the caller (if it wants to)
+    });
+    return promise;
+  }
+
+  /**
+   * Sends an action with the next action id, the promise of the action is settled by the resolve and reject functions when its response arrives.
+   * The session must be authenticated.
+   * @param {string} type - the type of the action
+   * @param {number} [durationMins] - the duration to hold the output active for
+   * @param {Function} resolve - resolves the promise of the action
+   * @param {Function} reject - rejects the promise of the action
+   */
+  private dispatchAction(
+    type: ActionTypes,
+    durationMins: number | undefined,
+    resolve: (response: RemootioActionResponse) => void,
+    reject: (error: Error) => void
+  ): void {
+    if (this.lastActionId == undefined || this.lastSentActionId == undefined) {
+      reject(new NotAuthenticatedError(undefined, this.errorDetails()));
+      return;
+    }
+    //If no other action is in flight we continue from the last action id acknowledged by the device,
+    //otherwise from the id of the last action sent, so concurrent actions get consecutive ids
+    const previousActionId = this.pendingActions.size > 0 ? this.lastSentActionId : this.lastActionId;
+    const id = (previousActionId + 1) % 0x7fffffff; //set frame counter to be last frame id + 1
+    this.lastSentActionId = id;
+
+    const timeoutHandle = setTimeout(() => {
+      this.pendingActions.delete(id);
+      reject(new ActionTimeoutError(type, id, this.actionTimeoutMs, this.errorDetails()));
+    }, this.actionTimeoutMs);
+    this.pendingActions.set(id, { type, resolve, reject, timeoutHandle });
+
+    const action = (durationMins != undefined
+      ? { type, id, duration: durationMins }
+      : { type, id }) as RemootioAction['action'];
+    this.sendEncryptedFrame({ action });
+  }
+
+  /**
+   * Sends the queued actions (in the order they were queued) with fresh action ids once the session is authenticated
+   */
+  private sendQueuedActions(): void {
+    if (this.actionQueue == undefined || this.state != 'authenticated' || this.actionQueue.size == 0) {
+      return;
+    }
+    const queuedActions = this.actionQueue.takeAll();
+    this.logger.info('Sending the queued actions', { queuedActions: queuedActions.length });
+    for (const queuedAction of queuedActions) {
+      const { durationMins, resolve, reject } = queuedAction.item;
+      this.dispatchAction(queuedAction.type, durationMins, resolve, reject);
+    }
+  }
+
+  /**
+   * Rejects the promises of all queued actions
+   * @param {Error} error - the error the promises are rejected with
+   */
+  private rejectQueuedActions(error: Error): void {
+    if (this.actionQueue != undefined) {
+      this.actionQueue.takeAll().forEach((queuedAction) => queuedAction.item.reject(error));
+    }
+  }
+
+  /**
+   * Moves the connection to the next state and emits the statechange event. Throws an InvalidStateError if the transition is not allowed
+   * @param {string} nextState - the next state of the connection
+   */
+  private setState(nextState: ConnectionState): void {
+    const previousState = this.state;
+    if (!isAllowedTransition(previousState, nextState)) {
+      throw new InvalidStateError('go to the ' + nextState + ' state', previousState, this.errorDetails());
+    }
+    this.state = nextState;
+    this.emit('statechange', previousState, nextState);
+  }
+
+  /**
+   * Schedules the next reconnect attempt using the reconnect policy, or gives up reconnecting if the policy says so
+   */
+  private scheduleReconnect(): void {
+    this.reconnectAttempt++;
+    const nextDelayMs = this.reconnectPolicy.nextDelay(this.reconnectAttempt);
+    if (nextDelayMs == undefined) {
+      const attempts = this.reconnectAttempt - 1;
+      this.reconnectAttempt = 0;
+      this.setState('disconnected');
+      if (this.reconnectPolicy.onGiveUp != undefined) {
+        this.reconnectPolicy.onGiveUp(attempts);
+      }
+      this.logger.warn('Gave up reconnecting to the Remootio device', { attempts });
+      this.emit('reconnectfailed', attempts);
+      return;
+    }
+    this.logger.info('Reconnecting to the Remootio device', { attempt: this.reconnectAttempt, nextDelayMs });
+    this.emit('reconnecting', this.reconnectAttempt, nextDelayMs);
+    this.reconnectTimeoutHandle = setTimeout(() => {
+      this.reconnectTimeoutHandle = undefined;
+      if (this.state == 'reconnecting') {
+        this.connect(this.autoReconnect);
+      }
+    }, nextDelayMs);
+  }
+
+  /**
+   * Settles the promise returned by authenticate() (if there is one)
+   * @param {Error} [error] - the error to reject the promise with, the promise is resolved if it's undefined
+   */
+  private settlePendingAuthentication(error?: Error): void {
+    const pendingAuthentication = this.pendingAuthentication;
+    this.pendingAuthentication = undefined;
+    if (pendingAuthentication != undefined) {
+      if (error != undefined) {
+        pendingAuthentication.reject(error);
+      } else {
+        pendingAuthentication.resolve();
+      }
+    }
+  }
+
+  /**
+   * Checks the cnt counter of an event and emits the eventgap, eventduplicate or eventoutoforder event if needed
+   * @param {Object} event - the decrypted event
+   */
+  private checkEventSequence(event: EventTypes | UnknownEvent): void {
+    const cnt = 'event' in event ? event.event.cnt : event.unknownEvent.cnt;
+    if (typeof cnt != 'number') {
+      return;
+    }
+    const sequenceCheck = this.eventSequence.check(cnt);
+    if (sequenceCheck.result == 'gap') {
+      this.emit('eventgap', sequenceCheck.missingFromCnt, sequenceCheck.missingToCnt);
+      if (this.resyncOnEventGap && this.state == 'authenticated') {
+        this.sendQuery().catch(() => {
+          //The state will be resynchronized by the next event or action response anyway
+        });
+      }
+    } else if (sequenceCheck.result == 'duplicate') {
+      this.emit('eventduplicate', event);
+    } else if (sequenceCheck.result == 'outoforder') {
+      this.emit('eventoutoforder', event);
+    }
+  }
+
+  /**
+   * Processes a frame received from the Remootio device
+   * @param {Object} websocketClient - the connection the frame was received on
+   * @param {string} data - the frame received
+   */
+  private async handleIncomingFrame(websocketClient: Transport, data: string): Promise<void> {
+    if (this.websocketClient !== websocketClient) {
+      return; //A new connection was already started, the frames of this one are not processed anymore
+    }
+    try {
+      //We process the messsage received from the API
+      let rcvMsg: unknown;
+      try {
+        rcvMsg = JSON.parse(data); //It must be JSON format
+      } catch (e) {
+        this.handleProtocolError('The frame is not valid JSON', data, e);
+        return;
+      }
+
+      //Invalid frames are dropped
+      const frameProblem = validateReceivedFrame(rcvMsg);
+      if (frameProblem != undefined) {
+        this.handleProtocolError(frameProblem, rcvMsg);
+        return;
+      }
+      const rcvMsgJson = rcvMsg as ReceivedFrames;
+      this.logger.debug('Frame received', { frameType: rcvMsgJson.type });
+
+      //we process the incoming frames
+      if (rcvMsgJson && rcvMsgJson.type == 'ENCRYPTED') {
+        //if it's an encrypted frame we decrypt it and then this.emit the event
+        let decryptedPayload = await this.cryptoProvider.decryptFrame(
+          rcvMsgJson,
+          this.apiSecretKey,
+          this.apiAuthKey,
+          this.apiSessionKey
+        );
+        if (this.websocketClient !== websocketClient) {
+          return; //A new connection was started while the frame was decrypted
+        }
+        if (decryptedPayload != undefined) {
+          const payloadProblem = validateEncryptedFrameContent(decryptedPayload);
+          if (payloadProblem != undefined) {
+            const unknownEvent = this.frameValidation == 'lenient' ? asUnknownEvent(decryptedPayload) : undefined;
+            if (unknownEvent == undefined) {
+              this.handleProtocolError(payloadProblem, decryptedPayload);
+              return;
+            }
+            decryptedPayload = unknownEvent;
+          }
+        }
+        //Responses and events carry the uptime of the device, we convert it to wall clock time
+        let timestamp: Date | undefined = undefined;
+        if (decryptedPayload != undefined && !('challenge' in decryptedPayload)) {
+          let t100ms: unknown;
+          if ('response' in decryptedPayload) {
+            t100ms = decryptedPayload.response.t100ms;
+          } else if ('event' in decryptedPayload) {
+            t100ms = decryptedPayload.event.t100ms;
+          } else {
+            t100ms = decryptedPayload.unknownEvent.t100ms;
+          }
+          if (typeof t100ms == 'number') {
+            const isRestartEvent = 'event' in decryptedPayload && decryptedPayload.event.type == 'Restart';
+            const clockUpdate = this.deviceClock.update(t100ms, Date.now(), isRestartEvent);
+            timestamp = clockUpdate.timestamp;
+            if (clockUpdate.restarted) {
+              this.eventSequence.reset(); //the event counter starts over too
+              this.emit('devicerestart', this.deviceClock.bootDate);
+            }
+          }
+        }
+        if (decryptedPayload != undefined && ('event' in decryptedPayload || 'unknownEvent' in decryptedPayload)) {
+          this.checkEventSequence(decryptedPayload);
+        }
+        //Every action response and event reports the state of the gate status sensor, the action policy gets the last one
+        if (decryptedPayload != undefined) {
+          if ('response' in decryptedPayload) {
+            this.lastGateState = decryptedPayload.response.state;
+          } else if ('event' in decryptedPayload) {
+            this.lastGateState = decryptedPayload.event.state;
+          }
+        }
+        //we this.emit the encrypted frames with decrypted payload
+        this.emit('incomingmessage', rcvMsgJson, decryptedPayload, timestamp);
+        if (decryptedPayload != undefined) {
+          this.emitTypedEvent(decryptedPayload, timestamp);
+        }
+
+        if (decryptedPayload != undefined) {
+          if ('challenge' in decryptedPayload) {
+            //If it's an auth challenge
+            //It's a challenge message
+            this.apiSessionKey = decryptedPayload.challenge.sessionKey; //we update the session key
+            this.lastActionId = decryptedPayload.challenge.initialActionId; //and the actionId (frame counter for actions)
+            this.lastSentActionId = this.lastActionId;
+
+            this.sendAction('QUERY', undefined, { queue: false }, false); //its response is handled below
+          }
+
+          if ('response' in decryptedPayload && decryptedPayload.response.id != undefined) {
+            //If we get a response to one of our actions, we incremenet the last action id
+            if (this.lastActionId != undefined) {
+              const responseId = decryptedPayload.response.id;
+              if (
+                (this.lastActionId < responseId && responseId - this.lastActionId <= 0x3fffffff) || //But we only increment if the response.id is greater than the current counter value
+                (responseId < this.lastActionId && this.lastActionId - responseId > 0x3fffffff)
+              ) {
+                //or when we overflow from 0x7FFFFFFE (or 0x7FFFFFFF) to 0 - a response to an action sent before the overflow doesn't move the counter back
+                this.lastActionId = decryptedPayload.response.id; //We update the lastActionId
+              }
+            } else {
+              this.logger.warn('Unexpected error - lastActionId is undefined', {
+                frameType: rcvMsgJson.type,
+                actionType: decryptedPayload.response.type,
+                actionId: decryptedPayload.response.id
+              });
+            }
+
+            //if it's the response to our QUERY action sent during the authentication flow the 'authenticated' event should be emitted
+            if (decryptedPayload.response.type == 'QUERY' && this.state == 'authenticating') {
+              this.logger.info('The session is authenticated');
+              this.setState('authenticated');
+              this.settlePendingAuthentication();
+              this.emit('authenticated');
+              this.sendQueuedActions();
+            }
+
+            //Settle the promise of the action this is the response to (if it was sent by one of the action methods)
+            const pendingAction = this.pendingActions.get(decryptedPayload.response.id);
+            if (pendingAction != undefined && pendingAction.type == decryptedPayload.response.type) {
+              this.pendingActions.delete(decryptedPayload.response.id);
+              clearTimeout(pendingAction.timeoutHandle);
+              if (decryptedPayload.response.success == true) {
+                pendingAction.resolve(decryptedPayload);
+              } else {
+                pendingAction.reject(new ActionFailedError(decryptedPayload, this.errorDetails()));
+              }
+            }
+          }
+        } else {
+          this.logger.warn('The ENCRYPTED frame could not be decrypted', { frameType: rcvMsgJson.type });
+          const decryptionError = new DecryptionError(
+            'Authentication or encryption error',
+            this.errorDetails(rcvMsgJson)
+          );
+          if (this.state == 'authenticating') {
+            this.setState('connected');
+            this.settlePendingAuthentication(
+              new AuthenticationError('Authentication or encryption error', undefined, {
+                ...this.errorDetails(rcvMsgJson),
+                cause: decryptionError
+              })
+            );
+          }
+          this.emit('error', decryptionError);
+        }
+      } else {
+        //we this.emit the normal frames
+        this.emit('incomingmessage', rcvMsgJson, undefined);
+        if (rcvMsgJson.type == 'ERROR') {
+          this.emit('servererror', rcvMsgJson.errorMessage, new ServerError(rcvMsgJson, this.errorDetails()));
+        }
+
+        //An ERROR frame during the authentication flow means that the authentication failed
+        if (rcvMsgJson && rcvMsgJson.type == 'ERROR' && this.state == 'authenticating') {
+          this.setState('connected');
+          this.settlePendingAuthentication(
+            new AuthenticationError(
+              'Authentication failed: ' + rcvMsgJson.errorMessage,
+              rcvMsgJson.errorMessage,
+              this.errorDetails(rcvMsgJson)
+            )
+          );
+        }
+      }
+    } catch (e) {
+      this.emit('error', this.toRemootioError(e));
+    }
+  }
+
+  /**
+   * Emits the typed event of an action response or event (actionresponse, gatestatechange, relaytrigger and so on)
+   * @param {Object} payload - the decrypted payload
+   * @param {Date} [timestamp] - the wall clock time the response or event was created at
+   */
+  private emitTypedEvent(payload: ReceivedEncryptedFrameContent, timestamp?: Date): void {
+    if ('response' in payload) {
+      this.emit('actionresponse', payload.response, timestamp);
+      return;
+    }
+    if (!('event' in payload)) {
+      return;
+    }
+    const event = payload.event;
+    switch (event.type) {
+      case 'StateChange':
+        this.emit('gatestatechange', event as EventOfType<'StateChange'>, timestamp);
+        break;
+      case 'RelayTrigger':
+      case 'SecondaryRelayTrigger': {
+        const relayTrigger = event as EventOfType<'RelayTrigger' | 'SecondaryRelayTrigger'>;
+        this.emit('relaytrigger', relayTrigger, timestamp, this.resolveKeyHolder(relayTrigger));
+        break;
+      }
+      case 'Connected': {
+        const connected = event as EventOfType<'Connected'>;
+        this.emit('keyconnected', connected, timestamp, this.resolveKeyHolder(connected));
+        break;
+      }
+      case 'LeftOpen':
+        this.emit('leftopen', event, timestamp);
+        break;
+      case 'KeyManagement': {
+        this.emit('keymanagement', event, timestamp);
+        const keyChange = this.keyRegistry?.applyKeyManagement(event, timestamp);
+        if (keyChange != undefined) {
+          this.logger.info('A key was ' + keyChange.change, {
+            keyNr: keyChange.keyNr,
+            keyType: keyChange.keyType,
+            permissionChanges: keyChange.permissionChanges
+          });
+          this.emit('keychange', keyChange);
+        }
+        break;
+      }
+      case 'DoorbellPushed':
+      case 'DoorbellEnabled':
+      case 'DoorbellDisabled':
+        this.emit(
+          'doorbell',
+          event as EventOfType<'DoorbellPushed' | 'DoorbellEnabled' | 'DoorbellDisabled'>,
+          timestamp
+        );
+        break;
+      case 'ManualButtonPushed':
+      case 'ManualButtonEnabled':
+      case 'ManualButtonDisabled':
+        this.emit(
+          'manualbutton',
+          event as EventOfType<'ManualButtonPushed' | 'ManualButtonEnabled' | 'ManualButtonDisabled'>,
+          timestamp
+        );
+        break;
+      case 'SensorEnabled':
+      case 'SensorFlipped':
+      case 'SensorDisabled':
+        this.emit(
+          'sensorchange',
+          event as EventOfType<'SensorEnabled' | 'SensorFlipped' | 'SensorDisabled'>,
+          timestamp
+        );
+        break;
+      case 'Restart':
+        this.emit('restart', event as EventOfType<'Restart'>, timestamp);
+        break;
+    }
+  }
+
+  /**
+   * Returns the holder of the key of a RelayTrigger, SecondaryRelayTrigger or Connected event, or undefined if there is no key registry
+   * @param {Object} event - the event
+   */
+  private resolveKeyHolder(
+    event: EventOfType<'RelayTrigger' | 'SecondaryRelayTrigger' | 'Connected'>
+  ): KeyHolder | undefined {
+    return this.keyRegistry?.resolve(event.data.keyNr, event.data.keyType);
+  }
+
+  /**
+   * Reports an invalid frame. If it is received during the authentication flow the authentication fails.
+   * @param {string} problem - the description of the problem
+   * @param {Object} frame - the invalid frame or decrypted payload
+   * @param {Error} [cause] - the exception thrown while processing the frame (if any)
+   */
+  private handleProtocolError(problem: string, frame: unknown, cause?: unknown): void {
+    this.logger.warn('Invalid frame received: ' + problem, { frame });
+    const protocolError = new ProtocolError('Invalid frame received: ' + problem, {
+      ...this.errorDetails(frame),
+      cause
+    });
+    if (this.state == 'authenticating') {
+      this.setState('connected');
+      this.settlePendingAuthentication(
+        new AuthenticationError('Invalid frame received: ' + problem, undefined, {
+          ...this.errorDetails(frame),
+          cause: protocolError
+        })
+      );
+    }
+    this.emit('protocolerror', problem, frame, protocolError);
+  }
+
+  /**
+   * Returns the details of the errors created by this instance (the IP address of the device and the frame that caused the error)
+   * @param {Object} [frame] - the frame that caused the error
+   */
+  private errorDetails(frame?: unknown): RemootioErrorDetails {
+    return { deviceIp: this.deviceIp, frame };
+  }
+
+  /**
+   * Wraps an unexpected exception into a RemootioError (RemootioErrors are returned as they are)
+   * @param {Error} e - the exception
+   */
+  private toRemootioError(e: unknown): RemootioError {
+    if (e instanceof RemootioError) {
+      return e;
+    }
+    return new RemootioError('Unexpected error: ' + (e instanceof Error ? e.message : e), 'UNEXPECTED_ERROR', {
+      ...this.errorDetails(),
+      cause: e
+    });
+  }
+
+  /**
+   * Rejects the promises of all actions waiting for a response
+   * @param {Error} error - the error the promises are rejected with
+   */
+  private rejectPendingActions(error: Error): void {
+    this.pendingActions.forEach((pendingAction) => {
+      clearTimeout(pendingAction.timeoutHandle);
+      pendingAction.reject(error);
+    });
+    this.pendingActions.clear();
+  }
+
+  //Get method for the connectionState property
+  get connectionState(): ConnectionState {
+    return this.state;
+  }
+
+  //Get method for the isConnected property
+  get isConnected(): boolean {
+    if (this.websocketClient != undefined && this.websocketClient.isOpen) {
+      return true;
+    } else {
+      return false;
+    }
+  }
+
+  //Get method for the lastActionId property
+  get theLastActionId(): number | undefined {
+    return this.lastActionId;
+  }
+
+  //Get method for the isAuthenticated property
+  get isAuthenticated(): boolean {
+    return this.state == 'authenticated'; //The connection cannot be authenticated if it's not even established
+  }
+
+  //Get method for the gateState property
+  get gateState(): SensorStates | undefined {
+    return this.lastGateState;
+  }
+
+  //Get method for the throttleState property
+  get throttleState(): { [A in ActionTypes]?: ThrottleState } {
+    return this.actionThrottle != undefined ? this.actionThrottle.state : {};
+  }
+
+  //Get method for the lastEventCnt property
+  get lastEventCnt(): number | undefined {
+    return this.eventSequence.lastEventCnt;
+  }
+
+  //Get method for the deviceUptime property (in ms)
+  get deviceUptime(): number | undefined {
+    return this.deviceClock.uptimeMs;
+  }
+
+  //Get method for the deviceBootTime property
+  get deviceBootTime(): Date | undefined {
+    return this.deviceClock.bootDate;
+  }
+}
+
+//The event and option types are available as RemootioDevice.Events and RemootioDevice.Options
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export declare namespace RemootioDevice {
+  export type Events = RemootioDeviceEvents;
+  export type Options = RemootioDeviceOptions;
+}
@@ -0,0 +1,527 @@
+import WebSocket = require('ws');
+import { randomBytes } from 'crypto';
+import * as apicrypto from './apicrypto';
+import { EventEmitter } from './eventemitter';
+import {
+  ActionTypes,
+  ChallengeFrame,
+  ErrorFrame,
+  EventTypes,
+  KeyTypes,
+  ConnectionTypes,
+  RemootioAction,
+  RemootioActionResponse,
+  SensorStates,
+  ServerHelloFrame
+} from './frames';
+
+/**
+ * RemootioSimulator class implements the device side of the Remootio websocket API on a local port. It can be used to test and develop
+ * code using the RemootioDevice class without a real Remootio device.
+ * It answers HELLO and PING frames, runs the AUTH -> CHALLENGE authentication flow, checks the action ids, responds to the actions,
+ * and sends events (StateChange, RelayTrigger, LeftOpen and so on) to the authenticated sessions.
+ * The gate or garage door is simulated: after it is triggered it takes travelTimeMs milliseconds to get to the other state.
+ *
+ * *** Constructor ***
+ * @param {Object} options
+ * @param {string} options.apiSecretKey - the API Secret Key of the simulated device (hexstring representing a 256 bit long value)
+ * @param {string} options.apiAuthKey - the API Auth Key of the simulated device (hexstring representing a 256 bit long value)
+ * @param {number} [options.port=0] - the port to listen on, 0 means a random free port (see the port property after start())
+ * @param {number} [options.apiVersion=2] - the API version reported in the SERVER_HELLO frame (1 or 2)
+ * @param {string} [options.remootioVersion='remootio-2'] - the device type reported in the SERVER_HELLO frame ('remootio-1' or 'remootio-2')
+ * @param {string} [options.serialNumber] - the serial number reported in the SERVER_HELLO frame
+ * @param {string} [options.initialState='closed'] - the initial state of the door, 'no sensor' means there is no gate status sensor installed
+ * @param {number} [options.travelTimeMs=3000] - the time it takes for the door to open or close after it is triggered
+ * @param {number} [options.leftOpenAfterMs] - a LeftOpen event is sent if the door is open for leftOpenAfterMs milliseconds (disabled by default)
+ * @param {number} [options.apiKeyNr=0] - the keyNr reported in the RelayTrigger events caused by API actions
+ *
+ * *** Properties ***
+ * @property port - the port the simulator is listening on
+ * @property doorState - the current state of the simulated door
+ * @property faults - the currently enabled faults (see setFaults())
+ *
+ * *** Methods ***
+ * @method start() - starts listening, returns a Promise that resolves with the port
+ * @method stop() - closes all connections and stops listening, returns a Promise
+ * @method setFaults(faults) - enables or disables fault injection: dropPongs (PING frames are not answered), badMac (the MAC of the ENCRYPTED frames sent is invalid)
+ * @method sendError(errorMessage) - sends an ERROR frame to every connected client
+ * @method dropConnections() - terminates every connection abruptly (without a websocket close handshake)
+ * @method sendEvent(type, data) - sends an arbitrary event to the authenticated sessions
+ * @method setDoorState(state) - changes the state of the door immediately (e.g. it was opened manually) and sends a StateChange event
+ * @method pushDoorbell() - sends a DoorbellPushed event
+ * @method pushManualButton() - triggers the door and sends a ManualButtonPushed event
+ * @method triggerByKey(keyNr, keyType, via) - triggers the door as if it was triggered by a key in the Remootio app and sends a RelayTrigger event
+ *
+ * *** Events ***
+ * @event connection - when a client connects
+ * @event authenticated - when a client finishes the authentication flow
+ * @event action - when a valid action is received, with the action as parameter
+ * @event doorstate - when the state of the simulated door changes, with the new state as parameter
+ */
+
+export interface RemootioSimulatorOptions {
+  apiSecretKey: string;
+  apiAuthKey: string;
+  port?: number;
+  apiVersion?: 1 | 2;
+  remootioVersion?: 'remootio-1' | 'remootio-2';
+  serialNumber?: string;
+  initialState?: SensorStates;
+  travelTimeMs?: number;
+  leftOpenAfterMs?: number;
+  apiKeyNr?: number;
+}
+
+export interface RemootioSimulatorFaults {
+  dropPongs: boolean;
+  badMac: boolean;
+}
+
+export interface RemootioSimulatorEvents {
+  connection: () => void;
+  authenticated: () => void;
+  action: (action: RemootioAction['action']) => void;
+  doorstate: (state: SensorStates) => void;
+}
+
+interface SimulatorSession {
+  socket: WebSocket;
+  sessionKey?: string;
+  lastActionId?: number;
+  authenticated: boolean;
+}
+
+type EventType = EventTypes['event']['type'];
+
+export declare interface RemootioSimulator {
+  on<E extends keyof RemootioSimulatorEvents>(event: E, listener: RemootioSimulatorEvents[E]): this;
+  emit<E extends keyof RemootioSimulatorEvents>(event: E, ...args: Parameters<RemootioSimulatorEvents[E]>): boolean;
+}
+
+export class RemootioSimulator extends EventEmitter {
+  private apiSecretKey: string;
+  private apiAuthKey: string;
+  private requestedPort: number;
+  private listeningPort?: number;
+  private serverHello: ServerHelloFrame;
+  private travelTimeMs: number;
+  private leftOpenAfterMs?: number;
+  private apiKeyNr: number;
+  private server?: WebSocket.Server;
+  private sessions: SimulatorSession[];
+  private state: SensorStates;
+  private targetState: SensorStates;
+  private travelTimeoutHandle?: ReturnType<typeof setTimeout>;
+  private leftOpenTimeoutHandle?: ReturnType<typeof setTimeout>;
+  private bootTime: number;
+  private eventCounter: number;
+  private restartEventPending: boolean;
+  private currentFaults: RemootioSimulatorFaults;
+
+  /**
+   * Constructor to create a RemootioSimulator instance
+   * @param {Object} options - see the class description for the available options
+   */
+  constructor(options: RemootioSimulatorOptions) {
+    super();
+    this.apiSecretKey = options.apiSecretKey;
+    this.apiAuthKey = options.apiAuthKey;
+    this.requestedPort = options.port ?? 0;
+    this.listeningPort = undefined;
+    if ((options.apiVersion ?? 2) == 2) {
+      this.serverHello = {
+        type: 'SERVER_HELLO',
+        apiVersion: 2,
+        message: 'Remootio simulator',
+        serialNumber: options.serialNumber ?? 'SIMULATOR0001',
+        remootioVersion: options.remootioVersion ?? 'remootio-2'
+      };
+    } else {
+      this.serverHello = {
+        type: 'SERVER_HELLO',
+        apiVersion: 1,
+        message: 'Remootio simulator'
+      };
+    }
+    this.travelTimeMs = options.travelTimeMs ?? 3000;
+    this.leftOpenAfterMs = options.leftOpenAfterMs;
+    this.apiKeyNr = options.apiKeyNr ?? 0;
+    this.server = undefined;
+    this.sessions = [];
+    this.state = options.initialState ?? 'closed';
+    this.targetState = this.state; //the state the door is travelling to (equals to state if the door is not moving)
+    this.travelTimeoutHandle = undefined;
+    this.leftOpenTimeoutHandle = undefined;
+    this.bootTime = Date.now(); //t100ms is counted from here
+    this.eventCounter = 0; //the cnt field of the events
+    this.restartEventPending = false; //the Restart event is sent to the first session authenticated after a RESTART action
+    this.currentFaults = { dropPongs: false, badMac: false };
+  }
+
+  /**
+   * Starts the websocket server
+   * @returns {Promise<number>} - resolves with the port the simulator is listening on
+   */
+  start(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const server = new WebSocket.Server({ port: this.requestedPort });
+      this.server = server;
+      server.on('error', reject);
+      server.on('listening', () => {
+        const address = server.address();
+        this.listeningPort = typeof address == 'string' ? this.requestedPort : address.port;
+        resolve(this.listeningPort);
+      });
+      server.on('connection', (socket) => this.handleConnection(socket));
+    });
+  }
+
+  /**
+   * Closes all connections and stops the websocket server
+   */
+  stop(): Promise<void> {
+    this.clearDoorTimers();
+    this.dropConnections();
+    return new Promise((resolve) => {
+      if (this.server == undefined) {
+        resolve();
+        return;
+      }
+      this.server.close(() => resolve());
+      this.server = undefined;
+    });
+  }
+
+  /**
+   * Enables or disables fault injection
+   * @param {Object} faults - dropPongs: PING frames are not answered, badMac: the MAC of the ENCRYPTED frames sent is invalid
+   */
+  setFaults(faults: Partial<RemootioSimulatorFaults>): void {
+    this.currentFaults = { ...this.currentFaults, ...faults };
+  }
+
+  /**
+   * Sends an ERROR frame to every connected client
+   * @param {string} errorMessage - the errorMessage of the ERROR frame
+   */
+  sendError(errorMessage: ErrorFrame['errorMessage']): void {
+    this.sessions.forEach((session) => this.sendFrame(session, { type: 'ERROR', errorMessage }));
+  }
+
+  /**
+   * Terminates every connection abruptly (without a websocket close handshake)
+   */
+  dropConnections(): void {
+    this.sessions.forEach((session) => session.socket.terminate());
+    this.sessions = [];
+  }
+
+  /**
+   * Sends an event to every authenticated session
+   * @param {string} type - the type of the event
+   * @param {Object} [data] - the data field of the event (for RelayTrigger, LeftOpen, KeyManagement and so on)
+   */
+  sendEvent(type: EventType, data?: unknown): void {
+    const event = {
+      event: {
+        cnt: this.eventCounter++,
+        type,
+        state: this.state,
+        t100ms: this.t100ms,
+        ...(data != undefined ? { data } : {})
+      }
+    } as EventTypes;
+    this.sessions.forEach((session) => {
+      if (session.authenticated) {
+        this.sendEncrypted(session, event);
+      }
+    });
+  }
+
+  /**
+   * Changes the state of the door immediately and sends a StateChange event
+   * @param {string} state - the new state of the door
+   */
+  setDoorState(state: SensorStates): void {
+    this.clearDoorTimers();
+    this.targetState = state;
+    this.changeState(state);
+  }
+
+  /**
+   * Sends a DoorbellPushed event
+   */
+  pushDoorbell(): void {
+    this.sendEvent('DoorbellPushed');
+  }
+
+  /**
+   * Triggers the door and sends a ManualButtonPushed event
+   */
+  pushManualButton(): void {
+    this.sendEvent('ManualButtonPushed');
+    this.triggerDoor();
+  }
+
+  /**
+   * Triggers the door and sends a RelayTrigger event as if it was triggered by a key
+   * @param {number} keyNr - the number of the key
+   * @param {string} keyType - the type of the key
+   * @param {string} via - the connection type used
+   */
+  triggerByKey(keyNr: number, keyType: KeyTypes, via: ConnectionTypes): void {
+    this.sendEvent('RelayTrigger', { keyNr, keyType, via });
+    this.triggerDoor();
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const session: SimulatorSession = { socket, authenticated: false };
+    this.sessions.push(session);
+    this.emit('connection');
+
+    socket.on('message', (data) => {
+      let frame;
+      try {
+        frame = JSON.parse(data.toString());
+      } catch (e) {
+        this.sendFrame(session, { type: 'ERROR', errorMessage: 'json error' });
+        return;
+      }
+      switch (frame && frame.type) {
+        case 'HELLO':
+          this.sendFrame(session, this.serverHello);
+          break;
+        case 'PING':
+          if (!this.currentFaults.dropPongs) {
+            this.sendFrame(session, { type: 'PONG' });
+          }
+          break;
+        case 'AUTH':
+          this.handleAuth(session);
+          break;
+        case 'ENCRYPTED':
+          this.handleEncryptedFrame(session, frame);
+          break;
+        default:
+          this.sendFrame(session, { type: 'ERROR', errorMessage: 'input error' });
+      }
+    });
+
+    socket.on('close', () => {
+      this.sessions = this.sessions.filter((s) => s !== session);
+    });
+  }
+
+  private handleAuth(session: SimulatorSession): void {
+    if (session.authenticated) {
+      this.sendFrame(session, { type: 'ERROR', errorMessage: 'already authenticated' });
+      return;
+    }
+    session.sessionKey = randomBytes(32).toString('base64');
+    session.lastActionId = randomBytes(4).readUInt32BE(0) % 0x7fffffff;
+    const challenge: ChallengeFrame = {
+      type: 'CHALLENGE',
+      challenge: {
+        sessionKey: session.sessionKey,
+        initialActionId: session.lastActionId
+      }
+    };
+    //The challenge is encrypted with the API Secret Key, all the later ENCRYPTED frames with the session key
+    this.sendEncrypted(session, challenge, Buffer.from(this.apiSecretKey, 'hex').toString('base64'));
+  }
+
+  private handleEncryptedFrame(session: SimulatorSession, frame: unknown): void {
+    if (session.sessionKey == undefined || session.lastActionId == undefined) {
+      this.sendFrame(session, { type: 'ERROR', errorMessage: 'authentication error' });
+      return;
+    }
+    const payload = apicrypto.remootioApiDecryptEncrypedFrame(
+      frame as Parameters<typeof apicrypto.remootioApiDecryptEncrypedFrame>[0],
+      this.apiSecretKey,
+      this.apiAuthKey,
+      session.sessionKey
+    ) as unknown;
+    const action = (payload as RemootioAction | undefined)?.action;
+    if (action == undefined || typeof action.id != 'number' || typeof action.type != 'string') {
+      this.sendFrame(session, { type: 'ERROR', errorMessage: 'authentication error' });
+      return;
+    }
+    //The action id must be greater than the last action id (modulo 0x7FFFFFFF)
+    const difference = (action.id - session.lastActionId + 0x7fffffff) % 0x7fffffff;
+    if (difference == 0 || difference > 0x3fffffff) {
+      this.sendFrame(session, { type: 'ERROR', errorMessage: 'input error' });
+      return;
+    }
+    session.lastActionId = action.id;
+    if (!session.authenticated) {
+      //The first valid action after the challenge finishes the authentication flow
+      session.authenticated = true;
+      this.emit('authenticated');
+    }
+    this.emit('action', action);
+    this.sendEncrypted(session, this.executeAction(action));
+
+    if (this.restartEventPending && action.type == 'QUERY') {
+      this.restartEventPending = false;
+      this.sendEvent('Restart');
+    }
+    if (action.type == 'RESTART') {
+      this.restart();
+    }
+  }
+
+  private executeAction(action: RemootioAction['action']): RemootioActionResponse {
+    let success = true;
+    let relayTriggered = false;
+    let errorCode = '';
+    switch (action.type) {
+      case 'TRIGGER':
+        relayTriggered = true;
+        this.sendEvent('RelayTrigger', { keyNr: this.apiKeyNr, keyType: 'api key', via: 'wifi' });
+        this.triggerDoor();
+        break;
+      case 'TRIGGER_SECONDARY':
+        if (this.serverHello.apiVersion == 2 && this.serverHello.remootioVersion == 'remootio-2') {
+          relayTriggered = true;
+          this.sendEvent('SecondaryRelayTrigger', { keyNr: this.apiKeyNr, keyType: 'api key', via: 'wifi' });
+        } else {
+          success = false;
+          errorCode = 'unsupported action';
+        }
+        break;
+      case 'OPEN':
+      case 'CLOSE':
+        if (this.state == 'no sensor') {
+          success = false;
+          errorCode = 'no sensor';
+        } else if (this.targetState == (action.type == 'OPEN' ? 'closed' : 'open')) {
+          relayTriggered = true;
+          this.sendEvent('RelayTrigger', { keyNr: this.apiKeyNr, keyType: 'api key', via: 'wifi' });
+          this.triggerDoor();
+        }
+        break;
+    }
+    return {
+      response: {
+        type: action.type as ActionTypes,
+        id: action.id,
+        success,
+        state: this.state,
+        t100ms: this.t100ms,
+        relayTriggered,
+        errorCode
+      }
+    };
+  }
+
+  /**
+   * Simulates the relay being triggered: the door starts travelling to the other state, or reverses if it's already travelling
+   */
+  private triggerDoor(): void {
+    if (this.state == 'no sensor') {
+      return;
+    }
+    this.targetState = this.targetState == 'open' ? 'closed' : 'open';
+    if (this.travelTimeoutHandle != undefined) {
+      clearTimeout(this.travelTimeoutHandle);
+      this.travelTimeoutHandle = undefined;
+    }
+    if (this.targetState != this.state) {
+      this.travelTimeoutHandle = setTimeout(() => {
+        this.travelTimeoutHandle = undefined;
+        this.changeState(this.targetState);
+      }, this.travelTimeMs);
+    }
+  }
+
+  private changeState(state: SensorStates): void {
+    if (state == this.state) {
+      return;
+    }
+    this.state = state;
+    this.emit('doorstate', state);
+    this.sendEvent('StateChange');
+
+    if (this.leftOpenTimeoutHandle != undefined) {
+      clearTimeout(this.leftOpenTimeoutHandle);
+      this.leftOpenTimeoutHandle = undefined;
+    }
+    if (state == 'open') {
+      const openedAt = Date.now();
+      if (this.leftOpenAfterMs != undefined) {
+        this.leftOpenTimeoutHandle = setTimeout(() => {
+          this.leftOpenTimeoutHandle = undefined;
+          this.sendEvent('LeftOpen', { timeOpen100ms: Math.floor((Date.now() - openedAt) / 100) });
+        }, this.leftOpenAfterMs);
+      }
+    }
+  }
+
+  /**
+   * Simulates a restart: every connection is dropped, the uptime counter starts again from 0
+   */
+  private restart(): void {
+    setTimeout(() => {
+      this.clearDoorTimers();
+      this.targetState = this.state;
+      this.dropConnections();
+      this.bootTime = Date.now();
+      this.eventCounter = 0;
+      this.restartEventPending = true;
+    }, 100);
+  }
+
+  private clearDoorTimers(): void {
+    if (this.travelTimeoutHandle != undefined) {
+      clearTimeout(this.travelTimeoutHandle);
+      this.travelTimeoutHandle = undefined;
+    }
+    if (this.leftOpenTimeoutHandle != undefined) {
+      clearTimeout(this.leftOpenTimeoutHandle);
+      this.leftOpenTimeoutHandle = undefined;
+    }
+  }
+
+  private sendFrame(session: SimulatorSession, frame: unknown): void {
+    if (session.socket.readyState == WebSocket.OPEN) {
+      session.socket.send(JSON.stringify(frame));
+    }
+  }
+
+  /**
+   * Encrypts the payload with the session key (or with the given key) and sends it in an ENCRYPTED frame
+   */
+  private sendEncrypted(session: SimulatorSession, payload: unknown, keyBase64?: string): void {
+    const frame = apicrypto.remootioApiConstructEncrypedFrame(
+      JSON.stringify(payload),
+      this.apiSecretKey,
+      this.apiAuthKey,
+      keyBase64 ?? session.sessionKey
+    );
+    if (frame != undefined) {
+      if (this.currentFaults.badMac) {
+        frame.mac = Buffer.from(frame.mac, 'base64').reverse().toString('base64');
+      }
+      this.sendFrame(session, frame);
+    }
+  }
+
+  private get t100ms(): number {
+    return Math.floor((Date.now() - this.bootTime) / 100);
+  }
+
+  //Get method for the port property
+  get port(): number | undefined {
+    return this.listeningPort;
+  }
+
+  //Get method for the doorState property
+  get doorState(): SensorStates {
+    return this.state;
+  }
+
+  //Get method for the faults property
+  get faults(): RemootioSimulatorFaults {
+    return { ...this.currentFaults };
+  }
+}
@@ -0,0 +1,208 @@
+import { JournalQuery, JournalRecord, JournalStore } from './eventjournal';
+
+/**
+ * SqliteJournalStore class stores the records of the event journal (see eventjournal.ts) in a SQLite table, the queries run in SQL.
+ * The store doesn't open the database itself: pass a database of the better-sqlite3 package (new Database('journal.db')) or
+ * the DatabaseSync of the node:sqlite module (anything with the synchronous exec and prepare methods of better-sqlite3).
+ * The table and its indexes are created if they don't exist. The database is not closed by close().
+ *
+ * *** Constructor ***
+ * @param {Object} db - the database, e.g. new Database('journal.db') of the better-sqlite3 package
+ * @param {Object} [options]
+ * @param {string} [options.table='remootio_journal'] - the name of the table (letters, digits and '_')
+ */
+
+type SqliteValue = string | number | null;
+
+//The parameters are unknown and the methods are declared with the method syntax (their parameters are checked bivariantly),
+//so the statements of better-sqlite3 and node:sqlite are accepted whatever their typed parameters are. The store binds SqliteValues only
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+export interface SqliteJournalStoreOptions {
+  table?: string;
+}
+
+interface JournalRow {
+  device_id: string;
+  time: number;
+  kind: JournalRecord['kind'];
+  type: string;
+  cnt: number | null;
+  t100ms: number;
+  state: JournalRecord['state'];
+  key_nr: number | null;
+  key_type: NonNullable<JournalRecord['keyType']> | null;
+  via: NonNullable<JournalRecord['via']> | null;
+  action_id: number | null;
+  success: number | null;
+  error_code: string | null;
+  data: string | null;
+}
+
+const columns: (keyof JournalRow)[] = [
+  'device_id',
+  'time',
+  'kind',
+  'type',
+  'cnt',
+  't100ms',
+  'state',
+  'key_nr',
+  'key_type',
+  'via',
+  'action_id',
+  'success',
+  'error_code',
+  'data'
+];
+
+function toRow(record: JournalRecord): JournalRow {
+  return {
+    device_id: record.deviceId,
+    time: record.time.getTime(),
+    kind: record.kind,
+    type: record.type,
+    cnt: record.cnt ?? null,
+    t100ms: record.t100ms,
+    state: record.state,
+    key_nr: record.keyNr ?? null,
+    key_type: record.keyType ?? null,
+    via: record.via ?? null,
+    action_id: record.actionId ?? null,
+    success: record.success == undefined ? null : record.success ? 1 : 0,
+    error_code: record.errorCode ?? null,
+    data: record.data != undefined ? JSON.stringify(record.data) : null
+  };
+}
+
+function fromRow(row: JournalRow): JournalRecord {
+  const record: JournalRecord = {
+    deviceId: row.device_id,
+    time: new Date(row.time),
+    kind: row.kind,
+    type: row.type,
+    t100ms: row.t100ms,
+    state: row.state
+  };
+  //The missing fields are left out, like in the records of the other stores
+  if (row.cnt != null) {
+    record.cnt = row.cnt;
+  }
+  if (row.key_nr != null) {
+    record.keyNr = row.key_nr;
+  }
+  if (row.key_type != null) {
+    record.keyType = row.key_type;
+  }
+  if (row.via != null) {
+    record.via = row.via;
+  }
+  if (row.action_id != null) {
+    record.actionId = row.action_id;
+  }
+  if (row.success != null) {
+    record.success = row.success == 1;
+  }
+  if (row.error_code != null) {
+    record.errorCode = row.error_code;
+  }
+  if (row.data != null) {
+    record.data = JSON.parse(row.data);
+  }
+  return record;
+}
+
+export class SqliteJournalStore implements JournalStore {
+  private db: SqliteDatabase;
+  private table: string;
+  private insertStatement: SqliteStatement;
+
+  constructor(db: SqliteDatabase, options?: SqliteJournalStoreOptions) {
+    this.table = options?.table ?? 'remootio_journal';
+    if (!/^[A-Za-z0-9_]+$/.test(this.table)) {
+      throw new Error('Invalid table name ' + this.table + ', only letters, digits and _ are allowed');
+    }
+    this.db = db;
+    this.db.exec(
+      'CREATE TABLE IF NOT EXISTS ' +
+        this.table +
+        ' (id INTEGER PRIMARY KEY AUTOINCREMENT, device_id TEXT NOT NULL, time INTEGER NOT NULL, kind TEXT NOT NULL,' +
+        ' type TEXT NOT NULL, cnt INTEGER, t100ms INTEGER NOT NULL, state TEXT NOT NULL, key_nr INTEGER, key_type TEXT, via TEXT,' +
+        ' action_id INTEGER, success INTEGER, error_code TEXT, data TEXT);' +
+        ('CREATE INDEX IF NOT EXISTS ' + this.table + '_device_time ON ' + this.table + ' (device_id, time);') +
+        ('CREATE INDEX IF NOT EXISTS ' + this.table + '_type_time ON ' + this.table + ' (type, time);')
+    );
+    this.insertStatement = this.db.prepare(
+      'INSERT INTO ' + this.table + ' (' + columns.join(', ') + ') VALUES (' + columns.map(() => '?').join(', ') + ')'
+    );
+  }
+
+  append(record: JournalRecord): Promise<void> {
+    const row = toRow(record);
+    try {
+      this.insertStatement.run(...columns.map((column) => row[column]));
+    } catch (e) {
+      return Promise.reject(e);
+    }
+    return Promise.resolve();
+  }
+
+  query(query: JournalQuery): Promise<JournalRecord[]> {
+    const conditions: string[] = [];
+    const params: SqliteValue[] = [];
+    const addCondition = (column: keyof JournalRow, value: SqliteValue | SqliteValue[] | undefined) => {
+      if (value == undefined) {
+        return;
+      }
+      const values = Array.isArray(value) ? value : [value];
+      conditions.push(column + ' IN (' + values.map(() => '?').join(', ') + ')');
+      params.push(...values);
+    };
+    addCondition('device_id', query.deviceId);
+    addCondition('kind', query.kind);
+    addCondition('type', query.type);
+    addCondition('key_nr', query.keyNr);
+    addCondition('key_type', query.keyType);
+    addCondition('via', query.via);
+    if (query.from != undefined) {
+      conditions.push('time >= ?');
+      params.push(query.from.getTime());
+    }
+    if (query.to != undefined) {
+      conditions.push('time < ?');
+      params.push(query.to.getTime());
+    }
+    const direction = query.order == 'desc' ? 'DESC' : 'ASC';
+    let sql =
+      'SELECT ' +
+      columns.join(', ') +
+      ' FROM ' +
+      this.table +
+      (conditions.length > 0 ? ' WHERE ' + conditions.join(' AND ') : '') +
+      ' ORDER BY time ' +
+      direction +
+      ', id ' +
+      direction;
+    if (query.limit != undefined) {
+      sql += ' LIMIT ?';
+      params.push(query.limit);
+    }
+    try {
+      return Promise.resolve((this.db.prepare(sql).all(...params) as JournalRow[]).map(fromRow));
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  close(): Promise<void> {
+    return Promise.resolve();
+  }
+}
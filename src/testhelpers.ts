@@ -0,0 +1,22 @@
+/**
+ * Helpers for the tests using the simulator (see simulator.ts): a key pair for the simulated device and polling of a condition.
+ */
+
+//The API Secret Key and API Auth Key of the simulated devices in the tests (hexstrings representing 256 bit long values)
+export const testApiSecretKey = 'C85B1CF44398C3BA36B35D63CD779C0A265F9592FF9C5D85EFA16E3C4121B4F6';
+export const testApiAuthKey = 'F01AEB37D9E79FB213ACA2CFB48BECF6C1513F1C5623534799B3BEFE8EF681A0';
+
+/**
+ * Resolves when the condition is true (it is checked every 10ms), rejects if it is still false after timeoutMs
+ * @param {Function} condition - the condition to wait for
+ * @param {number} [timeoutMs=3000] - the time to wait before giving up
+ */
+export const waitFor = async (condition: () => boolean, timeoutMs = 3000): Promise<void> => {
+  const startedAt = Date.now();
+  while (!condition()) {
+    if (Date.now() - startedAt > timeoutMs) {
+      throw new Error('Timed out waiting for the condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
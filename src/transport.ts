@@ -0,0 +1,70 @@
+/**
+ * The RemootioDevice class talks to the Remootio device through a Transport: a websocket connection created by a TransportFactory.
+ * In node the connection is created with the ws module (see wstransport.ts), in browsers and React Native
+ * the global WebSocket is used (createBrowserTransport() below). A custom TransportFactory can be set using the transportFactory option.
+ */
+
+/**
+ * The callbacks a Transport calls. onClose must be called exactly once, also if the connection could not be established
+ */
+export interface TransportHandlers {
+  onOpen: () => void;
+  onMessage: (data: string) => void;
+  onClose: () => void;
+}
+
+export interface Transport {
+  /**
+   * True if the connection is open and frames can be sent
+   */
+  readonly isOpen: boolean;
+  send(data: string): void;
+  /**
+   * Closes the connection gracefully
+   */
+  close(): void;
+  /**
+   * Closes the connection immediately (used when the connection is broken, e.g. there was no reply to a PING frame)
+   */
+  terminate(): void;
+}
+
+/**
+ * Opens a websocket connection to the url (e.g. 'ws://192.168.1.155:8080/')
+ */
+export type TransportFactory = (url: string, handlers: TransportHandlers) => Transport;
+
+/**
+ * The TransportFactory using the global WebSocket (available in browsers and React Native)
+ */
+export const createBrowserTransport: TransportFactory = (url, handlers) => {
+  if (typeof WebSocket == 'undefined') {
+    throw new Error('WebSocket is not available');
+  }
+  const websocket = new WebSocket(url);
+  let closed = false;
+  const onClose = () => {
+    if (!closed) {
+      closed = true;
+      handlers.onClose();
+    }
+  };
+  websocket.onopen = () => handlers.onOpen();
+  websocket.onmessage = (event) => handlers.onMessage(String(event.data));
+  websocket.onclose = onClose;
+  return {
+    get isOpen() {
+      return !closed && websocket.readyState == WebSocket.OPEN;
+    },
+    send: (data) => websocket.send(data),
+    close: () => websocket.close(),
+    terminate: () => {
+      //The WebSocket API has no terminate(), the close handshake of a broken connection may take long to time out
+      //so the connection is reported as closed right away (like the ws module does), and the late events are ignored
+      websocket.onopen = null;
+      websocket.onmessage = null;
+      websocket.close();
+      onClose();
+    }
+  };
+};
@@ -0,0 +1,188 @@
+import { CryptoProvider } from './cryptoprovider';
+import { EncryptedFrame, ReceivedEncryptedFrameContent } from './frames';
+import { Logger, noopLogger } from './logger';
+
+/**
+ * The CryptoProvider using the WebCrypto API (available in browsers, Deno and Node.js 15+ as require('crypto').webcrypto).
+ * It works the same way as the functions of apicrypto.ts: the MAC is verified first (crypto.subtle.verify compares it in constant time),
+ * and the payload is only decrypted if the MAC is valid.
+ *
+ * *** Constructor ***
+ * @param {Object} [webCrypto] - the WebCrypto implementation to use, defaults to the global crypto object
+ * @param {Object} [logger] - the reason of a failed decryption is logged here (see logger.ts), nothing is logged by default
+ */
+
+const base64Alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let byteIndex = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const chunk =
+      (base64Alphabet.indexOf(clean.charAt(i)) << 18) |
+      (base64Alphabet.indexOf(clean.charAt(i + 1)) << 12) |
+      ((i + 2 < clean.length ? base64Alphabet.indexOf(clean.charAt(i + 2)) : 0) << 6) |
+      (i + 3 < clean.length ? base64Alphabet.indexOf(clean.charAt(i + 3)) : 0);
+    bytes[byteIndex++] = (chunk >> 16) & 0xff;
+    if (i + 2 < clean.length) bytes[byteIndex++] = (chunk >> 8) & 0xff;
+    if (i + 3 < clean.length) bytes[byteIndex++] = chunk & 0xff;
+  }
+  return bytes;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let base64 = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    base64 += base64Alphabet.charAt((chunk >> 18) & 0x3f) + base64Alphabet.charAt((chunk >> 12) & 0x3f);
+    base64 += i + 1 < bytes.length ? base64Alphabet.charAt((chunk >> 6) & 0x3f) : '=';
+    base64 += i + 2 < bytes.length ? base64Alphabet.charAt(chunk & 0x3f) : '=';
+  }
+  return base64;
+}
+
+//The payloads are handled as Latin1 encoded strings (one byte per character)
+function latin1ToBytes(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+function bytesToLatin1(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i++) {
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text;
+}
+
+//The MAC is calculated over the UTF-8 encoded JSON string
+function utf8ToBytes(text: string): Uint8Array {
+  return latin1ToBytes(unescape(encodeURIComponent(text)));
+}
+
+export class WebCryptoProvider implements CryptoProvider {
+  private webCrypto: Crypto;
+  private logger: Logger;
+
+  /**
+   * Constructor to create a WebCryptoProvider instance
+   * @param {Object} [webCrypto] - the WebCrypto implementation to use, defaults to the global crypto object
+   * @param {Object} [logger] - the reason of a failed decryption is logged here, nothing is logged by default
+   */
+  constructor(webCrypto?: Crypto, logger: Logger = noopLogger) {
+    const globalCrypto = typeof crypto != 'undefined' ? crypto : undefined;
+    const usedCrypto = webCrypto ?? globalCrypto;
+    if (usedCrypto == undefined || usedCrypto.subtle == undefined) {
+      throw new Error('WebCrypto is not available');
+    }
+    this.webCrypto = usedCrypto;
+    this.logger = logger;
+  }
+
+  async decryptFrame(
+    frame: EncryptedFrame,
+    apiSecretKey: string,
+    apiAuthKey: string,
+    apiSessionKey?: string
+  ): Promise<ReceivedEncryptedFrameContent | undefined> {
+    if (!frame || frame.type != 'ENCRYPTED' || !frame.data || !frame.mac || !frame.data.payload || !frame.data.iv) {
+      return undefined;
+    }
+    //Step 1 verify MAC
+    const macKey = await this.importMacKey(apiAuthKey);
+    const macMatches = await this.webCrypto.subtle.verify(
+      'HMAC',
+      macKey,
+      base64ToBytes(frame.mac),
+      utf8ToBytes(JSON.stringify(frame.data))
+    );
+    if (!macMatches) {
+      this.logger.warn('Decryption error: the MAC of the frame does not match the calculated MAC', {
+        frameType: frame.type,
+        mac: frame.mac
+      });
+      return undefined;
+    }
+
+    //STEP 2 decrypt the payload (with the ApiSessionKey in authenticated sessions, with the ApiSecretKey otherwise)
+    let decryptedPayload: string;
+    try {
+      const encryptionKey = await this.importEncryptionKey(
+        apiSessionKey == undefined ? hexToBytes(apiSecretKey) : base64ToBytes(apiSessionKey),
+        'decrypt'
+      );
+      const decrypted = await this.webCrypto.subtle.decrypt(
+        { name: 'AES-CBC', iv: base64ToBytes(frame.data.iv) },
+        encryptionKey,
+        base64ToBytes(frame.data.payload)
+      );
+      decryptedPayload = bytesToLatin1(new Uint8Array(decrypted));
+    } catch (e) {
+      this.logger.warn('Decryption error: ' + e, { frameType: frame.type });
+      return undefined;
+    }
+    try {
+      return JSON.parse(decryptedPayload);
+    } catch (e) {
+      this.logger.warn('The decrypted frame.data is not a valid JSON', { frameType: frame.type, decryptedPayload });
+      return undefined;
+    }
+  }
+
+  async encryptFrame(
+    unencryptedPayload: string,
+    _apiSecretKey: string,
+    apiAuthKey: string,
+    apiSessionKey?: string
+  ): Promise<EncryptedFrame | undefined> {
+    if (apiSessionKey == undefined) {
+      return undefined; //Valid ENCRYPTED frames can only be sent in authenticated sessions
+    }
+    //STEP 1 encrypt the payload with a random IV
+    const iv = this.webCrypto.getRandomValues(new Uint8Array(16));
+    const encryptionKey = await this.importEncryptionKey(base64ToBytes(apiSessionKey), 'encrypt');
+    const encryptedPayload = await this.webCrypto.subtle.encrypt(
+      { name: 'AES-CBC', iv },
+      encryptionKey,
+      latin1ToBytes(unencryptedPayload)
+    );
+    //Step 2 calculate the HMAC-SHA256 of JSON.stringify(frame.data) - the order of iv and payload matters
+    const data = {
+      iv: bytesToBase64(iv),
+      payload: bytesToBase64(new Uint8Array(encryptedPayload))
+    };
+    const mac = await this.webCrypto.subtle.sign(
+      'HMAC',
+      await this.importMacKey(apiAuthKey),
+      utf8ToBytes(JSON.stringify(data))
+    );
+    return {
+      type: 'ENCRYPTED',
+      data,
+      mac: bytesToBase64(new Uint8Array(mac))
+    };
+  }
+
+  private importMacKey(apiAuthKey: string): PromiseLike<CryptoKey> {
+    return this.webCrypto.subtle.importKey('raw', hexToBytes(apiAuthKey), { name: 'HMAC', hash: 'SHA-256' }, false, [
+      'sign',
+      'verify'
+    ]);
+  }
+
+  private importEncryptionKey(key: Uint8Array, usage: 'encrypt' | 'decrypt'): PromiseLike<CryptoKey> {
+    return this.webCrypto.subtle.importKey('raw', key, { name: 'AES-CBC' }, false, [usage]);
+  }
+}
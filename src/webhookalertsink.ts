@@ -0,0 +1,75 @@
+import { AlertNotification, AlertSink } from './alertengine';
+import { ExponentialBackoffReconnectPolicy, ReconnectPolicy } from './reconnectpolicy';
+import { isRetryableWebhookFailure, postWebhook, validateWebhookUrl } from './webhookrequest';
+
+/**
+ * WebhookAlertSink class POSTs the notifications of the alert engine (see alertengine.ts) to a webhook as JSON: {kind, alert}.
+ * The body is signed like the requests of RemootioWebhookNotifier if there is a secret (the X-Remootio-Signature header,
+ * check it with RemootioWebhookNotifier.verifySignature()). A failed request (network error, timeout, 429 or 5xx status) is retried
+ * with the delays of the retry policy, the promise of send() is rejected when the retries are used up.
+ *
+ * *** Constructor ***
+ * @param {string} url - the URL to POST to (http or https)
+ * @param {Object} [options]
+ * @param {string} [options.name='webhook'] - the name of the sink in the rules of the alert engine
+ * @param {string} [options.secret] - the key of the HMAC signature
+ * @param {Object} [options.headers] - additional headers of the request
+ * @param {Object} [options.retryPolicy] - the delays between the attempts (see reconnectpolicy.ts), by default 5 retries with exponential backoff from 1 second
+ * @param {number} [options.timeoutMs=10000] - a request is aborted (and retried) if there is no response within timeoutMs
+ */
+
+export interface WebhookAlertSinkOptions {
+  name?: string;
+  secret?: string;
+  headers?: { [name: string]: string };
+  retryPolicy?: ReconnectPolicy;
+  timeoutMs?: number;
+}
+
+export class WebhookAlertSink implements AlertSink {
+  public readonly name: string;
+  private url: string;
+  private secret?: string;
+  private headers?: { [name: string]: string };
+  private retryPolicy: ReconnectPolicy;
+  private timeoutMs: number;
+
+  constructor(url: string, options?: WebhookAlertSinkOptions) {
+    validateWebhookUrl(url);
+    this.url = url;
+    this.name = options?.name ?? 'webhook';
+    this.secret = options?.secret;
+    this.headers = options?.headers;
+    this.retryPolicy =
+      options?.retryPolicy ?? new ExponentialBackoffReconnectPolicy({ initialDelayMs: 1000, maxAttempts: 5 });
+    this.timeoutMs = options?.timeoutMs ?? 10000;
+  }
+
+  async send(notification: AlertNotification): Promise<void> {
+    const body = JSON.stringify(notification);
+    for (let attempt = 1; ; attempt++) {
+      let error: Error;
+      let retryable: boolean;
+      try {
+        const status = await postWebhook(this.url, body, {
+          secret: this.secret,
+          headers: this.headers,
+          timeoutMs: this.timeoutMs
+        });
+        if (status >= 200 && status < 300) {
+          return;
+        }
+        error = new Error('The webhook responded with status ' + status);
+        retryable = isRetryableWebhookFailure(status);
+      } catch (e) {
+        error = e;
+        retryable = isRetryableWebhookFailure();
+      }
+      const delay = retryable ? this.retryPolicy.nextDelay(attempt) : undefined;
+      if (delay == undefined) {
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
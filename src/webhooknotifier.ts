@@ -0,0 +1,287 @@
+import { remootioApiVerifyHmacSha256 } from './apicrypto';
+import { EventEmitter } from './eventemitter';
+import { EventTypes, ReceivedEncryptedFrameContent, ReceivedFrames } from './frames';
+import { Logger, noopLogger } from './logger';
+import { ExponentialBackoffReconnectPolicy, ReconnectPolicy } from './reconnectpolicy';
+import { RemootioDevice } from './remootiodevice';
+import { isRetryableWebhookFailure, postWebhook, validateWebhookUrl } from './webhookrequest';
+
+/**
+ * RemootioWebhookNotifier class sends an HTTP POST request to webhooks when selected events of RemootioDevice instances are received,
+ * e.g. the gate is left open (LeftOpen), the doorbell is pushed (DoorbellPushed), the gate is triggered with a guest key (RelayTrigger
+ * with keyType 'guest key'), a key is added or removed (KeyManagement) or the device restarts (Restart).
+ * The body is JSON signed with HMAC-SHA256 (the MAC of the ENCRYPTED frames, see apicrypto.ts) if the webhook has a secret: the base64
+ * encoded MAC of the body is sent in the X-Remootio-Signature header, receivers can check it with RemootioWebhookNotifier.verifySignature().
+ * A failed request (network error, timeout, 429 or 5xx status) is retried with the delays of the retry policy, the other statuses are not retried.
+ *
+ * *** Constructor ***
+ * @param {Array} webhooks - the webhooks, every webhook contains:
+ * url - the URL to POST to (http or https)
+ * events - the event types to send, e.g. ['LeftOpen', 'DoorbellPushed']
+ * filter (optional) - the values the fields of the event must have, e.g. { keyType: 'guest key' }. A field is looked up in the event
+ * and in its data, an array of values matches any of them
+ * template (optional) - the body to send: an object whose strings may contain {{placeholders}} (deviceId, timestamp, event.type,
+ * event.data.keyNr and so on, a string that is a single placeholder is replaced by the value itself), or a function returning the body.
+ * The body is {deviceId, event, timestamp} by default
+ * secret (optional) - the key of the HMAC signature
+ * headers (optional) - additional headers of the request
+ * @param {Object} [options]
+ * @param {Object} [options.retryPolicy] - the delays between the attempts (see reconnectpolicy.ts), by default 5 retries with exponential backoff from 1 second
+ * @param {number} [options.timeoutMs=10000] - a request is aborted (and retried) if there is no response within timeoutMs
+ * @param {Object} [options.logger] - the failed deliveries are logged here (see logger.ts)
+ *
+ * *** Methods ***
+ * @method addDevice(id, device) - sends the webhooks for the events of the device, the id is the deviceId of the body
+ * @method removeDevice(id) - stops watching the events of the device (the pending retries are still sent)
+ * @method close() - stops watching all the devices and cancels the pending retries
+ * @method RemootioWebhookNotifier.verifySignature(body, signature, secret) - checks the X-Remootio-Signature header of a webhook request
+ *
+ * *** Events ***
+ * @event delivered - a webhook was delivered, with the delivery (webhook, deviceId, event, body, attempts) as parameter
+ * @event failed - a webhook could not be delivered after all the retries, with the delivery and the last error as parameters
+ */
+
+export type RemootioEventType = EventTypes['event']['type'];
+
+export interface WebhookContext {
+  deviceId: string;
+  event: EventTypes['event'];
+  timestamp?: string;
+}
+
+export interface RemootioWebhook {
+  url: string;
+  events: RemootioEventType[];
+  filter?: { [field: string]: string | number | boolean | (string | number | boolean)[] };
+  template?: { [field: string]: unknown } | ((context: WebhookContext) => unknown);
+  secret?: string;
+  headers?: { [name: string]: string };
+}
+
+export interface RemootioWebhookNotifierOptions {
+  retryPolicy?: ReconnectPolicy;
+  timeoutMs?: number;
+  logger?: Logger;
+}
+
+export interface WebhookDelivery {
+  webhook: RemootioWebhook;
+  deviceId: string;
+  event: EventTypes['event'];
+  body: string;
+  attempts: number;
+}
+
+export type RemootioWebhookNotifierEvents = {
+  delivered: (delivery: WebhookDelivery) => void;
+  failed: (delivery: WebhookDelivery, error: Error) => void;
+};
+
+export declare interface RemootioWebhookNotifier {
+  on<E extends keyof RemootioWebhookNotifierEvents>(event: E, listener: RemootioWebhookNotifierEvents[E]): this;
+  emit<E extends keyof RemootioWebhookNotifierEvents>(
+    event: E,
+    ...args: Parameters<RemootioWebhookNotifierEvents[E]>
+  ): boolean;
+}
+
+/**
+ * Looks up the value of a field of the event: in the event itself or in its data
+ * @param {Object} event - the event
+ * @param {string} field - the name of the field, e.g. 'keyType'
+ */
+function eventField(event: EventTypes['event'], field: string): unknown {
+  if (Object.prototype.hasOwnProperty.call(event, field)) {
+    return (event as { [field: string]: unknown })[field];
+  }
+  const data = 'data' in event ? (event.data as { [field: string]: unknown }) : undefined;
+  return data != undefined && Object.prototype.hasOwnProperty.call(data, field) ? data[field] : undefined;
+}
+
+/**
+ * Replaces the {{placeholders}} in the strings of a template with the values of the context
+ * @param {Object} template - the template (objects, arrays and strings are processed recursively)
+ * @param {Object} context - the values of the placeholders
+ */
+function renderTemplate(template: unknown, context: WebhookContext): unknown {
+  const lookup = (path: string) =>
+    path.split('.').reduce<unknown>((value, key) => {
+      return typeof value == 'object' && value != null && Object.prototype.hasOwnProperty.call(value, key)
+        ? (value as { [key: string]: unknown })[key]
+        : undefined;
+    }, context);
+  if (typeof template == 'string') {
+    const single = /^\{\{\s*([\w.]+)\s*\}\}$/.exec(template);
+    if (single != null) {
+      return lookup(single[1]);
+    }
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_placeholder, path: string) => {
+      const value = lookup(path);
+      return value == undefined ? '' : String(value);
+    });
+  }
+  if (Array.isArray(template)) {
+    return template.map((item) => renderTemplate(item, context));
+  }
+  if (typeof template == 'object' && template != null) {
+    const rendered: { [key: string]: unknown } = {};
+    Object.keys(template).forEach((key) => {
+      rendered[key] = renderTemplate((template as { [key: string]: unknown })[key], context);
+    });
+    return rendered;
+  }
+  return template;
+}
+
+export class RemootioWebhookNotifier extends EventEmitter {
+  private webhooks: RemootioWebhook[];
+  private retryPolicy: ReconnectPolicy;
+  private timeoutMs: number;
+  private logger: Logger;
+  private devices: Map<string, { device: RemootioDevice; listener: RemootioDevice.Events['incomingmessage'] }>;
+  private retryTimeouts: Set<ReturnType<typeof setTimeout>>;
+
+  constructor(webhooks: RemootioWebhook[], options?: RemootioWebhookNotifierOptions) {
+    super();
+    webhooks.forEach((webhook) => validateWebhookUrl(webhook.url));
+    this.webhooks = webhooks;
+    this.retryPolicy =
+      options?.retryPolicy ?? new ExponentialBackoffReconnectPolicy({ initialDelayMs: 1000, maxAttempts: 5 });
+    this.timeoutMs = options?.timeoutMs ?? 10000;
+    this.logger = options?.logger ?? noopLogger;
+    this.devices = new Map();
+    this.retryTimeouts = new Set();
+  }
+
+  /**
+   * Checks the signature of a webhook request in constant time
+   * @param {string} body - the body of the request as received
+   * @param {string} signature - the value of the X-Remootio-Signature header
+   * @param {string} secret - the secret of the webhook
+   * @returns {boolean} - true if the signature is valid
+   */
+  static verifySignature(body: string, signature: string, secret: string): boolean {
+    return remootioApiVerifyHmacSha256(Buffer.from(secret, 'utf8'), body, signature);
+  }
+
+  /**
+   * Sends the webhooks for the events of a device
+   * @param {string} id - the id of the device, it is the deviceId of the body
+   * @param {RemootioDevice} device - the device
+   */
+  addDevice(id: string, device: RemootioDevice): void {
+    if (this.devices.has(id)) {
+      throw new Error('A device with id ' + id + ' is already added');
+    }
+    const listener = (_frame: ReceivedFrames, payload?: ReceivedEncryptedFrameContent, timestamp?: Date) => {
+      if (payload != undefined && 'event' in payload) {
+        this.handleEvent(id, payload.event, timestamp);
+      }
+    };
+    device.on('incomingmessage', listener);
+    this.devices.set(id, { device, listener });
+  }
+
+  /**
+   * Stops watching the events of a device (the pending retries are still sent)
+   * @param {string} id - the id of the device
+   * @returns {boolean} - true if the device was added
+   */
+  removeDevice(id: string): boolean {
+    const added = this.devices.get(id);
+    if (added == undefined) {
+      return false;
+    }
+    added.device.removeListener('incomingmessage', added.listener);
+    this.devices.delete(id);
+    return true;
+  }
+
+  /**
+   * Stops watching all the devices and cancels the pending retries
+   */
+  close(): void {
+    Array.from(this.devices.keys()).forEach((id) => this.removeDevice(id));
+    this.retryTimeouts.forEach((timeout) => clearTimeout(timeout));
+    this.retryTimeouts.clear();
+  }
+
+  private handleEvent(deviceId: string, event: EventTypes['event'], timestamp?: Date): void {
+    const context: WebhookContext = { deviceId, event, timestamp: timestamp?.toISOString() };
+    this.webhooks.forEach((webhook) => {
+      if (webhook.events.indexOf(event.type) == -1 || !this.matchesFilter(webhook, event)) {
+        return;
+      }
+      let body: unknown;
+      try {
+        body =
+          typeof webhook.template == 'function'
+            ? webhook.template(context)
+            : webhook.template != undefined
+            ? renderTemplate(webhook.template, context)
+            : context;
+      } catch (e) {
+        this.logger.error('The template of the webhook threw an exception', { url: webhook.url, error: e });
+        return;
+      }
+      this.deliver({ webhook, deviceId, event, body: JSON.stringify(body), attempts: 0 });
+    });
+  }
+
+  private matchesFilter(webhook: RemootioWebhook, event: EventTypes['event']): boolean {
+    const filter = webhook.filter ?? {};
+    return Object.keys(filter).every((field) => {
+      const expected = filter[field];
+      const value = eventField(event, field);
+      return Array.isArray(expected) ? expected.some((item) => item === value) : expected === value;
+    });
+  }
+
+  /**
+   * Sends a webhook request, and schedules a retry if it fails
+   * @param {Object} delivery - the delivery, attempts is the number of the attempts so far
+   */
+  private deliver(delivery: WebhookDelivery): void {
+    delivery.attempts++;
+    const failed = (error: Error, retryable: boolean) => {
+      const delay = retryable ? this.retryPolicy.nextDelay(delivery.attempts) : undefined;
+      if (delay == undefined) {
+        this.logger.error('The webhook could not be delivered', {
+          url: delivery.webhook.url,
+          deviceId: delivery.deviceId,
+          eventType: delivery.event.type,
+          attempts: delivery.attempts,
+          error
+        });
+        this.emit('failed', delivery, error);
+        return;
+      }
+      this.logger.warn('The webhook request failed, retrying', {
+        url: delivery.webhook.url,
+        attempts: delivery.attempts,
+        delayMs: delay,
+        error
+      });
+      const timeout = setTimeout(() => {
+        this.retryTimeouts.delete(timeout);
+        this.deliver(delivery);
+      }, delay);
+      this.retryTimeouts.add(timeout);
+    };
+    const webhook = delivery.webhook;
+    postWebhook(webhook.url, delivery.body, {
+      secret: webhook.secret,
+      headers: webhook.headers,
+      timeoutMs: this.timeoutMs
+    }).then(
+      (status) => {
+        if (status >= 200 && status < 300) {
+          this.emit('delivered', delivery);
+        } else {
+          failed(new Error('The webhook responded with status ' + status), isRetryableWebhookFailure(status));
+        }
+      },
+      (error: Error) => failed(error, isRetryableWebhookFailure())
+    );
+  }
+}
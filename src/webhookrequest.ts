@@ -0,0 +1,69 @@
+import * as http from 'http';
+import * as https from 'https';
+import { URL } from 'url';
+import { remootioApiHmacSha256 } from './apicrypto';
+
+/**
+ * This module sends the HTTP POST requests of the webhooks (see webhooknotifier.ts and webhookalertsink.ts).
+ * The body is signed with HMAC-SHA256 if there is a secret: the base64 encoded MAC of the body is sent in the X-Remootio-Signature header.
+ */
+
+export const webhookSignatureHeader = 'X-Remootio-Signature';
+
+export interface WebhookRequestOptions {
+  secret?: string;
+  headers?: { [name: string]: string };
+  timeoutMs: number;
+}
+
+/**
+ * Throws an error if the URL is invalid or it is not an http or https URL
+ * @param {string} url - the URL of the webhook
+ */
+export function validateWebhookUrl(url: string): void {
+  const protocol = new URL(url).protocol; //throws if the URL is invalid
+  if (protocol != 'http:' && protocol != 'https:') {
+    throw new Error('Invalid webhook URL ' + url + ', only http and https are supported');
+  }
+}
+
+/**
+ * POSTs a JSON body to a webhook, resolves with the status of the response
+ * @param {string} url - the URL of the webhook
+ * @param {string} body - the JSON body
+ * @param {Object} options - the secret of the signature, additional headers and the timeout of the request
+ */
+export function postWebhook(url: string, body: string, options: WebhookRequestOptions): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const headers: { [name: string]: string | number } = {
+      ...options.headers,
+      'Content-Type': 'application/json',
+      'Content-Length': Buffer.byteLength(body)
+    };
+    if (options.secret != undefined) {
+      headers[webhookSignatureHeader] = remootioApiHmacSha256(Buffer.from(options.secret, 'utf8'), body);
+    }
+    const parsedUrl = new URL(url);
+    const request = (parsedUrl.protocol == 'https:' ? https : http).request(
+      parsedUrl,
+      { method: 'POST', headers, timeout: options.timeoutMs },
+      (res) => {
+        res.resume(); //the body of the response is not used
+        resolve(res.statusCode ?? 0);
+      }
+    );
+    request.on('timeout', () =>
+      request.destroy(new Error('The webhook did not respond in ' + options.timeoutMs + 'ms'))
+    );
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Tells if a failed request should be retried: network errors, timeouts, 429 and 5xx statuses (the other client errors e.g. 401 would fail again)
+ * @param {number} [status] - the status of the response, undefined if there was no response
+ */
+export function isRetryableWebhookFailure(status?: number): boolean {
+  return status == undefined || status == 429 || status >= 500;
+}
@@ -0,0 +1,23 @@
+import * as WebSocket from 'ws';
+import { TransportFactory } from './transport';
+
+/**
+ * The TransportFactory using the ws node module, the RemootioDevice class uses it by default in node
+ */
+export const createWsTransport: TransportFactory = (url, handlers) => {
+  const websocket = new WebSocket(url);
+  websocket.on('open', () => handlers.onOpen());
+  websocket.on('message', (data) => handlers.onMessage(data.toString()));
+  websocket.on('close', () => handlers.onClose());
+  websocket.on('error', () => {
+    //Connection error - the close event follows
+  });
+  return {
+    get isOpen() {
+      return websocket.readyState == WebSocket.OPEN;
+    },
+    send: (data) => websocket.send(data),
+    close: () => websocket.close(),
+    terminate: () => websocket.terminate()
+  };
+};